@@ -0,0 +1,73 @@
+/**
+ * Run the schema migrations of a directory on a project, see {@link Migrator}.
+ *
+ * ```
+ * deno run --allow-net --allow-env --allow-read migrate.ts --api-key <key> --dir ./migrations up
+ * ```
+ *
+ * Commands:
+ * - `status`: list the migrations and when they were applied
+ * - `up`: apply the pending migrations
+ * - `down`: roll back the last applied migration
+ *
+ * Options:
+ * - `--api-key`: API key of the project, or the PROJECT_APIKEY environment variable
+ * - `--dir`: directory of the migration files, `./migrations` by default
+ * - `--to`: version to migrate up or down to
+ * - `--dry-run`: print the steps without applying them
+ * - `--state-object`: apiName of the object recording the applied migrations
+ * - `--admin-host`: admin host of the API, see {@link TwintagConfig}
+ */
+import { Project } from './sdk/project.ts';
+import { Migrator, loadMigrations } from './sdk/migrate.ts';
+
+export { loadMigrations } from './sdk/migrate.ts';
+
+if (import.meta.main) {
+  const args: { [name: string]: string } = {};
+  const commands: string[] = [];
+  for (let i = 0; i < Deno.args.length; i++) {
+    const arg = Deno.args[i];
+    if (!arg.startsWith('--')) {
+      commands.push(arg);
+    } else if (arg === '--dry-run') {
+      args['dry-run'] = 'true';
+    } else {
+      const [name, value] = arg.slice(2).split(/=(.*)/s);
+      args[name] = value ?? Deno.args[++i] ?? '';
+    }
+  }
+
+  const command = commands[0] ?? 'status';
+  if (commands.length > 1 || !['status', 'up', 'down'].includes(command)) {
+    console.error('usage: migrate.ts [status|up|down] [--dir <dir>] [--to <version>] [--dry-run]');
+    Deno.exit(2);
+  }
+
+  const apiKey = args['api-key'] ?? Deno.env.get('PROJECT_APIKEY');
+  if (!apiKey) {
+    console.error('missing --api-key or PROJECT_APIKEY');
+    Deno.exit(2);
+  }
+
+  const project = new Project(apiKey, args['admin-host'] ? { adminHost: args['admin-host'] } : undefined);
+  const migrator = new Migrator(project, await loadMigrations(args['dir'] ?? './migrations'), { stateObject: args['state-object'] });
+  const options = { to: args['to'] !== undefined ? Number(args['to']) : undefined, dryRun: args['dry-run'] === 'true' };
+
+  if (command === 'status') {
+    for (const migration of await migrator.status()) {
+      console.log(`${migration.version} ${migration.name}: ${migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending'}`);
+    }
+  } else {
+    const results = command === 'up' ? await migrator.up(options) : await migrator.down(options);
+    for (const result of results) {
+      console.log(`${options.dryRun ? 'would run' : 'ran'} ${result.direction} ${result.version} ${result.name}`);
+      for (const step of result.steps) {
+        console.log(`  ${step}`);
+      }
+    }
+    if (results.length === 0) {
+      console.log('nothing to migrate');
+    }
+  }
+}
@@ -3,11 +3,78 @@ export * from './sdk/sdk.ts';
 export { Project, type Access, BagType } from './sdk/project.ts';
 export { createBag, View } from './sdk/view.ts';
 export { Link } from './sdk/virtual.ts';
-export type { Filter, FilterExpression, custom } from './sdk/listObject.ts';
+export type { Filter, FilterExpression, RecordFilter, custom, IterateOptions, KeyOptions, UpsertResult, UpsertReport } from './sdk/listObject.ts';
+export type { PageOptions } from './sdk/paginate.ts';
+export type { BatchOptions, BatchReport, RowResult } from './sdk/batch.ts';
+export type { DataFormat, DataFormatOptions, ExportOptions, ImportOptions, ImportReport } from './sdk/dataFormat.ts';
+export { Query, Where, type Comparable, type Operator } from './sdk/query.ts';
 export { AttributeType } from './sdk/structuredObject.ts';
+export { CodecRegistry, type Codec, type CodecContext, type DataOptions } from './sdk/codec.ts';
+export { generateTypes, type TypegenOptions } from './sdk/typegen.ts';
+export {
+  diffSchemas,
+  parseSchema,
+  stringifySchema,
+  type SchemaDocument,
+  type ObjectSchema,
+  type AttributeSchema,
+  type SchemaChange,
+  type SchemaImportOptions,
+  type SchemaImportResult,
+} from './sdk/schema.ts';
+export {
+  Migrator,
+  MigrationContext,
+  MigrationError,
+  type Migration,
+  type MigratorOptions,
+  type MigrateOptions,
+  type MigrationStatus,
+  type MigrationResult,
+} from './sdk/migrate.ts';
 export { FileUploader } from './sdk/fileUploader.ts';
+export {
+  syncDirectory,
+  type SyncAction,
+  type SyncOptions,
+  type SyncPlan,
+  type SyncReport,
+} from './sdk/sync.ts';
+export { type StreamUploadOptions, type UploadOptions, type UploadProgress } from './sdk/upload.ts';
 export { type FileInfo } from './sdk/files.ts';
+export { ListingCache, type ListingCacheOptions, type ListingCacheStats } from './sdk/cache.ts';
 export { StorageBag } from './sdk/storage_bag.ts';
-export { Folder } from './sdk/folder.ts';
+export {
+  Folder,
+  type CopyOptions,
+  type GlobOptions,
+  type ReaddirOptions,
+  type RemoveOptions,
+  type WalkEntry,
+  type WalkOptions,
+} from './sdk/folder.ts';
 export { Twintag } from './sdk/twintag.ts';
+export {
+  TwintagError,
+  type TwintagErrorValue,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  FileNotFoundError,
+  FileExistsError,
+  RateLimitedError,
+  ValidationError,
+  type Violation,
+  NetworkError,
+  ParseError,
+  FinalTransportError,
+  AbortedError,
+  TimeoutError,
+} from './sdk/error.model.ts';
+export type { RequestOptions } from './sdk/abort.ts';
+export type { RetryPolicy } from './sdk/retry.ts';
+export type { Middleware, Transport } from './sdk/middleware.ts';
+export type { TwintagConfig } from './sdk/environment.ts';
+export { JsonLinesLogger, type Logger, type LogFields } from './sdk/logger.ts';
 export { VERSION } from './version.ts';
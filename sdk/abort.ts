@@ -0,0 +1,119 @@
+import { AbortedError, TimeoutError } from "./error.model.ts";
+
+/**
+ * Cancellation options accepted by every method that performs a request.
+ */
+export interface RequestOptions {
+    /**
+     * Cancels the call when aborted. The call then rejects with an {@link AbortedError}.
+     */
+    signal?: AbortSignal
+    /**
+     * Cancels the call when it takes longer, including retries and reading a returned stream.
+     * The call then rejects with a {@link TimeoutError}. 0 or undefined means no timeout.
+     */
+    timeoutMs?: number
+}
+
+/**
+ * RequestAbort combines a caller's AbortSignal and a timeout into a single signal
+ * and translates the resulting failures into TwintagErrors.
+ *
+ * @internal
+ */
+export class RequestAbort {
+    readonly signal: AbortSignal
+    private controller = new AbortController()
+    private timer?: ReturnType<typeof setTimeout>
+    private timedOut = false
+    private parent?: AbortSignal
+    private onParentAbort = () => this.controller.abort(this.parent?.reason)
+
+    constructor(private options?: RequestOptions) {
+        this.signal = this.controller.signal
+        this.parent = options?.signal
+        if (this.parent) {
+            if (this.parent.aborted) {
+                this.controller.abort(this.parent.reason)
+            } else {
+                this.parent.addEventListener('abort', this.onParentAbort, { once: true })
+            }
+        }
+        if (options?.timeoutMs && options.timeoutMs > 0) {
+            this.timer = setTimeout(() => {
+                this.timedOut = true
+                this.controller.abort()
+            }, options.timeoutMs)
+        }
+    }
+
+    /**
+     * Throws when the request was already aborted.
+     */
+    throwIfAborted() {
+        if (this.signal.aborted) {
+            throw this.wrap(this.signal.reason)
+        }
+    }
+
+    /**
+     * Translate an error into an AbortedError or TimeoutError when it was caused by this abort.
+     */
+    wrap(err: unknown): unknown {
+        if (err instanceof AbortedError || !this.signal.aborted) {
+            return err
+        }
+        if (this.timedOut) {
+            return new TimeoutError(this.options!.timeoutMs!, err)
+        }
+        return new AbortedError('request aborted', err)
+    }
+
+    /**
+     * Release the timer and the listener on the caller's signal.
+     */
+    dispose() {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+        this.parent?.removeEventListener('abort', this.onParentAbort)
+    }
+
+    /**
+     * Wrap a response body so the abort is disposed once the stream is consumed
+     * or cancelled, and aborts surface as TwintagErrors while reading.
+     */
+    guard(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+        const reader = stream.getReader()
+        // Not every body errors on abort by itself, so cancel it explicitly
+        this.signal.addEventListener('abort', () => {
+            reader.cancel(this.signal.reason).catch(() => {})
+        }, { once: true })
+        return new ReadableStream<Uint8Array>({
+            pull: async (controller) => {
+                try {
+                    const { done, value } = await reader.read()
+                    if (this.signal.aborted) {
+                        this.dispose()
+                        controller.error(this.wrap(this.signal.reason))
+                        return
+                    }
+                    if (done) {
+                        this.dispose()
+                        controller.close()
+                        return
+                    }
+                    controller.enqueue(value)
+                } catch (err) {
+                    this.dispose()
+                    controller.error(this.wrap(err))
+                }
+            },
+            cancel: async (reason) => {
+                this.dispose()
+                await reader.cancel(reason)
+            },
+        })
+    }
+}
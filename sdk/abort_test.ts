@@ -0,0 +1,57 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Client } from "./client.ts";
+import { environment } from "./environment.ts";
+import { Transport } from "./middleware.ts";
+import { AbortedError, TimeoutError } from "./error.model.ts";
+
+const url = 'https://twintag.test/api/v1/things'
+
+// Never answers, fails when the request is aborted
+const hanging: Transport = (request) => new Promise((_, reject) => {
+  request.signal.addEventListener('abort', () => reject(request.signal.reason), { once: true })
+})
+
+function clientWith(transport: Transport): Client {
+  return new Client('token', environment.derive({ transport: transport, retryPolicy: { jitter: 'none', baseDelayMs: 60000 } }))
+}
+
+describe("Request abort", ()=>{
+
+  it("rejects with AbortedError when the signal is aborted" , async () => {
+    const controller = new AbortController()
+    const pending = clientWith(hanging).get(url, { signal: controller.signal })
+    controller.abort()
+    await t.assertRejects(() => pending, AbortedError)
+  })
+
+  it("does not send a request with an aborted signal" , async () => {
+    let sent = 0
+    const client = clientWith(() => {
+      sent++
+      return Promise.resolve(new Response('{}'))
+    })
+    await t.assertRejects(() => client.get(url, { signal: AbortSignal.abort() }), AbortedError)
+    t.assertEquals(sent, 0)
+  })
+
+  it("rejects with TimeoutError when the request takes too long" , async () => {
+    const err = await t.assertRejects(() => clientWith(hanging).get(url, { timeoutMs: 10 }), TimeoutError)
+    t.assertStringIncludes(err.message, '10')
+  })
+
+  it("interrupts the wait before a retry" , async () => {
+    let sent = 0
+    const controller = new AbortController()
+    const client = clientWith(() => {
+      sent++
+      setTimeout(() => controller.abort(), 10)
+      return Promise.resolve(new Response('', { status: 503 }))
+    })
+    const started = Date.now()
+    await t.assertRejects(() => client.get(url, { signal: controller.signal }), AbortedError)
+    t.assertEquals(sent, 1)
+    t.assert(Date.now() - started < 5000)
+  })
+
+})
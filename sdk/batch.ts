@@ -0,0 +1,104 @@
+import { RequestOptions } from './abort.ts';
+import { AbortedError } from './error.model.ts';
+
+/**
+ * Options of the bulk operations on list objects.
+ */
+export interface BatchOptions extends RequestOptions {
+    /**
+     * Number of rows per chunk, 100 by default.
+     */
+    chunkSize?: number
+    /**
+     * Number of chunks processed at the same time, 4 by default.
+     */
+    concurrency?: number
+}
+
+/**
+ * Outcome of a single row of a bulk operation.
+ */
+export interface RowResult<T> {
+    /**
+     * Position of the row in the input.
+     */
+    index: number
+    ok: boolean
+    value?: T
+    error?: Error
+}
+
+/**
+ * Report of a bulk operation. A failing row does not stop the operation,
+ * it is reported in `failed` and the other rows are still processed.
+ */
+export interface BatchReport<T> {
+    /**
+     * Outcome of every row, in input order.
+     */
+    results: RowResult<T>[]
+    succeeded: number
+    failed: RowResult<T>[]
+}
+
+/**
+ * Process rows in chunks, running at most `concurrency` chunks at the same time.
+ * Rows of a chunk are passed to `run` together; the outcome of every row is collected
+ * in the report. Aborting the signal stops the operation with an {@link AbortedError}.
+ *
+ * @internal
+ */
+export async function executeBatched<I, O>(
+    rows: I[],
+    run: (chunk: I[], options: RequestOptions) => Promise<RowResult<O>[]>,
+    options?: BatchOptions
+): Promise<BatchReport<O>> {
+    const chunkSize = Math.max(1, options?.chunkSize ?? 100)
+    const concurrency = Math.max(1, options?.concurrency ?? 4)
+    const requestOptions: RequestOptions = { signal: options?.signal, timeoutMs: options?.timeoutMs }
+
+    const chunks: number[] = []
+    for (let start = 0; start < rows.length; start += chunkSize) {
+        chunks.push(start)
+    }
+
+    const results: RowResult<O>[] = new Array(rows.length)
+    let next = 0
+    const worker = async () => {
+        while (next < chunks.length) {
+            const start = chunks[next++]
+            if (options?.signal?.aborted) {
+                throw new AbortedError('bulk operation aborted', options.signal.reason)
+            }
+            const outcome = await run(rows.slice(start, start + chunkSize), requestOptions)
+            for (const row of outcome) {
+                results[start + row.index] = { ...row, index: start + row.index }
+            }
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker))
+
+    const failed = results.filter(r => !r.ok)
+    return { results: results, succeeded: results.length - failed.length, failed: failed }
+}
+
+/**
+ * Run a request per row of a chunk, one after the other, turning failures into row results.
+ * An aborted request stops the operation.
+ *
+ * @internal
+ */
+export async function eachRow<I, O>(chunk: I[], run: (row: I) => Promise<O>): Promise<RowResult<O>[]> {
+    const results: RowResult<O>[] = []
+    for (let index = 0; index < chunk.length; index++) {
+        try {
+            results.push({ index: index, ok: true, value: await run(chunk[index]) })
+        } catch (err) {
+            if (err instanceof AbortedError) {
+                throw err
+            }
+            results.push({ index: index, ok: false, error: err instanceof Error ? err : new Error(`${err}`) })
+        }
+    }
+    return results
+}
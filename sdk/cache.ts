@@ -0,0 +1,130 @@
+import { FileInfo } from './files.ts';
+
+/**
+ * Options of the listing cache of a bag, see {@link View.useListingCache}.
+ */
+export interface ListingCacheOptions {
+  /** Time in milliseconds an entry stays valid, 60 seconds by default. */
+  ttlMs?: number;
+}
+
+/**
+ * Hits and misses of a listing cache since it was created or its statistics were reset.
+ */
+export interface ListingCacheStats {
+  listingHits: number;
+  listingMisses: number;
+  pathHits: number;
+  pathMisses: number;
+  /** Number of invalidations, explicit or caused by writes through the SDK. */
+  invalidations: number;
+  /** Number of entries held, including expired entries not looked up since. */
+  size: number;
+}
+
+interface entry<T> {
+  value: T;
+  expires: number;
+}
+
+/**
+ * Cache of the folder listings of a bag and of the file information of absolute paths.
+ *
+ * Writes, deletes, moves and copies through the SDK invalidate the affected folders.
+ * Changes made by others are seen when the entries expire, or after {@link invalidate}.
+ */
+export class ListingCache {
+  private listings = new Map<string, entry<FileInfo[]>>();
+  private paths = new Map<string, entry<FileInfo>>();
+  private ttlMs: number;
+  private counts = { listingHits: 0, listingMisses: 0, pathHits: 0, pathMisses: 0, invalidations: 0 };
+
+  constructor(options?: ListingCacheOptions) {
+    this.ttlMs = Math.max(0, options?.ttlMs ?? 60000);
+  }
+
+  /**
+   * The listing of a folder, the empty string for the root folder.
+   *
+   * @internal
+   */
+  public getListing(folderQid: string): FileInfo[] | undefined {
+    const items = this.valid(this.listings, folderQid);
+    if (items) {
+      this.counts.listingHits++;
+      return [...items];
+    }
+    this.counts.listingMisses++;
+    return undefined;
+  }
+
+  /**
+   * @internal
+   */
+  public setListing(folderQid: string, items: FileInfo[]): void {
+    this.listings.set(folderQid, { value: [...items], expires: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * The file information of an absolute, normalised path.
+   *
+   * @internal
+   */
+  public getPath(path: string): FileInfo | undefined {
+    const info = this.valid(this.paths, path);
+    if (info) {
+      this.counts.pathHits++;
+      return info;
+    }
+    this.counts.pathMisses++;
+    return undefined;
+  }
+
+  /**
+   * @internal
+   */
+  public setPath(path: string, info: FileInfo): void {
+    this.paths.set(path, { value: info, expires: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * Forget the listing of a folder, the paths of its items and the paths below them.
+   * Without folder, forget everything.
+   */
+  public invalidate(folderQid?: string): void {
+    this.counts.invalidations++;
+    if (folderQid === undefined) {
+      this.listings.clear();
+      this.paths.clear();
+      return;
+    }
+    this.listings.delete(folderQid);
+    const removed = [...this.paths]
+      .filter(([, e]) => (e.value.Parent ?? '') === folderQid || e.value.FileQid === folderQid)
+      .map(([path]) => path);
+    for (const path of removed) {
+      for (const key of [...this.paths.keys()]) {
+        if (key === path || key.startsWith(path + '/')) {
+          this.paths.delete(key);
+        }
+      }
+    }
+  }
+
+  public stats(): ListingCacheStats {
+    return { ...this.counts, size: this.listings.size + this.paths.size };
+  }
+
+  public resetStats(): void {
+    this.counts = { listingHits: 0, listingMisses: 0, pathHits: 0, pathMisses: 0, invalidations: 0 };
+  }
+
+  private valid<T>(entries: Map<string, entry<T>>, key: string): T | undefined {
+    const found = entries.get(key);
+    if (found && found.expires <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return found?.value;
+  }
+}
@@ -0,0 +1,64 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { ListingCache } from "./cache.ts";
+import { withBag } from "./testing.ts";
+
+describe("Listing cache", ()=>{
+  const fixture = withBag()
+  let cache:ListingCache
+  let lists = 0
+
+  beforeAll(async ()=> {
+    cache = fixture.bag.useListingCache({ ttlMs: 60000 })!
+    fixture.bag.bag!.use({ beforeRequest: (req) => {
+      if (req.method === 'GET' && req.url.includes('/folders')) {
+        lists++
+      }
+    } })
+    const folder = await fixture.bag.mkdirp('/a/b/c')
+    await folder.writeFromJson('file.json', { n: 1 })
+  })
+
+  it("resolves paths without listing again" , async () => {
+    cache.invalidate()
+    cache.resetStats()
+    lists = 0
+    const folder = await fixture.bag.rootFolder!.resolve('/a/b/c')
+    t.assertEquals(lists, 3)
+    t.assertEquals(await folder!.readAsJson('file.json'), { n: 1 })
+    t.assertEquals(await fixture.bag.exists('/a/b/c/file.json'), true)
+    t.assertEquals((await fixture.bag.stat('/a/b/c/file.json')).size > 0, true)
+    t.assertEquals(lists, 4)
+    const stats = cache.stats()
+    t.assertEquals([stats.pathHits, stats.pathMisses], [1, 2])
+    t.assertEquals(stats.listingMisses, 4)
+  })
+
+  it("invalidates the folders written through the SDK" , async () => {
+    const folder = (await fixture.bag.rootFolder!.resolve('/a/b/c'))!
+    await folder.writeFromString('other.txt', 'x')
+    t.assertEquals((await folder.listFiles()).map(f => f.name).sort(), ['file.json', 'other.txt'])
+
+    await fixture.bag.mv('/a/b/c/other.txt', '/a/moved.txt')
+    t.assertEquals(await fixture.bag.readdir('/a/b/c'), ['file.json'])
+    t.assertEquals((await fixture.bag.readdir('/a')).sort(), ['b', 'moved.txt'])
+
+    await fixture.bag.rm('/a/b', { recursive: true })
+    t.assertEquals(await fixture.bag.exists('/a/b/c/file.json'), false)
+    t.assertEquals(await fixture.bag.readdir('/a'), ['moved.txt'])
+    await fixture.bag.mkdirp('/a/b')
+    t.assertEquals((await fixture.bag.readdir('/a')).sort(), ['b', 'moved.txt'])
+  })
+
+  it("expires entries" , async () => {
+    const short = fixture.bag.useListingCache({ ttlMs: 0 })!
+    lists = 0
+    await fixture.bag.readdir('/a')
+    await fixture.bag.readdir('/a')
+    t.assertEquals(lists, 4)
+    t.assertEquals(short.stats().listingHits, 0)
+    fixture.bag.useListingCache(false)
+    t.assertEquals(fixture.bag.bag!.listingCache, undefined)
+  })
+
+})
@@ -1,138 +1,150 @@
 import { VERSION } from "../version.ts";
-import {TwintagErrorValue, TwintagError} from "./error.model.ts";
-import { environment } from "./environment.ts";
+import { TwintagErrorValue, TwintagError, TwintagErrorContext, NetworkError, ParseError, FinalTransportError, createTwintagError } from "./error.model.ts";
+import { Environment, environment } from "./environment.ts";
+import { RetryPolicy, resolveRetryPolicy, isIdempotent, isReplayableBody, parseRetryAfter, backoffDelay, sleep } from "./retry.ts";
+import { RequestAbort } from "./abort.ts";
+import { Middleware, Transport, exchange } from "./middleware.ts";
+import { Logger, LogFields, redactUrl, redactHeaders } from "./logger.ts";
 
+/**
+ * Request options understood by the client on top of the fetch RequestInit.
+ *
+ * @internal
+ */
+export interface ClientRequestInit extends RequestInit {
+    /**
+     * Overrides the idempotency derived from the HTTP method when deciding on retries.
+     */
+    idempotent?: boolean
+    /**
+     * Abort the request when it takes longer, see {@link RequestOptions}.
+     */
+    timeoutMs?: number
+}
+
+
+const defaultTransport: Transport = (request) => fetch(request)
+
+function contentLength(response: Response): number | undefined {
+    const length = response.headers.get('Content-Length')
+    return length !== null ? parseInt(length) : undefined
+}
 
 /**
  * @internal
  */
 export class Client {
     public token?: string
-    
-    start = 0
+    /**
+     * Hosts and defaults used by this client and the objects sharing it.
+     */
+    public readonly config: Environment
+    /**
+     * Overrides the retry policy of the config for requests of this client.
+     */
+    public retryPolicy?: Partial<RetryPolicy>
+    /**
+     * Overrides the transport of the config for requests of this client.
+     */
+    public transport?: Transport
+    /**
+     * Middleware of this client, runs after the middleware of the config.
+     */
+    public middleware: Middleware[] = []
 
-    constructor(token?: string) {
+    constructor(token?: string, config?: Environment) {
         this.token = token
+        this.config = config ?? environment
     }
 
-    private hasLoggableRequestBody(req:Request) {
-        if (!req.body) {
-            return false
-        }
-        const contentType = req.headers.get('Content-Type')
-        if (contentType) {
-            const types = ['application/json', 'application/graphql', 'application/graphql+json']
-            const found = types.find(t => t === contentType)
-            return (found !== null)
-        } 
-        return false
+    /**
+     * Create a client with the same token and settings, so settings can be
+     * changed without affecting the objects sharing this client.
+     */
+    public clone(): Client {
+        const client = new Client(this.token, this.config)
+        client.retryPolicy = this.retryPolicy
+        client.transport = this.transport
+        client.middleware = [...this.middleware]
+        return client
     }
 
-    private logHeaders(headers:Headers) {
-        for (const header of headers) {
-            if (header[0] !== 'authorization') {
-                console.log(' ', header[0],': ', header[1])
-            } else {
-                if (header[1].startsWith('Bearer')) {
-                    const beg = header[1].slice(20, 40)
-                    const end = header[1].slice(header[1].length-20, header[1].length)
-                    console.log(' ', header[0],': Bearer', beg, '...' ,end)
-                } else {
-                    console.log(' ', header[0],': ', header[1])
-                }
-            }
-        }  
+    private get logger(): Logger {
+        return this.config.logger
     }
 
-    // Optionally tee the body stream for regular fetching and console logging
-    private logRequest(req:Request): ReadableStream<Uint8Array> | null {
-        switch (environment._logLevel) {
-            case 'none':
-                return null
-            case 'single':
-                return null
-            case 'headers':
-                console.log(req.method, req.url.toString())
-                this.logHeaders(req.headers)
-                return null
-            case 'body': {
-                console.log(req.method, req.url.toString())
-                this.logHeaders(req.headers)
-                if (req.body) {
-                    const tee = req.body!.tee()
-                    console.log('REQ', tee[0])
-                    return tee[1]
-                } 
-                return null
-
-                // if (this.hasLoggableRequestBody(req)) {
-                    const tee = req.body!.tee()
-                    console.log(tee[0])
-                    return tee[1]
-                // } else {
-                //     return null
-                // }
-            } 
+    private logRequest(request:Request, body:ClientRequestInit['body'], attempt:number) {
+        const level = this.config._logLevel
+        if (level !== 'headers' && level !== 'body') {
+            return
+        }
+        const fields: LogFields = {
+            method: request.method,
+            url: redactUrl(request.url),
+            attempt: attempt,
+            headers: redactHeaders(request.headers),
         }
+        // Only text bodies are logged, streams and binary content are sent untouched
+        if (level === 'body' && typeof body === 'string') {
+            fields.body = body
+        }
+        this.logger.debug('request', fields)
     }
 
-    private logResponse(req:Request, rsp:Response, text?:string) {
-        switch (environment._logLevel) {
-            case 'none':
-                return
-            case 'single':
-                console.log(req.method, req.url.toString(), rsp.status, rsp.statusText, `${Date.now()-this.start}ms`)
-                return
-            case 'headers':
-                console.log(rsp.status, rsp.statusText, `${Date.now()-this.start}ms`)
-                this.logHeaders(req.headers)
-                return
-            case 'body': {
-                console.log(rsp.status, rsp.statusText, `${Date.now()-this.start}ms`)
-                this.logHeaders(req.headers)
-                if (text) {
-                    console.log('RSP', text)
-                }
-                break
-            } 
-        }        
+    private logResponse(message:string, request:Request, response:Response, started:number, attempt:number, text?:string) {
+        const level = this.config._logLevel
+        if (level === 'none') {
+            return
+        }
+        const fields: LogFields = {
+            method: request.method,
+            url: redactUrl(request.url),
+            status: response.status,
+            durationMs: Date.now() - started,
+            requestId: this.errorContext(request, response).requestId,
+            bytes: text !== undefined ? new TextEncoder().encode(text).length : contentLength(response),
+            attempt: attempt,
+        }
+        if (level === 'headers' || level === 'body') {
+            fields.headers = redactHeaders(response.headers)
+        }
+        if (level === 'body' && text !== undefined) {
+            fields.body = text
+        }
+        if (message === 'retry') {
+            this.logger.warn(message, fields)
+        } else if (!response.ok) {
+            this.logger.error(message, fields)
+        } else {
+            this.logger.info(message, fields)
+        }
     }
 
-    private logError(req:Request|null, rsp:Response|null, text:string) {
-        switch (environment._logLevel) {
-            case 'none':
-                return null
-            case 'single':
-                console.log(req ? req.method : '', req ? req.url.toString() : '', rsp ? rsp.statusText : 0, `${Date.now()-this.start}ms`)
-                return null
-            case 'headers':
-                console.log(rsp ? rsp.statusText : 0, `${Date.now()-this.start}ms`)
-                if (req) {
-                    for (const header of req.headers) {
-                        console.log(' ',header[0],': ', header[1])
-                    }
-                }
-                return null
-            case 'body': {
-                console.log(rsp ? rsp.statusText : 0, `${Date.now()-this.start}ms`)
-                if (req) {
-                    for (const header of req.headers) {
-                        console.log(' ', header[0],': ', header[1])
-                    }
-                }
-                console.log(text)
-                break
-            } 
-        }        
+    private logError(message:string, method:string, url:string, started:number, attempt:number, err:unknown) {
+        if (this.config._logLevel === 'none') {
+            return
+        }
+        const fields: LogFields = {
+            method: method,
+            url: redactUrl(url),
+            durationMs: Date.now() - started,
+            attempt: attempt,
+            error: `${err}`,
+        }
+        if (message === 'retry') {
+            this.logger.warn(message, fields)
+        } else {
+            this.logger.error(message, fields)
+        }
     }
 
     public async do<T>(
         path: string,
-        args: RequestInit,
+        args: ClientRequestInit,
         skipParse?: boolean,
         skipAuth?: boolean // TODO: Deprecate in virtual web endpoint.
     ): Promise<[T, TwintagError | undefined]> {
-        this.start = Date.now()
+        args = { ...args }
 
         //console.log('CLIENT','PATH', path, 'SKIPPARSE', skipParse)
 
@@ -148,68 +160,193 @@ export class Client {
         headers.append("X-Client-Name", "twintag.js");
         headers.append("X-Client-Version", VERSION);
         args.headers = headers
-        let request:Request|null = null
-        let response:Response|null = null
 
-        try {
-            request = new Request(path, args)
+        const abort = new RequestAbort({
+            signal: args.signal ?? undefined,
+            timeoutMs: args.timeoutMs ?? this.config.timeoutMs,
+        })
+        args.signal = abort.signal
 
-            const stream = this.logRequest(request)
-            if (stream) {
-                args.body = stream
+        try {
+            const [res, err] = await this.send<T>(path, args, abort.signal, skipParse)
+            if (res instanceof ReadableStream) {
+                // The abort stays active until the caller has consumed or cancelled the body
+                return [<T><unknown>abort.guard(res), err]
             }
+            abort.dispose()
+            return [res, err]
+        } catch (err) {
+            abort.dispose()
+            throw abort.wrap(err)
+        }
+    }
 
-            response = await fetch(request);
-  
-            if (!response.ok) {
-                // custom API error
-                const text = await response.text();
-                this.logResponse(request, response, text)
-                const json = JSON.parse(text)
-                const err = <[TwintagErrorValue]>json;
-                return [<T>{}, this.CreateTwintagError(err)];
+    private async send<T>(
+        path: string,
+        args: ClientRequestInit,
+        signal: AbortSignal,
+        skipParse?: boolean
+    ): Promise<[T, TwintagError | undefined]> {
+        const policy = resolveRetryPolicy(this.config.retryPolicy, this.retryPolicy)
+        const method = (args.method ?? 'GET').toUpperCase()
+        const idempotent = args.idempotent ?? isIdempotent(method)
+        const replayable = isReplayableBody(args.body)
+
+        for (let attempt = 1; ; attempt++) {
+            // A transport may ignore the signal, so an aborted request is not sent at all
+            signal.throwIfAborted()
+            const canRetry = replayable && attempt < policy.maxAttempts
+            const started = Date.now()
+            let request:Request|null = null
+            let response:Response
+
+            try {
+                request = new Request(path, args)
+                this.logRequest(request, args.body, attempt)
+                response = await exchange(request, [...this.config.middleware, ...this.middleware], this.transport ?? this.config.transport ?? defaultTransport);
+            } catch (err) {
+                if (signal.aborted || request === null || err instanceof FinalTransportError) {
+                    this.logError('failed', method, path, started, attempt, err)
+                    throw err
+                }
+                if (canRetry && (idempotent || policy.retryNonIdempotent)) {
+                    this.logError('retry', method, path, started, attempt, err)
+                    await sleep(backoffDelay(policy, attempt), signal)
+                    continue
+                }
+                this.logError('failed', method, path, started, attempt, err)
+                throw new NetworkError(`${err}`, { method: method, url: path, cause: err })
             }
 
-            if (skipParse) {
-                if (!response.body) {
-                    // this.logResponse(request, response)
-                    return [<T>{}, undefined];
+            if (!response.ok && canRetry) {
+                const delay = this.retryDelay(policy, attempt, response, idempotent)
+                if (delay !== undefined) {
+                    this.logResponse('retry', request, response, started, attempt)
+                    await response.body?.cancel()
+                    await sleep(delay, signal)
+                    continue
                 }
-                //this.logResponse(request, response)
-                return [<T><unknown>response.body, undefined]
             }
 
-            try {
-                const text = await response.text();
-                this.logResponse(request, response, text)
-                const json = JSON.parse(text)
-                
-                const res = <T>json;
-                // return [res, undefined]
-                const result = [res, undefined] as [T, TwintagError | undefined]
-                //console.log('CLIENT', 'RESULT', result[1], typeof result[1], result[1] instanceof Object, 'TRUTHY', result[1] ? 'true' : 'false')
-                return result
-            } catch (error) {
-                const err = new TwintagErrorValue()
-                err.title = 'failed to parse response'
-                err.detail = `something went wrong when parsing response; ${error}`
-                this.logError(request, response, `${err}`)
-                return [<T>{}, this.CreateTwintagError([err])];
+            return await this.handleResponse<T>(request, response, started, attempt, skipParse)
+        }
+    }
+
+    /**
+     * Decide whether a failed response is retried.
+     *
+     * @returns the delay before the next attempt or undefined when the failure is final
+     */
+    private retryDelay(policy:RetryPolicy, attempt:number, response:Response, idempotent:boolean): number|undefined {
+        if (!policy.retryOnStatus.includes(response.status)) {
+            return undefined
+        }
+        // A 429 is rejected before processing, so it is safe to send again whatever the method.
+        if (!idempotent && !policy.retryNonIdempotent && response.status !== 429) {
+            return undefined
+        }
+        if (policy.respectRetryAfter) {
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+            if (retryAfter !== undefined) {
+                return retryAfter <= policy.maxDelayMs ? retryAfter : undefined
             }
+        }
+        return backoffDelay(policy, attempt)
+    }
+
+    private async handleResponse<T>(
+        request: Request,
+        response: Response,
+        started: number,
+        attempt: number,
+        skipParse?: boolean
+    ): Promise<[T, TwintagError | undefined]> {
+        const context = this.errorContext(request, response)
+
+        if (!response.ok) {
+            // custom API error
+            const text = await this.readText(request, response, context, started, attempt)
+            this.logResponse('response', request, response, started, attempt, text)
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+            return [<T>{}, createTwintagError(this.parseErrorValues(text, response), context, retryAfter)];
+        }
+
+        if (skipParse) {
+            // The body is not read here, so it is never logged
+            this.logResponse('response', request, response, started, attempt)
+            if (!response.body) {
+                return [<T>{}, undefined];
+            }
+            return [<T><unknown>response.body, undefined]
+        }
+
+        const text = await this.readText(request, response, context, started, attempt)
+        this.logResponse('response', request, response, started, attempt, text)
+        try {
+            const json = JSON.parse(text)
+            
+            const res = <T>json;
+            return [res, undefined]
+        } catch (error) {
+            const err = new TwintagErrorValue()
+            err.status = response.status
+            err.title = 'failed to parse response'
+            err.detail = `something went wrong when parsing response; ${error}`
+            this.logError('failed', request.method, request.url, started, attempt, err.detail)
+            return [<T>{}, new ParseError(err.detail, [err], { ...context, cause: error })];
+        }
+    }
+
+    private async readText(request: Request, response: Response, context: TwintagErrorContext, started: number, attempt: number): Promise<string> {
+        try {
+            return await response.text()
         } catch (err) {
-            this.logError(request, response, `${err}`)
-            throw err
-        } 
+            this.logError('failed', request.method, request.url, started, attempt, err)
+            if (request.signal.aborted) {
+                throw err
+            }
+            throw new NetworkError(`failed to read response; ${err}`, { ...context, cause: err })
+        }
+    }
+
+    /**
+     * The API returns `{errors: [...]}`, anything else (e.g. an HTML gateway page or
+     * an S3 XML error) becomes a single error value carrying the body as detail.
+     */
+    private parseErrorValues(text: string, response: Response): TwintagErrorValue[] {
+        try {
+            const json = JSON.parse(text)
+            if (json && Array.isArray(json.errors)) {
+                return json.errors
+            }
+            if (Array.isArray(json)) {
+                return json
+            }
+        } catch (_) {
+            // not json
+        }
+        const err = new TwintagErrorValue()
+        err.status = response.status
+        err.title = response.statusText
+        err.detail = text
+        return [err]
+    }
+
+    private errorContext(request: Request, response: Response|null): TwintagErrorContext {
+        return {
+            status: response?.status,
+            method: request.method,
+            url: request.url,
+            requestId: response?.headers.get('X-Request-Id') ?? response?.headers.get('x-amz-request-id') ?? undefined,
+        }
     }
 
     public async get<T>(
         path: string,
-        args?: RequestInit,
+        args?: ClientRequestInit,
         skipAuth?: boolean // TODO: Deprecate
     ): Promise<[T, TwintagError | undefined]> {
-        if (!args) {
-            args = {}
-        }
+        args = { ...args }
         args.method = "GET"
         return await this.do<T>(path, args, false, skipAuth);
     }
@@ -218,12 +355,10 @@ export class Client {
         path: string,
         // deno-lint-ignore no-explicit-any
         body: any,
-        args?: RequestInit,
+        args?: ClientRequestInit,
         skipAuth?: boolean // TODO: Deprecate
     ): Promise<[T, TwintagError | undefined]> {
-        if (!args) {
-            args = {}
-        }
+        args = { ...args }
         args.method = "PUT"
         if (!args.body && body) {
             args.body = JSON.stringify(body)
@@ -235,12 +370,10 @@ export class Client {
         path: string,
         // deno-lint-ignore no-explicit-any
         body: any,
-        args?: RequestInit,
+        args?: ClientRequestInit,
         skipAuth?: boolean
     ): Promise<[T, TwintagError | undefined]> {
-        if (!args) {
-            args = {}
-        }
+        args = { ...args }
         args.method = "POST"
         if (!args.body && body) {
             args.body = JSON.stringify(body)
@@ -252,23 +385,13 @@ export class Client {
         path: string,
         // deno-lint-ignore no-explicit-any
         body?: any,
-        args?: RequestInit
+        args?: ClientRequestInit
     ): Promise<[T, TwintagError | undefined]> {
-        if (!args) {
-            args = {}
-        }
+        args = { ...args }
         args.method = 'delete'
         if (!args.body && body) {
             args.body = JSON.stringify(body)
         }
         return await this.do<T>(path, args, true);
     }
-
-    // deno-lint-ignore no-explicit-any
-    private CreateTwintagError(err:any) {
-        if(err && err.errors && err.errors.length > 0 ){
-            return new TwintagError(err.errors[0].detail, err.errors[0],err.errors[0].title )
-        }
-        return new TwintagError("Failed to perform the request", err, "Twintag Error")
-    }
 }
\ No newline at end of file
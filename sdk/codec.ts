@@ -0,0 +1,279 @@
+import { RequestOptions } from './abort.ts';
+import { checkTimeZone, formatDateTime, parseDateTime } from './datetime.ts';
+
+/**
+ * A codec converts the values of one attribute type between their JSON form, as sent to and
+ * received from the API, and their form in code.
+ *
+ * Records read from the API are decoded by the codec registered for the `$<attribute>Type`
+ * hint of each attribute; the last registered codec of a type decodes. Records sent to the
+ * API are encoded by the last registered codec that accepts the value, so registering a
+ * codec for a type keeps the values of the earlier codecs encodable.
+ *
+ * Example, reading numbers as decimals:
+ * ```js
+ * registerCodec({
+ *   type: 'number',
+ *   accepts: (value) => value instanceof Decimal,
+ *   encode: (value) => value.toNumber(),
+ *   decode: (value) => new Decimal(value),
+ * })
+ * ```
+ */
+// deno-lint-ignore no-explicit-any
+export interface Codec<V = any> {
+  /**
+   * Type hint of the attribute type: `dateTime`, `number`, `boolean`, `richText`, `file`
+   * or `string`.
+   */
+  type: string;
+  /** Whether a value of a record to send is encoded by this codec. */
+  accepts(value: unknown): boolean;
+  /** Convert a value in code to its JSON form. */
+  encode(value: V, context: CodecContext): unknown;
+  /** Convert a JSON value, never null, to its form in code. */
+  decode(value: unknown, context: CodecContext): V;
+}
+
+/**
+ * Settings of the call a value is converted for.
+ */
+export interface CodecContext {
+  /**
+   * Time zone of the datetimes, see {@link TwintagConfig.timeZone}.
+   */
+  timeZone: string;
+}
+
+/**
+ * Options of the methods reading or writing records, bag data or bag metadata.
+ */
+export interface DataOptions extends RequestOptions {
+  /**
+   * Time zone of the datetimes of this call, e.g. `Europe/Brussels`, see {@link TwintagConfig.timeZone}.
+   */
+  timeZone?: string;
+}
+
+/**
+ * The context of a call, with the time zone of the options or else the configuration.
+ *
+ * @internal
+ */
+export function contextOf(config: { timeZone: string }, options?: DataOptions): CodecContext {
+  return { timeZone: options?.timeZone !== undefined ? checkTimeZone(options.timeZone) : config.timeZone };
+}
+
+/**
+ * Type hints of the attribute type codes, see {@link StructuredObject.newAttribute}.
+ *
+ * @internal
+ */
+export const attributeTypeHints: { [type: number]: string } = {
+  1: 'string',
+  2: 'number',
+  3: 'dateTime',
+  4: 'richText',
+  5: 'file',
+  6: 'boolean',
+};
+
+/**
+ * Datetimes are sent as ISO 8601 with the offset of the time zone, so the instant does not
+ * depend on the time zone of the client. Datetimes without an offset are read in the time zone.
+ */
+export const dateTimeCodec: Codec<Date> = {
+  type: 'dateTime',
+  accepts: (value) => value instanceof Date,
+  encode: (value, context) => formatDateTime(value, context.timeZone),
+  decode: (value, context) => value instanceof Date ? value : typeof value === 'string' ? parseDateTime(value, context.timeZone) : new Date(value as number),
+};
+
+export const numberCodec: Codec<number> = {
+  type: 'number',
+  accepts: () => false,
+  encode: (value) => value,
+  decode: (value) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value as number,
+};
+
+export const booleanCodec: Codec<boolean> = {
+  type: 'boolean',
+  accepts: () => false,
+  encode: (value) => value,
+  decode: (value) => value === 'true' ? true : value === 'false' ? false : value as boolean,
+};
+
+export const richTextCodec: Codec<string> = {
+  type: 'richText',
+  accepts: () => false,
+  encode: (value) => value,
+  decode: (value) => value as string,
+};
+
+interface fileDescription {
+  name: string;
+  size: number;
+  fileContent?: unknown;
+}
+
+const fileDescriptionKeys = ['name', 'size', 'fileContent'];
+
+// A plain object with only the fields of a file to upload, `{name, size, fileContent}`
+function isFileDescription(value: unknown): value is fileDescription {
+  return isObject(value)
+    && Object.getPrototypeOf(value) === Object.prototype
+    && typeof (value as Record<string, unknown>).name === 'string'
+    && typeof (value as Record<string, unknown>).size === 'number'
+    && Object.keys(value).every(k => fileDescriptionKeys.includes(k));
+}
+
+/**
+ * A file is passed as a Blob or File, which is uploaded after the record is saved, or as
+ * the file information `{name, size, fileContent}` without other fields. Files are read as
+ * the stored file information.
+ */
+export const fileCodec: Codec<unknown> = {
+  type: 'file',
+  accepts: (value) => value instanceof Blob || isFileDescription(value),
+  encode: (value) => {
+    if (value instanceof Blob) {
+      return { name: (value as File).name ?? '', size: value.size };
+    }
+    const file = value as fileDescription;
+    return { name: file.name, size: file.size, fileContent: file.fileContent };
+  },
+  decode: (value) => value,
+};
+
+/**
+ * The codecs every registry starts with.
+ */
+export const defaultCodecs: Codec[] = [numberCodec, booleanCodec, richTextCodec, dateTimeCodec, fileCodec];
+
+/**
+ * A set of codecs, applied to the records of list objects, bag data and bag metadata.
+ * Translated attributes read in all languages are maps of language to value; every
+ * value of the map is converted by the codec of the attribute.
+ */
+export class CodecRegistry {
+
+  private codecs: Codec[];
+
+  constructor(codecs: Codec[] = defaultCodecs) {
+    this.codecs = [...codecs];
+  }
+
+  /**
+   * Add a codec, see {@link Codec} for the order codecs are applied in.
+   */
+  public register(codec: Codec): void {
+    this.codecs.push(codec);
+  }
+
+  /**
+   * A new registry with the codecs of this one followed by the passed codecs.
+   */
+  public extend(codecs: Codec[]): CodecRegistry {
+    return new CodecRegistry([...this.codecs, ...codecs]);
+  }
+
+  /**
+   * The codec decoding values with the type hint.
+   */
+  public forType(type: string): Codec | undefined {
+    return this.codecs.findLast(c => c.type === type);
+  }
+
+  /**
+   * The codec encoding the value, if any.
+   */
+  public forValue(value: unknown): Codec | undefined {
+    return this.codecs.findLast(c => c.accepts(value));
+  }
+
+  /**
+   * Decode a record or array of records in place, using the `$<attribute>Type` hints of the records.
+   */
+  public decode<T>(data: T, context: CodecContext = utc): T {
+    for (const record of Array.isArray(data) ? data : [data]) {
+      if (!isObject(record)) {
+        continue;
+      }
+      for (const [name, value] of Object.entries(record)) {
+        if (name.startsWith('$')) {
+          continue;
+        }
+        const type = (record as Record<string, unknown>)[`$${name}Type`];
+        const codec = typeof type === 'string' && type ? this.forType(type) : undefined;
+        if (codec) {
+          (record as Record<string, unknown>)[name] = this.decodeValue(codec, value, context);
+        }
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Encode a record or array of records. The passed records are not changed.
+   */
+  public encode<T>(data: T, context: CodecContext = utc): T {
+    if (Array.isArray(data)) {
+      return data.map(record => this.encode(record, context)) as T;
+    }
+    if (!isObject(data)) {
+      return data;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(data)) {
+      result[name] = name.startsWith('$') ? value : this.encodeValue(value, context);
+    }
+    return result as T;
+  }
+
+  private decodeValue(codec: Codec, value: unknown, context: CodecContext): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (isLanguageMap(value)) {
+      return mapValues(value, v => this.decodeValue(codec, v, context));
+    }
+    return codec.decode(value, context);
+  }
+
+  private encodeValue(value: unknown, context: CodecContext): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    const codec = this.forValue(value);
+    if (codec) {
+      return codec.encode(value, context);
+    }
+    if (isLanguageMap(value)) {
+      return mapValues(value, v => this.encodeValue(v, context));
+    }
+    return value;
+  }
+}
+
+const utc: CodecContext = { timeZone: 'UTC' };
+
+function isObject(value: unknown): value is object {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// A plain object keyed by language codes, e.g. `{ en: 'chair', fr: 'chaise' }`
+function isLanguageMap(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value) || Object.getPrototypeOf(value) !== Object.prototype) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => /^[a-z]{2,3}(-[A-Za-z0-9]+)*$/.test(k));
+}
+
+function mapValues(value: Record<string, unknown>, fn: (v: unknown) => unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    result[key] = fn(v);
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { Codec, CodecRegistry } from "./codec.ts";
+import { withFakeProject } from "./testing.ts";
+
+interface Product {
+  $qid?: string
+  sku: string
+  price?: number | Cents
+  since?: Date
+  manual?: File | { fileName: string, size: number }
+}
+
+class Cents {
+  constructor(public value: number) {}
+}
+
+const centsCodec: Codec<Cents> = {
+  type: 'number',
+  accepts: (value) => value instanceof Cents,
+  encode: (value) => value.value / 100,
+  decode: (value) => new Cents(Math.round(Number(value) * 100)),
+}
+
+describe("CodecRegistry", ()=>{
+
+  it("decodes records by their type hints" , () => {
+    const codecs = new CodecRegistry()
+    const [record] = codecs.decode([{
+      since: '2022-03-27T01:30:00.000Z', $sinceType: 'dateTime',
+      price: '10.5', $priceType: 'number',
+      onSale: 'false', $onSaleType: 'boolean',
+      label: { en: '2022-01-01T00:00:00Z', fr: null }, $labelType: 'dateTime',
+      name: 'chair',
+    }])
+    t.assertEquals(record.since, new Date(Date.UTC(2022, 2, 27, 1, 30)))
+    t.assertEquals(record.price, 10.5)
+    t.assertEquals(record.onSale, false)
+    t.assertEquals(record.label, { en: new Date(Date.UTC(2022, 0, 1)), fr: null })
+    t.assertEquals(record.name, 'chair')
+  })
+
+  it("encodes records without changing them" , () => {
+    const codecs = new CodecRegistry()
+    const since = new Date(Date.UTC(2022, 9, 30, 0, 59, 59, 250))
+    const file = new Blob(['abc'])
+    const record = { $qid: 'x', since: since, translated: { fr: since }, file: file, tags: ['a'] }
+    t.assertEquals(codecs.encode(record), {
+      $qid: 'x',
+      since: '2022-10-30T00:59:59.250Z',
+      translated: { fr: '2022-10-30T00:59:59.250Z' },
+      file: { name: '', size: 3 },
+      tags: ['a'],
+    })
+    t.assertEquals(record.since, since)
+    t.assertEquals(record.file, file)
+  })
+
+  it("takes only blobs and file descriptions for files" , () => {
+    const codecs = new CodecRegistry()
+    t.assertEquals(codecs.forValue(new File(['abc'], 'a.txt'))?.type, 'file')
+    t.assertEquals(codecs.forValue({ name: 'a.txt', size: 3 })?.type, 'file')
+    t.assertEquals(codecs.encode({ file: { name: 'a.txt', size: 3, fileContent: 'x' } }), { file: { name: 'a.txt', size: 3, fileContent: 'x' } })
+    t.assertEquals(codecs.forValue({ name: 'chair' }), undefined)
+    t.assertEquals(codecs.forValue({ name: 'chair', size: 3, color: 'red' }), undefined)
+    t.assertEquals(codecs.encode({ owner: { name: 'Ann', age: 40 } }), { owner: { name: 'Ann', age: 40 } })
+  })
+
+  it("uses the last registered codec and keeps earlier values encodable" , () => {
+    const codecs = new CodecRegistry().extend([centsCodec])
+    t.assertEquals(codecs.encode({ a: new Cents(1050), b: new Date(0) }), { a: 10.5, b: '1970-01-01T00:00:00.000Z' })
+    t.assertEquals(codecs.decode({ a: 10.5, $aType: 'number' }).a, new Cents(1050))
+    t.assertEquals(new CodecRegistry().decode({ a: 10.5, $aType: 'number' }).a, 10.5)
+  })
+
+})
+
+describe("Codecs", ()=>{
+  const fake = withFakeProject<Project<{ product: Product }>>()
+
+  beforeAll(async ()=> {
+    const product = await fake.project.newObject('Product', 'product', true, false, 'sku')
+    await product.newAttribute('price', 'number')
+    await product.newAttribute('since', 'datetime')
+    await product.newAttribute('manual', 'file')
+  })
+
+  it("round-trips datetimes through insert, update, get and match" , async () => {
+    const products = fake.project.object('product')
+    const since = new Date(Date.UTC(2022, 2, 27, 0, 30, 15, 120))
+    const inserted: Product = await products.insert({ sku: 'a', since: since })
+    t.assertEquals(inserted.since, since)
+
+    const later = new Date(since.getTime() + 3600000)
+    await products.update({ $qid: inserted.$qid, since: later })
+    t.assertEquals((await products.get(inserted.$qid!)).since, later)
+    t.assertEquals((await products.match({ sku: 'a' }))[0].since, later)
+  })
+
+  it("uploads files passed as blobs" , async () => {
+    const inserted: Product = await fake.project.object('product').insert({ sku: 'b', manual: new File(['manual'], 'manual.txt') })
+    const manual = inserted.manual as { fileName: string, size: number }
+    t.assertEquals([manual.fileName, manual.size], ['manual.txt', 6])
+  })
+
+  it("applies the codecs of the project configuration" , async () => {
+    const cents = new Project<{ product: Product }>(fake.project.apiKey, { codecs: [centsCodec] })
+    const products = cents.object('product')
+    await products.insert({ sku: 'c', price: new Cents(1999) })
+    t.assertEquals((await products.getByKey('c'))?.price, new Cents(1999))
+    t.assertEquals((await fake.project.object('product').getByKey('c'))?.price, 19.99)
+  })
+
+})
@@ -0,0 +1,391 @@
+import { DataOptions } from './codec.ts';
+import { formatDateTime, parseDateTime } from './datetime.ts';
+import type { Attribute } from './structuredObject.ts';
+
+/**
+ * Formats supported by {@link listObject.exportTo} and {@link listObject.importFrom}.
+ */
+export type DataFormat = 'csv' | 'ndjson';
+
+/**
+ * Options of the CSV and NDJSON conversion.
+ */
+export interface DataFormatOptions {
+  /**
+   * Map column names to attribute apiNames, e.g. `{ 'Product name': 'name' }`.
+   * On export only the mapped attributes are written, in the order of the mapping.
+   *
+   * Without mapping a column matches an attribute by apiName or by name. A translation
+   * attribute also matches `<parent apiName>.<language>`, e.g. `name.fr`, which is the
+   * column name used on export.
+   */
+  columns?: Record<string, string>;
+  /**
+   * CSV field delimiter, `,` by default.
+   */
+  delimiter?: string;
+  /**
+   * CSV quote character, `"` by default.
+   */
+  quote?: string;
+  /**
+   * Quote every CSV field on export instead of only the fields that need it.
+   */
+  quoteAll?: boolean;
+}
+
+/**
+ * Options of {@link listObject.exportTo}.
+ */
+export interface ExportOptions extends DataFormatOptions, DataOptions {
+  /**
+   * Language of the exported records, see {@link listObject.get}.
+   */
+  lang?: string;
+  /**
+   * Number of records decoded at a time, 500 by default, see {@link PageOptions}.
+   */
+  pageSize?: number;
+}
+
+/**
+ * Options of {@link listObject.importFrom}.
+ */
+export interface ImportOptions extends DataFormatOptions, DataOptions {
+  /**
+   * Number of records inserted per request, 500 by default.
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Result of {@link listObject.importFrom}. Rows with values that do not match the type
+ * of their attribute are not imported, the other rows are.
+ */
+export interface ImportReport {
+  imported: number;
+  rejected: { row: number; error: Error }[];
+}
+
+/**
+ * Column of an exported or imported file.
+ *
+ * @internal
+ */
+export interface Column {
+  header: string;
+  attribute: Attribute;
+}
+
+// Attribute types, see StructuredObject.newAttribute
+const numberType = 2;
+const datetimeType = 3;
+const fileType = 5;
+const booleanType = 6;
+
+function defaultHeader(attribute: Attribute, attributes: Attribute[]): string {
+  if (attribute.parent && attribute.language) {
+    const parent = attributes.find(a => a.apiName === attribute.parent || a.$qid === attribute.parent);
+    return `${parent?.apiName ?? attribute.parent}.${attribute.language}`;
+  }
+  return attribute.apiName;
+}
+
+/**
+ * The columns written on export. File attributes are left out.
+ *
+ * @internal
+ */
+export function exportColumns(attributes: Attribute[], options?: DataFormatOptions): Column[] {
+  if (options?.columns) {
+    return Object.entries(options.columns).map(([header, apiName]) => {
+      const attribute = attributes.find(a => a.apiName === apiName);
+      if (!attribute) {
+        throw new Error(`unknown attribute '${apiName}' for column '${header}'`);
+      }
+      return { header: header, attribute: attribute };
+    });
+  }
+  return attributes
+    .filter(a => a.type !== fileType)
+    .map(a => ({ header: defaultHeader(a, attributes), attribute: a }));
+}
+
+/**
+ * Match the columns of an imported file with the attributes of the object.
+ * Columns starting with `$`, like `$qid`, are ignored.
+ *
+ * @internal
+ */
+export function importColumns(headers: string[], attributes: Attribute[], options?: DataFormatOptions): (Column | undefined)[] {
+  return headers.map(header => {
+    if (header.startsWith('$')) {
+      return undefined;
+    }
+    const apiName = options?.columns?.[header];
+    const attribute = apiName !== undefined
+      ? attributes.find(a => a.apiName === apiName)
+      : attributes.find(a => a.apiName === header)
+        ?? attributes.find(a => defaultHeader(a, attributes) === header)
+        ?? attributes.find(a => a.name.toLowerCase() === header.toLowerCase());
+    if (!attribute) {
+      throw new Error(`column '${header}' does not match an attribute`);
+    }
+    if (attribute.type === fileType) {
+      throw new Error(`column '${header}' is a file attribute, files cannot be imported`);
+    }
+    return { header: header, attribute: attribute };
+  });
+}
+
+/**
+ * Convert an imported value to the type of its attribute. Empty values are undefined.
+ *
+ * @internal
+ */
+export function coerce(value: unknown, attribute: Attribute, timeZone = 'UTC'): unknown {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  switch (attribute.type) {
+    case numberType: {
+      const n = typeof value === 'number' ? value : Number(String(value).trim());
+      if (typeof value === 'boolean' || isNaN(n)) {
+        throw new Error(`invalid number '${value}' for attribute '${attribute.apiName}'`);
+      }
+      return n;
+    }
+    case booleanType: {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      const s = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(s)) {
+        return true;
+      }
+      if (['false', '0', 'no'].includes(s)) {
+        return false;
+      }
+      throw new Error(`invalid boolean '${value}' for attribute '${attribute.apiName}'`);
+    }
+    case datetimeType: {
+      const d = value instanceof Date ? value : typeof value === 'number' ? new Date(value) : parseDateTime(String(value), timeZone);
+      if (isNaN(d.getTime())) {
+        throw new Error(`invalid datetime '${value}' for attribute '${attribute.apiName}'`);
+      }
+      return formatDateTime(d, timeZone);
+    }
+    default:
+      return typeof value === 'string' ? value : String(value);
+  }
+}
+
+/**
+ * Convert an exported value to its text in a CSV field.
+ *
+ * @internal
+ */
+export function formatValue(value: unknown, timeZone = 'UTC'): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatDateTime(value, timeZone);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Format a row of CSV fields, terminated by CRLF.
+ *
+ * @internal
+ */
+export function formatCsvRow(fields: string[], options?: DataFormatOptions): string {
+  const delimiter = options?.delimiter ?? ',';
+  const quote = options?.quote ?? '"';
+  return fields.map(field => {
+    const needsQuotes = options?.quoteAll
+      || field.includes(delimiter) || field.includes(quote) || /[\r\n]/.test(field)
+      || field !== field.trim();
+    return needsQuotes ? quote + field.split(quote).join(quote + quote) + quote : field;
+  }).join(delimiter) + '\r\n';
+}
+
+/**
+ * A row that cannot be parsed. The parsers yield it in place of the row and go on with
+ * the next one, so an import can report the row and import the others.
+ *
+ * @internal
+ */
+export class RowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RowError';
+  }
+}
+
+/**
+ * Parse CSV rows from a stream, one row at a time. Quoted fields can contain delimiters,
+ * doubled quotes and line breaks. Empty lines are skipped. A quoted field that is not
+ * closed runs to the end of the stream and is yielded as a {@link RowError}.
+ *
+ * @internal
+ */
+export async function* parseCsv(stream: ReadableStream<Uint8Array>, options?: DataFormatOptions): AsyncGenerator<string[] | RowError> {
+  const delimiter = options?.delimiter ?? ',';
+  const quote = options?.quote ?? '"';
+  if (delimiter.length !== 1 || quote.length !== 1) {
+    throw new Error('delimiter and quote must be single characters');
+  }
+
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // The last character was a quote inside a quoted field: either a doubled quote or the end of the field
+  let quoteSeen = false;
+  let started = false;
+  let first = true;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    started = false;
+  };
+  const endRow = () => {
+    endField();
+    const result = row;
+    row = [];
+    return result.length === 1 && result[0] === '' ? undefined : result;
+  };
+
+  for await (let text of textChunks(stream)) {
+    if (first) {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (quoted) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (c === quote) {
+            field += quote;
+            continue;
+          }
+          quoted = false;
+        } else if (c === quote) {
+          quoteSeen = true;
+          continue;
+        } else {
+          field += c;
+          continue;
+        }
+      }
+      if (c === quote && !started) {
+        quoted = true;
+        started = true;
+      } else if (c === delimiter) {
+        endField();
+      } else if (c === '\n') {
+        const result = endRow();
+        if (result) {
+          yield result;
+        }
+      } else if (c !== '\r') {
+        field += c;
+        started = true;
+      }
+    }
+  }
+  if (quoted && !quoteSeen) {
+    yield new RowError('unterminated quoted field');
+    return;
+  }
+  const result = endRow();
+  if (result) {
+    yield result;
+  }
+}
+
+/**
+ * Parse NDJSON objects from a stream, one line at a time. Empty lines are skipped, invalid
+ * lines and lines that are not objects are yielded as a {@link RowError}.
+ *
+ * @internal
+ */
+export async function* parseNdjson(stream: ReadableStream<Uint8Array>): AsyncGenerator<Record<string, unknown> | RowError> {
+  let rest = '';
+  let line = 0;
+  const parse = (text: string) => {
+    line++;
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err) {
+      return new RowError(`invalid JSON on line ${line}: ${(err as Error).message}`);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return new RowError(`line ${line} is not an object`);
+    }
+    return value as Record<string, unknown>;
+  };
+  for await (const text of textChunks(stream)) {
+    const lines = (rest + text).split('\n');
+    rest = lines.pop()!;
+    for (const l of lines) {
+      if (l.trim() === '') {
+        line++;
+        continue;
+      }
+      yield parse(l);
+    }
+  }
+  if (rest.trim() !== '') {
+    yield parse(rest);
+  }
+}
+
+async function* textChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      yield decoder.decode(value, { stream: true });
+    }
+    const last = decoder.decode();
+    if (last) {
+      yield last;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Turn a generator of text into a byte stream. Cancelling the stream stops the generator.
+ *
+ * @internal
+ */
+export function textStream(source: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await source.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await source.return(undefined);
+    },
+  });
+}
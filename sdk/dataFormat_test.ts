@@ -0,0 +1,122 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { listObject } from "./listObject.ts";
+import { formatCsvRow, parseCsv, parseNdjson, RowError } from "./dataFormat.ts";
+import { withFakeProject } from "./testing.ts";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const row of rows) {
+    result.push(row)
+  }
+  return result
+}
+
+describe("CSV", ()=>{
+
+  it("parses quoted fields split over chunks" , async () => {
+    const rows = await collect(parseCsv(streamOf('\uFEFFa;b\r\n"x;', '1";"say ""hi""\nthere"\r\n\r\n', 'last;'), { delimiter: ';' }))
+    t.assertEquals(rows, [['a', 'b'], ['x;1', 'say "hi"\nthere'], ['last', '']])
+  })
+
+  it("reports an unterminated quoted field" , async () => {
+    const rows = await collect(parseCsv(streamOf('a\n"open\nb')))
+    t.assertEquals(rows.length, 2)
+    t.assertEquals(rows[0], ['a'])
+    t.assert(rows[1] instanceof RowError)
+  })
+
+  it("quotes fields when needed" , () => {
+    t.assertEquals(formatCsvRow(['a', 'b,c', 'say "hi"', ' x']), 'a,"b,c","say ""hi"""," x"\r\n')
+    t.assertEquals(formatCsvRow(['a', 'b'], { quoteAll: true, delimiter: '\t' }), '"a"\t"b"\r\n')
+  })
+
+})
+
+describe("NDJSON", ()=>{
+
+  it("reports invalid lines and lines that are not objects" , async () => {
+    const rows = await collect(parseNdjson(streamOf('{"a":1}\n\n{"a', '":2}\n[1]\n{oops\n"x"')))
+    t.assertEquals(rows.slice(0, 2), [{ a: 1 }, { a: 2 }])
+    t.assert(rows.slice(2).every(r => r instanceof RowError))
+    t.assertEquals((rows[2] as RowError).message, 'line 4 is not an object')
+    t.assertStringIncludes((rows[3] as RowError).message, 'invalid JSON on line 5')
+    t.assertEquals((rows[4] as RowError).message, 'line 6 is not an object')
+  })
+
+})
+
+describe("import and export", ()=>{
+  const fake = withFakeProject()
+  let products:listObject
+
+  beforeAll(async ()=> {
+    const object = await fake.project.newObject('Product', 'product', true)
+    await object.newAttribute('name')
+    await object.newAttribute('price', 'number')
+    await object.newAttribute('available', 'boolean')
+    await object.newAttribute('since', 'datetime')
+    await object.addTranslationAttribute({ fr: 'name fr' }, 'name')
+    products = fake.project.object('product')
+  })
+
+  it("imports CSV with coercion and reports invalid rows" , async () => {
+    const csv = 'Product,price,available,since,name.fr\n'
+      + 'chair,10.5,yes,2022-03-01T10:00:00Z,chaise\n'
+      + 'table,cheap,no,,\n'
+      + '"lamp, red",0,false,,lampe\n'
+    const report = await products.importFrom(streamOf(csv), 'csv', { columns: { Product: 'name', price: 'price', available: 'available', since: 'since', 'name.fr': 'nameFr' }, chunkSize: 1 })
+    t.assertEquals(report.imported, 2)
+    t.assertEquals(report.rejected.map(r => r.row), [1])
+
+    const chair = await products.getByKey<Record<string, unknown>>('chair', { keyProperty: 'name' })
+    t.assertEquals(chair?.price, 10.5)
+    t.assertEquals(chair?.available, true)
+    t.assertEquals((chair?.since as Date).toISOString(), '2022-03-01T10:00:00.000Z')
+    t.assertEquals(chair?.nameFr, 'chaise')
+  })
+
+  it("imports NDJSON" , async () => {
+    const report = await products.importFrom(streamOf('{"name":"desk","price":"7","name.fr":"bureau"}\n\n{"name":"bed","available":true}\n'), 'ndjson')
+    t.assertEquals(report, { imported: 2, rejected: [] })
+    t.assertEquals((await products.getByKey<Record<string, unknown>>('desk', { keyProperty: 'name' }))?.price, 7)
+  })
+
+  it("rejects unknown columns" , async () => {
+    await t.assertRejects(() => products.importFrom(streamOf('name,color\na,red\n'), 'csv'))
+  })
+
+  it("exports CSV and NDJSON" , async () => {
+    const csv = await new Response(products.exportTo('csv', { columns: { Product: 'name', 'name.fr': 'nameFr' } })).text()
+    t.assertEquals(csv.split('\r\n'), ['Product,name.fr', 'chair,chaise', '"lamp, red",lampe', 'desk,bureau', 'bed,', ''])
+
+    const lines = (await new Response(products.exportTo('ndjson')).text()).trim().split('\n').map(l => JSON.parse(l))
+    t.assertEquals(lines[0], { name: 'chair', price: 10.5, available: true, since: '2022-03-01T10:00:00.000Z', 'name.fr': 'chaise' })
+    t.assertEquals(lines.length, 4)
+  })
+
+  it("reports unparsable lines and goes on" , async () => {
+    const report = await products.importFrom(streamOf('{"name":"sofa"}\n{"name":\n{"name":"stool"}\n'), 'ndjson')
+    t.assertEquals(report.imported, 2)
+    t.assertEquals(report.rejected.map(r => r.row), [1])
+    t.assertStringIncludes(report.rejected[0].error.message, 'line 2')
+    t.assertEquals((await products.getByKey<Record<string, unknown>>('stool', { keyProperty: 'name' }))?.name, 'stool')
+  })
+
+  it("reports an unterminated quoted field of the last row" , async () => {
+    const report = await products.importFrom(streamOf('Product\nshelf\n"rack\n'), 'csv', { columns: { Product: 'name' } })
+    t.assertEquals(report.imported, 1)
+    t.assertEquals(report.rejected.map(r => r.row), [1])
+  })
+
+})
@@ -0,0 +1,124 @@
+/**
+ * Datetime values are exchanged with the API as ISO 8601 strings with an explicit offset,
+ * e.g. `2022-03-27T03:30:00.000+02:00`, so every string identifies a single instant.
+ * The offset is the offset of the time zone at that instant, so it follows daylight saving time.
+ *
+ * Strings without an offset, e.g. `2022-03-27 02:30:00`, are read as the wall-clock time in
+ * the time zone. A wall-clock time that occurs twice, when clocks are turned back, is the
+ * earlier instant; one that does not exist, when clocks are turned forward, is moved forward
+ * by the length of the gap.
+ */
+
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+const pattern = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+/**
+ * Check that a time zone is 'UTC' or an IANA time zone name, e.g. `Europe/Brussels`.
+ * Throws a RangeError otherwise.
+ *
+ * @internal
+ */
+export function checkTimeZone(timeZone: string): string {
+  wallClock(0, timeZone);
+  return timeZone;
+}
+
+/**
+ * Format a date with the offset of the time zone at that instant, keeping the milliseconds.
+ *
+ * @internal
+ */
+export function formatDateTime(date: Date, timeZone = 'UTC'): string {
+  const time = date.getTime();
+  if (isNaN(time)) {
+    throw new RangeError('invalid date');
+  }
+  if (timeZone.toUpperCase() === 'UTC') {
+    return date.toISOString();
+  }
+  const offset = offsetAt(time, timeZone);
+  const local = new Date(time + offset * 60000).toISOString().slice(0, -1);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${local}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Parse an ISO 8601 datetime. Strings without an offset are read in the time zone.
+ * Other strings are parsed by the Date constructor.
+ *
+ * @internal
+ */
+export function parseDateTime(text: string, timeZone = 'UTC'): Date {
+  const match = pattern.exec(text.trim());
+  if (!match) {
+    return new Date(text);
+  }
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  const wall = Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0),
+    fraction ? Number(fraction.slice(0, 3).padEnd(3, '0')) : 0,
+  );
+  if (zone) {
+    return new Date(wall - zoneOffset(zone) * 60000);
+  }
+  return new Date(instantOf(wall, timeZone));
+}
+
+// Instant of a wall-clock time, expressed as if it were UTC, in the time zone
+function instantOf(wall: number, timeZone: string): number {
+  if (timeZone.toUpperCase() === 'UTC') {
+    return wall;
+  }
+  // Offsets never change more than once within a day
+  const before = offsetAt(wall - 86400000, timeZone);
+  const after = offsetAt(wall + 86400000, timeZone);
+  const candidates = [before, after]
+    .map(offset => wall - offset * 60000)
+    .filter(instant => wallClock(instant, timeZone) === wall);
+  if (candidates.length > 0) {
+    return Math.min(...candidates);
+  }
+  // In the gap: the offset before the transition moves the time forward
+  return wall - before * 60000;
+}
+
+// Offset of the time zone in minutes at an instant
+function offsetAt(time: number, timeZone: string): number {
+  return Math.round((wallClock(time, timeZone) - time) / 60000);
+}
+
+// Wall-clock time of an instant in the time zone, expressed as if it were UTC
+function wallClock(time: number, timeZone: string): number {
+  let format = formats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formats.set(timeZone, format);
+  }
+  const ms = ((time % 1000) + 1000) % 1000;
+  const parts: { [type: string]: number } = {};
+  for (const part of format.formatToParts(time - ms)) {
+    parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) + ms;
+}
+
+function zoneOffset(zone: string): number {
+  if (zone.toUpperCase() === 'Z') {
+    return 0;
+  }
+  const digits = zone.slice(1).replace(':', '');
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return zone[0] === '-' ? -minutes : minutes;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
@@ -0,0 +1,105 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { formatDateTime, parseDateTime } from "./datetime.ts";
+import { withFakeProject } from "./testing.ts";
+
+const brussels = 'Europe/Brussels'
+
+interface Event {
+  $qid?: string
+  code: string
+  at?: Date | string
+}
+
+// Clocks go from 02:00 to 03:00 on 2022-03-27 and from 03:00 back to 02:00 on 2022-10-30
+const utc = (month: number, day: number, hour: number, minute = 0, ms = 0) => new Date(Date.UTC(2022, month - 1, day, hour, minute, 0, ms))
+
+describe("Datetimes", ()=>{
+
+  it("formats with the offset at the instant" , () => {
+    t.assertEquals(formatDateTime(utc(3, 27, 0, 59, 999), brussels), '2022-03-27T01:59:00.999+01:00')
+    t.assertEquals(formatDateTime(utc(3, 27, 1), brussels), '2022-03-27T03:00:00.000+02:00')
+    t.assertEquals(formatDateTime(utc(10, 30, 0, 30), brussels), '2022-10-30T02:30:00.000+02:00')
+    t.assertEquals(formatDateTime(utc(10, 30, 1, 30), brussels), '2022-10-30T02:30:00.000+01:00')
+    t.assertEquals(formatDateTime(utc(10, 30, 1, 30, 5)), '2022-10-30T01:30:00.005Z')
+    t.assertEquals(formatDateTime(new Date(0), 'Asia/Kolkata'), '1970-01-01T05:30:00.000+05:30')
+  })
+
+  it("keeps the instant through format and parse" , () => {
+    for (let time = utc(10, 29, 23).getTime(); time < utc(10, 30, 3).getTime(); time += 15 * 60000 + 7) {
+      const date = new Date(time)
+      t.assertEquals(parseDateTime(formatDateTime(date, brussels), 'UTC'), date)
+      t.assertEquals(parseDateTime(formatDateTime(date, brussels), brussels), date)
+    }
+  })
+
+  it("reads datetimes without offset in the time zone" , () => {
+    t.assertEquals(parseDateTime('2022-01-15 10:00:00', brussels), utc(1, 15, 9))
+    t.assertEquals(parseDateTime('2022-07-15T10:00:00.25', brussels), utc(7, 15, 8, 0, 250))
+    t.assertEquals(parseDateTime('2022-07-15', brussels), utc(7, 14, 22))
+    t.assertEquals(parseDateTime('2022-07-15 10:00:00'), utc(7, 15, 10))
+    // Repeated wall-clock time: the earlier instant
+    t.assertEquals(parseDateTime('2022-10-30 02:30:00', brussels), utc(10, 30, 0, 30))
+    // Skipped wall-clock time: moved forward by the gap
+    t.assertEquals(parseDateTime('2022-03-27 02:30:00', brussels), utc(3, 27, 1, 30))
+  })
+
+  it("rejects unknown time zones" , () => {
+    t.assertThrows(() => formatDateTime(new Date(), 'Europe/Nowhere'), RangeError)
+    t.assertThrows(() => new Project('key', { timeZone: 'Europe/Nowhere' }), RangeError)
+  })
+
+})
+
+describe("Datetime attributes", ()=>{
+  const fake = withFakeProject<Project<{ event: Event }>>({ config: { timeZone: brussels } })
+  // deno-lint-ignore no-explicit-any
+  const sent: any[] = []
+
+  beforeAll(async ()=> {
+    fake.project.use({ beforeRequest: async (req) => {
+      if (req.method === 'PUT' && req.url.includes('/data/event')) {
+        sent.push(await req.clone().json())
+      }
+    } })
+    const event = await fake.project.newObject('Event', 'event', true, false, 'code')
+    await event.newAttribute('at', 'datetime')
+  })
+
+  it("sends datetimes in the time zone of the project" , async () => {
+    const events = fake.project.object('event')
+    await events.insert({ code: 'before', at: utc(10, 30, 0, 30) })
+    const after: Event = await events.insert({ code: 'after', at: utc(10, 30, 1, 30) })
+    t.assertEquals(sent.map(r => r.at), ['2022-10-30T02:30:00.000+02:00', '2022-10-30T02:30:00.000+01:00'])
+    t.assertEquals((await events.get(after.$qid!)).at, utc(10, 30, 1, 30))
+  })
+
+  it("filters on the same instants across the transition" , async () => {
+    const events = fake.project.object('event')
+    const found = await events.match({ at: { gt: utc(10, 30, 0, 45) } })
+    t.assertEquals(found.map(e => e.code), ['after'])
+    t.assertEquals((await events.query().where('at').lt(utc(10, 30, 1)).execute()).map(e => e.code), ['before'])
+    t.assertEquals((await events.getByKey('after', { timeZone: 'UTC' }))?.at, utc(10, 30, 1, 30))
+  })
+
+  it("uses the time zone of the call" , async () => {
+    const events = fake.project.object('event')
+    await events.insert({ code: 'utc', at: utc(3, 27, 1, 30) }, { timeZone: 'UTC' })
+    t.assertEquals(sent[sent.length - 1].at, '2022-03-27T01:30:00.000Z')
+
+    // A datetime stored without offset is read in the time zone of the call
+    const inserted: Event = await events.insert({ code: 'naive', at: '2022-03-27 02:30:00' })
+    t.assertEquals((await events.get(inserted.$qid!)).at, utc(3, 27, 1, 30))
+    t.assertEquals((await events.get(inserted.$qid!, undefined, { timeZone: 'UTC' })).at, utc(3, 27, 2, 30))
+  })
+
+  it("uses the time zone of the call for every row of a batch" , async () => {
+    const events = fake.project.object('event')
+    const before: Event = (await events.getByKey('before'))!
+    const report = await events.updateMany([{ $qid: before.$qid, code: 'before', at: utc(3, 27, 1, 30) }], { timeZone: 'UTC', chunkSize: 1 })
+    t.assertEquals(report.succeeded, 1)
+    t.assertEquals(sent[sent.length - 1].at, '2022-03-27T01:30:00.000Z')
+  })
+
+})
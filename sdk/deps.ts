@@ -1,3 +1,4 @@
 export { config }  from "https://deno.land/std@0.153.0/dotenv/mod.ts";
 export { readerFromStreamReader} from "https://deno.land/std@0.153.0/streams/mod.ts";
-export { Buffer } from "https://deno.land/std@0.153.0/io/buffer.ts";
\ No newline at end of file
+export { Buffer } from "https://deno.land/std@0.153.0/io/buffer.ts";
+export { parse as parseYaml, stringify as stringifyYaml } from "https://deno.land/std@0.153.0/encoding/yaml.ts";
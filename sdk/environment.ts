@@ -1,10 +1,55 @@
-class Environment {
+import { RetryPolicy } from './retry.ts';
+import { Middleware, Transport } from './middleware.ts';
+import { Logger, JsonLinesLogger } from './logger.ts';
+import { Codec, CodecRegistry } from './codec.ts';
+import { checkTimeZone } from './datetime.ts';
+
+/**
+ * Configuration of a {@link Twintag}, {@link Project} or {@link View} and everything created from it.
+ *
+ * Fields that are not passed are copied from the default environment at the time the
+ * configuration is created. When only `host` is passed, `adminHost` and `cachingHost`
+ * are derived from it, e.g. `https://admin.<host>`.
+ *
+ * Example:
+ * ```js
+ * const staging = new Project(stagingKey, { host: 'https://staging.twintag.io' })
+ * const production = new Project(productionKey)
+ * ```
+ *
+ * `timeZone` is the time zone datetimes are sent in and datetimes without an offset are read
+ * in, 'UTC' or an IANA name such as `Europe/Brussels`. It is 'UTC' by default; the instant
+ * of a datetime is kept in every time zone.
+ */
+export interface TwintagConfig {
+    host?: string;
+    adminHost?: string;
+    cachingHost?: string;
+    useCaching?: boolean;
+    logLevel?: 'none'|'single'|'headers'|'body';
+    logger?: Logger;
+    transport?: Transport;
+    middleware?: Middleware[];
+    retryPolicy?: Partial<RetryPolicy>;
+    timeoutMs?: number;
+    codecs?: Codec[];
+    timeZone?: string;
+}
+
+export class Environment {
 
     private _host = 'https://twintag.io';
     private _adminHost = '';
     private _cachingHost = '';
     public useCaching = false;
     public _logLevel: 'none'|'single'|'headers'|'body' = 'none'
+    public logger: Logger = new JsonLinesLogger();
+    public retryPolicy: Partial<RetryPolicy> = {};
+    public timeoutMs = 0;
+    public transport?: Transport;
+    public middleware: Middleware[] = [];
+    public codecs = new CodecRegistry();
+    public timeZone = 'UTC';
 
     private autoDetect = true;
 
@@ -45,23 +90,78 @@ class Environment {
             this._host = window.location.origin;
         }
 
+        this.deriveHosts();
+
+        this.autoDetect = false;
+    }
+
+    private deriveHosts() {
         const base = new URL(this._host);
 
         const adminSub = 'admin.'
         const cachingSub = 'cache.'
         this._adminHost = `${base.protocol}//${adminSub}${base.host}`
         this._cachingHost = `${base.protocol}//${cachingSub}${base.host}`
-
-        this.autoDetect = false;
     }
 
+    public get logLevel(): 'none'|'single'|'headers'|'body' {
+        return this._logLevel
+    }
     public set logLevel(logLevel:'none'|'single'|'headers'|'body') {
         this._logLevel = logLevel
     }
+
+    /**
+     * Create a new environment from this one with the passed fields replaced.
+     */
+    public derive(config: TwintagConfig): Environment {
+        const env = new Environment();
+        if (config.host) {
+            env._host = config.host;
+            env.deriveHosts();
+        } else {
+            env._host = this.host;
+            env._adminHost = this.adminHost;
+            env._cachingHost = this.cachingHost;
+        }
+        if (config.adminHost) {
+            env._adminHost = config.adminHost;
+        }
+        if (config.cachingHost) {
+            env._cachingHost = config.cachingHost;
+        }
+        env.autoDetect = false;
+        env.useCaching = config.useCaching ?? this.useCaching;
+        env._logLevel = config.logLevel ?? this._logLevel;
+        env.logger = config.logger ?? this.logger;
+        env.retryPolicy = config.retryPolicy ?? { ...this.retryPolicy };
+        env.timeoutMs = config.timeoutMs ?? this.timeoutMs;
+        env.transport = config.transport ?? this.transport;
+        env.middleware = [...(config.middleware ?? this.middleware)];
+        env.codecs = this.codecs.extend(config.codecs ?? []);
+        env.timeZone = config.timeZone !== undefined ? checkTimeZone(config.timeZone) : this.timeZone;
+        return env;
+    }
 }
 /**
  * Default environment config.
- * 
+ *
  * @Internal
  */
 export const environment = new Environment();
+
+/**
+ * Resolve the configuration passed to a constructor. An Environment is used as is,
+ * so objects created from the same Twintag or Project share their configuration.
+ *
+ * @internal
+ */
+export function resolveConfig(config?: TwintagConfig | Environment): Environment {
+    if (config === undefined) {
+        return environment;
+    }
+    if (config instanceof Environment) {
+        return config;
+    }
+    return environment.derive(config);
+}
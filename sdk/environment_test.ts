@@ -0,0 +1,60 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Environment, environment, resolveConfig } from "./environment.ts";
+import { Twintag } from "./twintag.ts";
+import { Transport } from "./middleware.ts";
+
+describe("Environment", ()=>{
+
+  it("derives the other hosts from the host" , () => {
+    const env = environment.derive({ host: 'https://staging.twintag.test' })
+    t.assertEquals(env.adminHost, 'https://admin.staging.twintag.test')
+    t.assertEquals(env.cachingHost, 'https://cache.staging.twintag.test')
+    t.assertEquals(environment.derive({ host: 'https://staging.twintag.test', adminHost: 'https://admin.test' }).adminHost, 'https://admin.test')
+  })
+
+  it("copies the fields that are not passed" , () => {
+    const base = environment.derive({ host: 'https://base.test', timeoutMs: 500, logLevel: 'single', middleware: [{}] })
+    const env = base.derive({ timeZone: 'Europe/Brussels' })
+    t.assertEquals([env.host, env.timeoutMs, env.logLevel, env.timeZone], ['https://base.test', 500, 'single', 'Europe/Brussels'])
+    env.middleware.push({})
+    t.assertEquals(base.middleware.length, 1)
+    t.assertThrows(() => base.derive({ timeZone: 'Europe/Nowhere' }), RangeError)
+  })
+
+  it("resolves constructor configs" , () => {
+    t.assertEquals(resolveConfig(), environment)
+    const env = new Environment()
+    t.assertEquals(resolveConfig(env), env)
+    const derived = resolveConfig({ timeoutMs: 100 })
+    t.assert(derived !== environment)
+    t.assertEquals(derived.timeoutMs, 100)
+  })
+
+  it("keeps the settings of twintags apart" , async () => {
+    const host = environment.host
+    const urls: string[] = []
+    const transport: Transport = (request) => {
+      urls.push(request.url)
+      return Promise.resolve(new Response('[]'))
+    }
+    const a = new Twintag('key-a', 'view-a', 'a')
+    const b = new Twintag('key-b', 'view-b', 'b')
+    a.setHost('https://a.twintag.test')
+    a.setAdminHost('https://admin.a.twintag.test')
+    a.setTransport(transport)
+    a.setLogLevel('none')
+    b.setAdminHost('https://admin.b.twintag.test')
+    b.setTransport(transport)
+
+    t.assertEquals(environment.host, host)
+    t.assertEquals(environment.transport, undefined)
+    t.assertEquals(b.config.host, host)
+    t.assert(a.config !== b.config)
+
+    await a.project.getBags()
+    await b.project.getBags()
+    t.assertEquals(urls, ['https://admin.a.twintag.test/api/v1/twintags', 'https://admin.b.twintag.test/api/v1/twintags'])
+  })
+
+})
@@ -1,17 +1,242 @@
 export class TwintagErrorValue {
-	status = 0  
-	title = '' 
-	detail= '' 
+	status = 0
+	title = ''
+	detail= ''
 }
+
+/**
+ * Request details attached to an error.
+ */
+export interface TwintagErrorContext {
+    status?: number
+    method?: string
+    url?: string
+    requestId?: string
+    cause?: unknown
+}
+
 export class TwintagError extends Error {
     constructor(message:string, errors?: TwintagErrorValue[], name?: string, stack?: string) {
         super(message)
         this.name = name || ''
-        this.stack = stack
+        if (stack) {
+            this.stack = stack
+        }
         this.errors = errors || []
     }
     setMessage(message:string) {
         this.message = message
+    }
+    /**
+     * Attach the request details.
+     *
+     * @internal
+     */
+    setContext(context?:TwintagErrorContext): this {
+        if (context) {
+            this.status = context.status
+            this.method = context.method
+            this.url = context.url
+            this.requestId = context.requestId
+            if (context.cause !== undefined) {
+                this.cause = context.cause
+            }
+        }
+        return this
     }
 	errors : TwintagErrorValue[]
-}
\ No newline at end of file
+    /**
+     * HTTP status of the failed response, undefined when no response was received.
+     */
+    status?: number
+    method?: string
+    url?: string
+    /**
+     * Request id reported by the server, useful when contacting support.
+     */
+    requestId?: string
+}
+
+/**
+ * The requested resource does not exist (404).
+ */
+export class NotFoundError extends TwintagError {
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext) {
+        super(message, errors, 'NotFoundError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * The request is not authenticated, e.g. a missing or expired token (401).
+ */
+export class UnauthorizedError extends TwintagError {
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext) {
+        super(message, errors, 'UnauthorizedError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * The token does not have the rights for the request (403).
+ */
+export class ForbiddenError extends TwintagError {
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext) {
+        super(message, errors, 'ForbiddenError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * The request conflicts with the current state, e.g. a duplicate key (409).
+ */
+export class ConflictError extends TwintagError {
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext) {
+        super(message, errors, 'ConflictError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * A path of a bag does not exist, or one of its folders is a file.
+ */
+export class FileNotFoundError extends NotFoundError {
+    constructor(readonly path: string, message?: string) {
+        super(message || `'${path}' not found`)
+        this.name = 'FileNotFoundError'
+    }
+}
+
+/**
+ * A path of a bag already exists.
+ */
+export class FileExistsError extends ConflictError {
+    constructor(readonly path: string, message?: string) {
+        super(message || `'${path}' already exists`)
+        this.name = 'FileExistsError'
+    }
+}
+
+/**
+ * Too many requests (429), still failing after the retries of the retry policy.
+ */
+export class RateLimitedError extends TwintagError {
+    /**
+     * Delay requested by the server in its Retry-After header.
+     */
+    retryAfterMs?: number
+
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext, retryAfterMs?: number) {
+        super(message, errors, 'RateLimitedError')
+        this.setContext(context)
+        this.retryAfterMs = retryAfterMs
+    }
+}
+
+/**
+ * A value of a record that does not match the attribute schema of its object.
+ */
+export interface Violation {
+    /**
+     * Position of the record when several records are sent together.
+     */
+    index?: number
+    attribute: string
+    rule: 'unknown' | 'type' | 'date' | 'key' | 'language'
+    message: string
+}
+
+/**
+ * The server rejected the request content (400 or 422), or records did not pass the
+ * client-side validation, in which case all violations are listed.
+ */
+export class ValidationError extends TwintagError {
+    /**
+     * Violations found by the client-side validation, see {@link listObject.useValidation}.
+     */
+    violations: Violation[]
+
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext, violations?: Violation[]) {
+        super(message, errors, 'ValidationError')
+        this.setContext(context)
+        this.violations = violations || []
+    }
+}
+
+/**
+ * The request did not get a response, e.g. a DNS failure or a dropped connection.
+ */
+export class NetworkError extends TwintagError {
+    constructor(message:string, context?: TwintagErrorContext) {
+        super(message, [], 'NetworkError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * Thrown by a transport for a failure that sending the request again does not fix, e.g. a test
+ * double without a response for the request. The client passes it on as is, without retrying.
+ */
+export class FinalTransportError extends Error {
+    constructor(message:string) {
+        super(message)
+        this.name = 'FinalTransportError'
+    }
+}
+
+/**
+ * The response could not be parsed.
+ */
+export class ParseError extends TwintagError {
+    constructor(message:string, errors?: TwintagErrorValue[], context?: TwintagErrorContext) {
+        super(message, errors, 'ParseError')
+        this.setContext(context)
+    }
+}
+
+/**
+ * Create the error matching the HTTP status of a failed response.
+ *
+ * @internal
+ */
+export function createTwintagError(errors:TwintagErrorValue[], context:TwintagErrorContext, retryAfterMs?:number): TwintagError {
+    const first = errors.length > 0 ? errors[0] : undefined
+    const message = first?.detail || first?.title || `request failed with status ${context.status}`
+    switch (context.status) {
+        case 400:
+        case 422:
+            return new ValidationError(message, errors, context)
+        case 401:
+            return new UnauthorizedError(message, errors, context)
+        case 403:
+            return new ForbiddenError(message, errors, context)
+        case 404:
+            return new NotFoundError(message, errors, context)
+        case 409:
+            return new ConflictError(message, errors, context)
+        case 429:
+            return new RateLimitedError(message, errors, context, retryAfterMs)
+        default:
+            return new TwintagError(message, errors, first?.title || 'Twintag Error').setContext(context)
+    }
+}
+
+/**
+ * Raised when a request is cancelled through its AbortSignal.
+ */
+export class AbortedError extends TwintagError {
+    constructor(message = 'request aborted', cause?: unknown) {
+        super(message, [], 'AbortedError')
+        this.cause = cause
+    }
+}
+
+/**
+ * Raised when a request does not complete within its timeoutMs.
+ */
+export class TimeoutError extends AbortedError {
+    constructor(readonly timeoutMs: number, cause?: unknown) {
+        super(`request timed out after ${timeoutMs}ms`, cause)
+        this.name = 'TimeoutError'
+    }
+}
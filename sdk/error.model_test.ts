@@ -0,0 +1,50 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { createTwintagError, ConflictError, ForbiddenError, NotFoundError, RateLimitedError, TwintagError, TwintagErrorValue, UnauthorizedError, ValidationError } from "./error.model.ts";
+
+const value = (detail:string) => {
+  const v = new TwintagErrorValue()
+  v.title = 'title'
+  v.detail = detail
+  return v
+}
+
+describe("createTwintagError", ()=>{
+
+  it("maps statuses to error classes" , () => {
+    const cases: [number, unknown][] = [
+      [400, ValidationError], [422, ValidationError], [401, UnauthorizedError], [403, ForbiddenError],
+      [404, NotFoundError], [409, ConflictError], [429, RateLimitedError],
+    ]
+    for (const [status, cls] of cases) {
+      const err = createTwintagError([], { status })
+      // deno-lint-ignore no-explicit-any
+      t.assert(err instanceof (cls as any), `status ${status}`)
+      t.assert(err instanceof TwintagError)
+      t.assertEquals(err.status, status)
+    }
+  })
+
+  it("falls back to TwintagError for other statuses" , () => {
+    const err = createTwintagError([value('boom')], { status: 500 })
+    t.assertEquals(err.constructor, TwintagError)
+    t.assertEquals(err.message, 'boom')
+    t.assertEquals(err.name, 'title')
+  })
+
+  it("keeps all server errors and the request details" , () => {
+    const err = createTwintagError([value('first'), value('second')], { status: 404, method: 'GET', url: 'https://twintag.io/x', requestId: 'abc' })
+    t.assertEquals(err.errors.length, 2)
+    t.assertEquals(err.message, 'first')
+    t.assertEquals(err.method, 'GET')
+    t.assertEquals(err.url, 'https://twintag.io/x')
+    t.assertEquals(err.requestId, 'abc')
+  })
+
+  it("passes the Retry-After delay of rate limited requests" , () => {
+    const err = createTwintagError([], { status: 429 }, 2000)
+    t.assert(err instanceof RateLimitedError)
+    t.assertEquals(err.retryAfterMs, 2000)
+  })
+
+})
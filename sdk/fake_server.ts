@@ -0,0 +1,1337 @@
+import { Environment, environment } from './environment.ts';
+import { Transport } from './middleware.ts';
+
+/**
+ * Credentials of a project created on a {@link FakeTwintagServer}.
+ */
+export interface FakeProject {
+  projectId: string;
+  apiKey: string;
+  /**
+   * Owner view of an empty bag of the project, to pass as template view to {@link Twintag}.
+   */
+  templateViewQid: string;
+  subdomain: string;
+}
+
+/**
+ * A JSON object: a record, metadata or a request body.
+ */
+type fields = Record<string, unknown>;
+
+interface projectState {
+  id: string;
+  name: string;
+  apiKey: string;
+  objects: Map<string, objectState>;
+  records: Map<string, Map<string, fields>>;
+  allowedLanguages: string[];
+  defaultLanguage: string;
+}
+
+interface objectState {
+  $qid: string;
+  $schemaScope: string;
+  name: string;
+  apiName: string;
+  isList: boolean;
+  isGlobal: boolean;
+  keyProperty: string;
+  access?: unknown;
+  attributes: attributeState[];
+}
+
+interface attributeState {
+  $schemaScope: string;
+  $object: string;
+  $qid: string;
+  name: string;
+  apiName: string;
+  type: number;
+  nextProperty: string;
+  parent: string;
+  language: string;
+}
+
+interface bagState {
+  qid: string;
+  projectId?: string;
+  state: string;
+  files: Map<string, fileState>;
+  metadata: fields;
+  data: Map<string, fields>;
+}
+
+interface fileState {
+  qid: string;
+  parent: string;
+  name: string;
+  mode: number;
+  size: number;
+  mtime: string;
+  content?: Uint8Array;
+  definition?: unknown;
+  pending: boolean;
+}
+
+interface viewState {
+  id: string;
+  type: string;
+  bagQid: string;
+  rights: string[];
+  authToken: string;
+  uploadsession: string;
+}
+
+interface uploadState {
+  content?: Uint8Array;
+  complete?: (content: Uint8Array) => void;
+}
+
+interface dataFileState {
+  upload: string;
+  pending: boolean;
+}
+
+/**
+ * Message sent through a notification, feedback or subscribers endpoint, see {@link FakeTwintagServer.messages}.
+ */
+export interface FakeMessage {
+  path: string;
+  type?: string;
+  body: Record<string, unknown>;
+}
+
+type handler = (req: fakeRequest) => Promise<Response> | Response;
+
+interface fakeRequest {
+  request: Request;
+  url: URL;
+  params: string[];
+  /**
+   * The parsed JSON body, of the type the handler expects.
+   */
+  body: <T = fields>() => Promise<T | undefined>;
+}
+
+interface viewBody {
+  type?: string;
+  id?: string;
+  bagStorageQid?: string;
+  data?: { rights?: string[] };
+}
+
+interface fileBody {
+  parent?: string;
+  name?: string;
+  mode?: number;
+  size?: number;
+  fileContent?: unknown;
+}
+
+interface moveBody {
+  targetBag?: string;
+  targetFolder?: string;
+  targetName?: string;
+  isCopy?: boolean;
+}
+
+interface objectBody {
+  $qid?: string;
+  name?: string;
+  apiName?: string;
+  isList?: boolean;
+  isGlobal?: boolean;
+  keyProperty?: string;
+  access?: unknown;
+}
+
+interface propertyBody {
+  $object?: string;
+  $qid?: string;
+  name?: string;
+  apiName?: string;
+  type?: number;
+  nextProperty?: string;
+  parent?: string;
+  language?: string;
+}
+
+class FakeHttpError extends Error {
+  constructor(readonly status: number, readonly title: string, readonly detail: string) {
+    super(detail);
+  }
+}
+
+const modeFile = 420;
+const modeFolder = 493;
+
+const attributeTypes: { [type: number]: string } = {
+  1: 'string',
+  2: 'number',
+  3: 'dateTime',
+  4: 'richText',
+  5: 'file',
+  6: 'boolean',
+};
+
+/**
+ * FakeTwintagServer is an in-memory stand-in for the Twintag API, to run tests without
+ * network access or credentials.
+ *
+ * It implements the endpoints used by the SDK: views, folders, files, web downloads,
+ * move, seal, metadata, structured data, objects, properties, twintags, languages and
+ * notifications. Requests are routed by path, so every host, including the signed
+ * upload urls it hands out, ends up on the same in-memory state.
+ *
+ * Use {@link useFakeServer} to route the default environment to it, or pass
+ * `server.fetch` as transport of a {@link TwintagConfig}. Since `fetch` has the
+ * signature of an HTTP handler, it can also be served, e.g. `Deno.serve(server.fetch)`.
+ *
+ * Example:
+ * ```js
+ * const server = useFakeServer()
+ * const { apiKey, templateViewQid, subdomain } = server.createProject()
+ * const twt = new Twintag(apiKey, templateViewQid, subdomain)
+ * ...
+ * server.restore()
+ * ```
+ */
+export class FakeTwintagServer {
+  readonly host: string;
+
+  /**
+   * Notifications, feedback and emails received by the server.
+   */
+  readonly messages: FakeMessage[] = [];
+
+  private projects = new Map<string, projectState>();
+  private bags = new Map<string, bagState>();
+  private views = new Map<string, viewState>();
+  private uploads = new Map<string, uploadState>();
+  private dataFiles = new Map<string, dataFileState>();
+  private routes: [string, RegExp, handler][] = [];
+  private counter = 0;
+  private restoreEnvironment?: () => void;
+
+  constructor(host = 'https://fake.twintag.test') {
+    this.host = host;
+
+    this.route('PUT', '/views', this.putView);
+    this.route('GET', '/views/([^/]+)', this.getView);
+    this.route('DELETE', '/views/([^/]+)', this.deleteView);
+    this.route('POST', '/views/([^/]+)/notification', this.postMessage);
+    this.route('PUT', '/views/([^/]+)/feedback', this.postMessage);
+    this.route('PUT', '/views/([^/]+)/seal', this.seal);
+    this.route('GET', '/views/([^/]+)/folders(?:/([^/]+))?', this.listFolder);
+    this.route('PUT', '/views/([^/]+)/folders', this.createFolder);
+    this.route('PUT', '/views/([^/]+)/files', this.startUpload);
+    this.route('DELETE', '/views/([^/]+)/files', this.deleteFiles);
+    this.route('PUT', '/views/([^/]+)/files/([^/]+)/end', this.endUpload);
+    this.route('PUT', '/views/([^/]+)/files/([^/]+)/move', this.moveFile);
+    this.route('GET', '/views/([^/]+)/files/([^/]+)', this.downloadFile);
+    this.route('PUT', '/views/([^/]+)/virtual', this.uploadVirtual);
+    this.route('GET', '/views/([^/]+)/web/(.+)', this.downloadByName);
+    this.route('GET', '/views/([^/]+)/data/metadata', this.getMetadata);
+    this.route('PUT', '/views/([^/]+)/data/metadata', this.setMetadata);
+    this.route('PUT', '/views/([^/]+)/data/files/end', this.endDataUpload);
+    this.route('GET', '/views/([^/]+)/data/([^/]+)', this.getViewData);
+    this.route('PUT', '/views/([^/]+)/data/([^/]+)', this.putViewData);
+    this.route('DELETE', '/views/([^/]+)/data/([^/]+)', this.deleteViewRecord);
+    this.route('PUT', '/views/([^/]+)/data/([^/]+)/import', this.importViewRecords);
+    this.route('GET', '/views/([^/]+)/data/([^/]+)/([^/]+)', this.getViewRecord);
+    this.route('GET', '/views/([^/]+)/data/([^/]+)/([^/]+)/files/([^/]+)', this.getViewRecordFile);
+    this.route('GET', '/twintags', this.listTwintags);
+    this.route('DELETE', '/twintags/([^/]+)', this.deleteTwintag);
+    this.route('POST', '/subscribers/send', this.postMessage);
+    this.route('GET', '/project/allowedLanguages', this.getAllowedLanguages);
+    this.route('PUT', '/project/allowedLanguages', this.setAllowedLanguages);
+    this.route('GET', '/project/defaultLanguage', this.getDefaultLanguage);
+    this.route('PUT', '/project/defaultLanguage', this.setDefaultLanguage);
+    this.route('GET', '/object', this.getObject);
+    this.route('PUT', '/object', this.putObject);
+    this.route('DELETE', '/object', this.deleteObject);
+    this.route('GET', '/property', this.getProperty);
+    this.route('PUT', '/property', this.putProperty);
+    this.route('DELETE', '/property', this.deleteProperty);
+    this.route('GET', '/data/metadata', this.listMetadata);
+    this.route('PUT', '/data/files/end', this.endDataUpload);
+    this.route('GET', '/data/([^/]+)', this.getProjectData);
+    this.route('PUT', '/data/([^/]+)', this.putProjectData);
+    this.route('DELETE', '/data/([^/]+)', this.deleteProjectRecord);
+    this.route('PUT', '/data/([^/]+)/import', this.importProjectRecords);
+    this.route('GET', '/data/([^/]+)/([^/]+)', this.getProjectRecord);
+    this.route('GET', '/data/([^/]+)/([^/]+)/files/([^/]+)', this.getProjectRecordFile);
+    this.route('PUT', '/storage/([^/]+)', this.putStorage);
+    this.route('GET', '/storage/([^/]+)', this.getStorage);
+  }
+
+  /**
+   * Create a project with an API key and a template bag.
+   */
+  createProject(name = 'project'): FakeProject {
+    const id = this.newQid();
+    const claim = btoa(JSON.stringify({ ProjectId: id }));
+    const project: projectState = {
+      id: id,
+      name: name,
+      apiKey: `${btoa('{"alg":"none"}')}.${claim}.${this.newQid()}`,
+      objects: new Map(),
+      records: new Map(),
+      allowedLanguages: ['en'],
+      defaultLanguage: 'en',
+    };
+    this.projects.set(id, project);
+
+    const bag = this.newBag(id);
+    const view = this.newView(bag.qid, 'owner', ['owner']);
+    return { projectId: id, apiKey: project.apiKey, templateViewQid: view.id, subdomain: name };
+  }
+
+  /**
+   * Remove all projects, bags and files.
+   */
+  reset(): void {
+    this.projects.clear();
+    this.bags.clear();
+    this.views.clear();
+    this.uploads.clear();
+    this.dataFiles.clear();
+    this.messages.length = 0;
+  }
+
+  /**
+   * Route the passed environment to this server, see {@link useFakeServer}.
+   */
+  install(env: Environment = environment): this {
+    this.restore();
+    const host = env.host, adminHost = env.adminHost, cachingHost = env.cachingHost, transport = env.transport;
+    env.host = this.host;
+    env.adminHost = this.host;
+    env.cachingHost = this.host;
+    env.transport = this.fetch;
+    this.restoreEnvironment = () => {
+      env.host = host;
+      env.adminHost = adminHost;
+      env.cachingHost = cachingHost;
+      env.transport = transport;
+    };
+    return this;
+  }
+
+  /**
+   * Restore the hosts and transport of the environment passed to {@link install}.
+   */
+  restore(): void {
+    this.restoreEnvironment?.();
+    this.restoreEnvironment = undefined;
+  }
+
+  /**
+   * Handle a request. Usable as {@link Transport} and as HTTP handler.
+   */
+  readonly fetch: Transport = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    // Paths built with a duplicate slash, e.g. `/api/v1//object`, are accepted by the API
+    const path = url.pathname.replace(/\/{2,}/g, '/').replace(/^\/api\/v1(?=\/)/, '').replace(/\/$/, '');
+    const method = request.method.toUpperCase();
+
+    let allowed = false;
+    for (const [m, pattern, handle] of this.routes) {
+      const match = pattern.exec(path);
+      if (!match) {
+        continue;
+      }
+      allowed = true;
+      if (m !== method) {
+        continue;
+      }
+      let parsed: Promise<unknown> | undefined;
+      const body = <T>() => (parsed ?? (parsed = request.text().then(text => text ? JSON.parse(text) : undefined))) as Promise<T | undefined>;
+      try {
+        return await handle.call(this, {
+          request: request,
+          url: url,
+          params: match.slice(1).map(p => p === undefined ? '' : decodeURIComponent(p)),
+          body: body,
+        });
+      } catch (err) {
+        if (err instanceof FakeHttpError) {
+          return errorResponse(err.status, err.title, err.detail);
+        }
+        if (err instanceof SyntaxError) {
+          return errorResponse(400, 'Bad Request', `invalid request body; ${err.message}`);
+        }
+        return errorResponse(500, 'Internal Server Error', `${err}`);
+      }
+    }
+    if (allowed) {
+      return errorResponse(405, 'Method Not Allowed', `${method} ${path}`);
+    }
+    return errorResponse(404, 'Not Found', `no route for ${method} ${path}`);
+  };
+
+  private route(method: string, path: string, handle: handler) {
+    this.routes.push([method, new RegExp(`^${path}$`), handle]);
+  }
+
+  private newQid(): string {
+    this.counter++;
+    const random = crypto.getRandomValues(new Uint8Array(12));
+    return this.counter.toString(16).padStart(8, '0') + Array.from(random, b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private newBag(projectId?: string, qid?: string): bagState {
+    const bag: bagState = {
+      qid: qid ?? this.newQid(),
+      projectId: projectId,
+      state: '',
+      files: new Map(),
+      metadata: {},
+      data: new Map(),
+    };
+    this.bags.set(bag.qid, bag);
+    return bag;
+  }
+
+  private newView(bagQid: string, type: string, rights: string[], id?: string): viewState {
+    const view: viewState = {
+      id: id ?? this.newQid(),
+      type: type,
+      bagQid: bagQid,
+      rights: rights,
+      authToken: this.newQid(),
+      uploadsession: this.newQid(),
+    };
+    this.views.set(view.id, view);
+    return view;
+  }
+
+  private viewObject(view: viewState) {
+    const bag = this.bags.get(view.bagQid);
+    const project = bag?.projectId ? this.projects.get(bag.projectId) : undefined;
+    return {
+      id: view.id,
+      type: view.type,
+      bagQid: view.bagQid,
+      data: {
+        rights: view.rights,
+        project: project ? { projectId: project.id, projectName: project.name, companyName: '' } : undefined,
+      },
+      uploadsession: view.uploadsession,
+      state: bag?.state ?? 'deleted',
+      wsToken: '',
+      wsSeed: '',
+      authToken: view.authToken,
+    };
+  }
+
+  /*
+    Authorization
+  */
+
+  private token(req: fakeRequest): string | undefined {
+    const auth = req.request.headers.get('Authorization');
+    return auth?.startsWith('Bearer ') ? auth.slice(7) : undefined;
+  }
+
+  private projectOf(req: fakeRequest): projectState {
+    const token = this.token(req);
+    for (const project of this.projects.values()) {
+      if (project.apiKey === token) {
+        return project;
+      }
+    }
+    throw new FakeHttpError(401, 'Unauthorized', 'missing or invalid project API key');
+  }
+
+  private viewOf(req: fakeRequest): viewState {
+    const view = this.views.get(req.params[0]);
+    if (!view || !this.bags.has(view.bagQid)) {
+      throw new FakeHttpError(404, 'Not Found', `view '${req.params[0]}' not found`);
+    }
+    return view;
+  }
+
+  private bagOf(view: viewState): bagState {
+    return this.bags.get(view.bagQid)!;
+  }
+
+  private projectOfBag(bag: bagState): projectState {
+    const project = bag.projectId ? this.projects.get(bag.projectId) : undefined;
+    if (!project) {
+      throw new FakeHttpError(400, 'Bad Request', `bag '${bag.qid}' is not part of a project`);
+    }
+    return project;
+  }
+
+  /*
+    Views and bags
+  */
+
+  private async putView(req: fakeRequest) {
+    const body = await req.body<viewBody>() ?? {};
+    if (body.type === 'owner') {
+      const token = this.token(req);
+      const project = [...this.projects.values()].find(p => p.apiKey === token);
+      const bag = this.newBag(project?.id);
+      return json(this.viewObject(this.newView(bag.qid, 'owner', ['owner'])));
+    }
+    if (body.bagStorageQid) {
+      if (!this.bags.has(body.bagStorageQid)) {
+        throw new FakeHttpError(404, 'Not Found', `bag '${body.bagStorageQid}' not found`);
+      }
+      return json(this.viewObject(this.newView(body.bagStorageQid, body.type ?? 'user', body.data?.rights ?? [])));
+    }
+    if (body.id && this.views.has(body.id)) {
+      throw new FakeHttpError(409, 'Conflict', `view '${body.id}' already exists`);
+    }
+    const bag = this.newBag();
+    return json(this.viewObject(this.newView(bag.qid, body.type ?? 'user', body.data?.rights ?? [], body.id)));
+  }
+
+  private getView(req: fakeRequest) {
+    return json(this.viewObject(this.viewOf(req)));
+  }
+
+  private deleteView(req: fakeRequest) {
+    this.deleteBag(this.viewOf(req).bagQid);
+    return empty();
+  }
+
+  private deleteBag(bagQid: string) {
+    this.bags.delete(bagQid);
+    for (const [id, view] of this.views) {
+      if (view.bagQid === bagQid) {
+        this.views.delete(id);
+      }
+    }
+  }
+
+  private seal(req: fakeRequest) {
+    const view = this.viewOf(req);
+    this.bagOf(view).state = 'sealed';
+    return json(this.viewObject(view));
+  }
+
+  private listTwintags(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const bags = [];
+    for (const view of this.views.values()) {
+      const bag = this.bags.get(view.bagQid);
+      if (bag?.projectId === project.id && view.type === 'owner') {
+        bags.push({ projectId: project.id, viewId: view.id, type: view.type, path: '', StorageQid: bag.qid });
+      }
+    }
+    return json(bags);
+  }
+
+  private deleteTwintag(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const bag = this.bags.get(req.params[0]);
+    if (!bag || bag.projectId !== project.id) {
+      throw new FakeHttpError(404, 'Not Found', `twintag '${req.params[0]}' not found`);
+    }
+    this.deleteBag(bag.qid);
+    return empty();
+  }
+
+  private async postMessage(req: fakeRequest) {
+    if (req.params.length === 0) {
+      this.projectOf(req);
+    } else {
+      this.viewOf(req);
+    }
+    this.messages.push({
+      path: req.url.pathname,
+      type: req.url.searchParams.get('type') ?? undefined,
+      body: await req.body() ?? {},
+    });
+    return json({});
+  }
+
+  /*
+    Files and folders
+  */
+
+  private fileInfo(file: fileState) {
+    return {
+      FileQid: file.qid,
+      Parent: file.parent,
+      Name: file.name,
+      Size: file.size,
+      MTime: file.mtime,
+      FileMode: file.mode.toString(),
+      TemplateBagId: '',
+    };
+  }
+
+  private metafest(file: fileState) {
+    return { fileQid: file.qid, fileMode: file.mode, fileName: file.name, size: file.size, modTime: file.mtime };
+  }
+
+  private children(bag: bagState, parent: string): fileState[] {
+    return [...bag.files.values()].filter(f => f.parent === parent && !f.pending);
+  }
+
+  private findChild(bag: bagState, parent: string, name: string): fileState | undefined {
+    return this.children(bag, parent).find(f => f.name === name);
+  }
+
+  private checkParent(bag: bagState, parent: string) {
+    if (parent !== '' && bag.files.get(parent)?.mode !== modeFolder) {
+      throw new FakeHttpError(404, 'Not Found', `folder '${parent}' not found`);
+    }
+  }
+
+  private file(bag: bagState, fileQid: string): fileState {
+    const file = bag.files.get(fileQid);
+    if (!file || file.pending) {
+      throw new FakeHttpError(404, 'Not Found', `file '${fileQid}' not found`);
+    }
+    return file;
+  }
+
+  private listFolder(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const parent = req.params[1];
+    this.checkParent(bag, parent);
+    return json(this.children(bag, parent).map(f => this.fileInfo(f)));
+  }
+
+  private async createFolder(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const body = await req.body<fileBody>() ?? {};
+    const parent = body.parent ?? '';
+    this.checkParent(bag, parent);
+    if (!body.name) {
+      throw new FakeHttpError(400, 'Bad Request', 'missing folder name');
+    }
+    if (this.findChild(bag, parent, body.name)) {
+      throw new FakeHttpError(409, 'Conflict', `'${body.name}' already exists`);
+    }
+    const folder = this.addFile(bag, parent, body.name, modeFolder, 0);
+    return json(this.metafest(folder));
+  }
+
+  private addFile(bag: bagState, parent: string, name: string, mode: number, size: number, pending = false): fileState {
+    const file: fileState = {
+      qid: this.newQid(),
+      parent: parent,
+      name: name,
+      mode: mode,
+      size: size,
+      mtime: new Date().toISOString(),
+      pending: pending,
+    };
+    bag.files.set(file.qid, file);
+    return file;
+  }
+
+  private removeFile(bag: bagState, file: fileState) {
+    for (const child of [...bag.files.values()].filter(f => f.parent === file.qid)) {
+      this.removeFile(bag, child);
+    }
+    bag.files.delete(file.qid);
+  }
+
+  private newUpload(complete?: (content: Uint8Array) => void): string {
+    const id = this.newQid();
+    this.uploads.set(id, { complete: complete });
+    return id;
+  }
+
+  /**
+   * Signed url of an upload, served by this server whatever the host.
+   */
+  private storageUrl(req: fakeRequest, upload: string): string {
+    return `${req.url.origin}/storage/${upload}?X-Amz-Signature=${this.newQid()}`;
+  }
+
+  private async startUpload(req: fakeRequest) {
+    const view = this.viewOf(req);
+    const bag = this.bagOf(view);
+    if (req.url.searchParams.get('uploadsession') !== view.uploadsession && !this.token(req)) {
+      throw new FakeHttpError(401, 'Unauthorized', 'missing upload session');
+    }
+    const body = await req.body<fileBody>() ?? {};
+    const parent = body.parent ?? '';
+    this.checkParent(bag, parent);
+    const file = this.addFile(bag, parent, body.name ?? '', body.mode ?? modeFile, body.size ?? 0, true);
+    const upload = this.newUpload((content) => {
+      file.content = content;
+      file.size = content.length;
+    });
+    return json({ metafest: this.metafest(file), uploadUrl: this.storageUrl(req, upload) });
+  }
+
+  private endUpload(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const file = bag.files.get(req.params[1]);
+    if (!file) {
+      throw new FakeHttpError(404, 'Not Found', `upload '${req.params[1]}' not found`);
+    }
+    if (!file.pending) {
+      throw new FakeHttpError(409, 'Conflict', `upload '${req.params[1]}' already completed`);
+    }
+    // An upload replaces the file with the same name
+    const existing = this.findChild(bag, file.parent, file.name);
+    if (existing) {
+      this.removeFile(bag, existing);
+    }
+    file.pending = false;
+    file.mtime = new Date().toISOString();
+    return json(this.metafest(file));
+  }
+
+  private async putStorage(req: fakeRequest) {
+    const upload = this.uploads.get(req.params[0]);
+    if (!upload) {
+      throw new FakeHttpError(403, 'Forbidden', 'invalid or expired signed url');
+    }
+    upload.content = new Uint8Array(await req.request.arrayBuffer());
+    upload.complete?.(upload.content);
+    return empty();
+  }
+
+  private getStorage(req: fakeRequest) {
+    const upload = this.uploads.get(req.params[0]);
+    if (!upload?.content) {
+      throw new FakeHttpError(404, 'Not Found', 'no such key');
+    }
+    return content(upload.content);
+  }
+
+  private async uploadVirtual(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const body = await req.body<fileBody>() ?? {};
+    const name = body.name ?? '';
+    const existing = this.findChild(bag, '', name);
+    if (existing) {
+      this.removeFile(bag, existing);
+    }
+    const file = this.addFile(bag, '', name, body.mode ?? modeFile, 0);
+    file.definition = body.fileContent;
+    return json(this.metafest(file));
+  }
+
+  private downloadFile(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const file = this.file(bag, req.params[1]);
+    if (file.mode === modeFolder) {
+      throw new FakeHttpError(400, 'Bad Request', `'${file.name}' is a folder`);
+    }
+    return content(file.content ?? new Uint8Array());
+  }
+
+  private downloadByName(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    let parent = '';
+    const parts = req.params[1].split('/');
+    for (const name of parts.slice(0, -1)) {
+      const folder = this.findChild(bag, parent, name);
+      if (!folder || folder.mode !== modeFolder) {
+        throw new FakeHttpError(404, 'Not Found', `file '${req.params[1]}' not found`);
+      }
+      parent = folder.qid;
+    }
+    const file = this.findChild(bag, parent, parts[parts.length - 1]);
+    if (!file || file.mode === modeFolder) {
+      throw new FakeHttpError(404, 'Not Found', `file '${req.params[1]}' not found`);
+    }
+    return content(file.content ?? new Uint8Array());
+  }
+
+  private async deleteFiles(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const qids = await req.body<string[]>() ?? [];
+    for (const qid of qids) {
+      this.removeFile(bag, this.file(bag, qid));
+    }
+    return empty();
+  }
+
+  private async moveFile(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const source = this.file(bag, req.params[1]);
+    const body = await req.body<moveBody>() ?? {};
+
+    let target = bag;
+    if (body.targetBag) {
+      const view = this.views.get(body.targetBag);
+      if (!view || !this.bags.has(view.bagQid)) {
+        throw new FakeHttpError(404, 'Not Found', `view '${body.targetBag}' not found`);
+      }
+      target = this.bagOf(view);
+    }
+    // Without target folder a file stays in its folder, or goes to the root of another bag
+    const parent = body.targetFolder || (body.targetBag ? '' : source.parent);
+    const name = body.targetName || source.name;
+    this.checkParent(target, parent);
+
+    const existing = this.findChild(target, parent, name);
+    if (existing && existing !== source) {
+      throw new FakeHttpError(409, 'Conflict', `'${name}' already exists`);
+    }
+
+    let file = source;
+    if (body.isCopy) {
+      file = this.copyFile(bag, source, target, parent);
+    } else if (target !== bag) {
+      file = this.copyFile(bag, source, target, parent);
+      this.removeFile(bag, source);
+    }
+    file.parent = parent;
+    file.name = name;
+    file.mtime = new Date().toISOString();
+    return json(this.fileInfo(file));
+  }
+
+  private copyFile(from: bagState, source: fileState, to: bagState, parent: string): fileState {
+    const copy = this.addFile(to, parent, source.name, source.mode, source.size);
+    copy.content = source.content;
+    copy.definition = source.definition;
+    for (const child of [...from.files.values()].filter(f => f.parent === source.qid && !f.pending)) {
+      this.copyFile(from, child, to, copy.qid);
+    }
+    return copy;
+  }
+
+  /*
+    Metadata
+  */
+
+  private getMetadata(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const project = bag.projectId ? this.projects.get(bag.projectId) : undefined;
+    return json(this.withTypes(project, 'metadata', { ...bag.metadata, $qid: bag.qid }));
+  }
+
+  private async setMetadata(req: fakeRequest) {
+    const bag = this.bagOf(this.viewOf(req));
+    const project = bag.projectId ? this.projects.get(bag.projectId) : undefined;
+    bag.metadata = { ...bag.metadata, ...this.stripSystem(await req.body() ?? {}) };
+    return json(this.withTypes(project, 'metadata', { ...bag.metadata, $qid: bag.qid }));
+  }
+
+  private listMetadata(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const list = [];
+    for (const bag of this.bags.values()) {
+      if (bag.projectId === project.id) {
+        list.push(this.withTypes(project, 'metadata', { ...bag.metadata, $qid: bag.qid }));
+      }
+    }
+    return json(list);
+  }
+
+  /*
+    Objects and properties
+  */
+
+  private object(project: projectState, apiName: string | null | undefined): objectState {
+    const object = apiName ? project.objects.get(apiName) : undefined;
+    if (!object) {
+      throw new FakeHttpError(404, 'Not Found', `object '${apiName}' not found`);
+    }
+    return object;
+  }
+
+  private objectInfo(object: objectState) {
+    const { attributes: _, ...info } = object;
+    return info;
+  }
+
+  private getObject(req: fakeRequest) {
+    const project = this.projectOf(req);
+    if (!req.url.searchParams.has('object')) {
+      return json([...project.objects.values()].map(o => this.objectInfo(o)));
+    }
+    return json(this.objectInfo(this.object(project, req.url.searchParams.get('object'))));
+  }
+
+  private async putObject(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<objectBody>() ?? {};
+
+    if (body.$qid) {
+      const object = [...project.objects.values()].find(o => o.$qid === body.$qid);
+      if (!object) {
+        throw new FakeHttpError(404, 'Not Found', `object '${body.$qid}' not found`);
+      }
+      if (body.name !== undefined) {
+        object.name = body.name;
+      }
+      if (body.access !== undefined) {
+        object.access = body.access;
+      }
+      if (body.keyProperty !== undefined) {
+        if ((project.records.get(object.apiName)?.size ?? 0) > 0) {
+          throw new FakeHttpError(400, 'Bad Request', 'key property cannot be changed when the object has instances');
+        }
+        object.keyProperty = this.ensureAttribute(project, object, body.keyProperty);
+      }
+      return json(this.objectInfo(object));
+    }
+
+    if (!body.name) {
+      throw new FakeHttpError(400, 'Bad Request', 'missing object name');
+    }
+    const apiName = body.apiName || toApiName(body.name);
+    if (project.objects.has(apiName)) {
+      throw new FakeHttpError(409, 'Conflict', `object '${apiName}' already exists`);
+    }
+    const object: objectState = {
+      $qid: this.newQid(),
+      $schemaScope: project.id,
+      name: body.name,
+      apiName: apiName,
+      isList: body.isList ?? false,
+      isGlobal: body.isGlobal ?? false,
+      keyProperty: '',
+      access: body.access,
+      attributes: [],
+    };
+    project.objects.set(apiName, object);
+    if (body.keyProperty) {
+      object.keyProperty = this.ensureAttribute(project, object, body.keyProperty);
+    }
+    return json(this.objectInfo(object));
+  }
+
+  private async deleteObject(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<objectBody>() ?? {};
+    const object = this.object(project, req.url.searchParams.get('object') ?? body.apiName);
+    project.objects.delete(object.apiName);
+    project.records.delete(object.apiName);
+    return empty();
+  }
+
+  private ensureAttribute(project: projectState, object: objectState, name: string): string {
+    const found = object.attributes.find(a => a.name === name || a.apiName === name);
+    if (found) {
+      return found.apiName;
+    }
+    return this.addAttribute(project, object, { name: name, type: 1 }).apiName;
+  }
+
+  private addAttribute(project: projectState, object: objectState, body: propertyBody & { name: string }): attributeState {
+    const apiName = body.apiName || toApiName(body.name);
+    if (object.attributes.some(a => a.apiName === apiName)) {
+      throw new FakeHttpError(409, 'Conflict', `attribute '${apiName}' already exists`);
+    }
+    const attribute: attributeState = {
+      $schemaScope: project.id,
+      $object: object.apiName,
+      $qid: this.newQid(),
+      name: body.name,
+      apiName: apiName,
+      type: body.type ?? 1,
+      nextProperty: body.nextProperty ?? '',
+      parent: body.parent ?? '',
+      language: body.language ?? '',
+    };
+    const before = object.attributes.findIndex(a => a.apiName === attribute.nextProperty);
+    if (before < 0) {
+      object.attributes.push(attribute);
+    } else {
+      object.attributes.splice(before, 0, attribute);
+    }
+    return attribute;
+  }
+
+  private getProperty(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const object = this.object(project, req.url.searchParams.get('object'));
+    const name = req.url.searchParams.get('property');
+    if (!name) {
+      return json(object.attributes);
+    }
+    const attribute = object.attributes.find(a => a.apiName === name || a.name === name);
+    if (!attribute) {
+      throw new FakeHttpError(404, 'Not Found', `attribute '${name}' not found`);
+    }
+    return json(attribute);
+  }
+
+  private async putProperty(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<propertyBody>() ?? {};
+    const object = this.object(project, body.$object);
+
+    if (body.$qid) {
+      const attribute = object.attributes.find(a => a.$qid === body.$qid);
+      if (!attribute) {
+        throw new FakeHttpError(404, 'Not Found', `attribute '${body.$qid}' not found`);
+      }
+      attribute.name = body.name ?? attribute.name;
+      attribute.apiName = body.apiName ?? attribute.apiName;
+      attribute.nextProperty = body.nextProperty ?? attribute.nextProperty;
+      return json(attribute);
+    }
+    if (!body.name) {
+      throw new FakeHttpError(400, 'Bad Request', 'missing attribute name');
+    }
+    return json(this.addAttribute(project, object, { ...body, name: body.name }));
+  }
+
+  private async deleteProperty(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<propertyBody>() ?? {};
+    const object = this.object(project, body.$object);
+    const index = object.attributes.findIndex(a => a.name === body.name || a.apiName === body.name);
+    if (index < 0) {
+      throw new FakeHttpError(404, 'Not Found', `attribute '${body.name}' not found`);
+    }
+    object.attributes.splice(index, 1);
+    return empty();
+  }
+
+  /*
+    Languages
+  */
+
+  private getAllowedLanguages(req: fakeRequest) {
+    const project = this.projectOf(req);
+    return json(project.allowedLanguages.map(l => ({ name: l, apiName: l })));
+  }
+
+  private async setAllowedLanguages(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<{ allowedLanguages?: string[] }>() ?? {};
+    project.allowedLanguages = body.allowedLanguages ?? [];
+    return json(project.allowedLanguages.map(l => ({ name: l, apiName: l })));
+  }
+
+  private getDefaultLanguage(req: fakeRequest) {
+    const project = this.projectOf(req);
+    return json({ name: project.defaultLanguage, apiName: project.defaultLanguage });
+  }
+
+  private async setDefaultLanguage(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const body = await req.body<{ defaultLanguage?: string }>() ?? {};
+    const language = body.defaultLanguage;
+    if (language === undefined || !project.allowedLanguages.includes(language)) {
+      throw new FakeHttpError(400, 'Bad Request', `language '${language}' is not allowed`);
+    }
+    project.defaultLanguage = language;
+    return json({ name: project.defaultLanguage, apiName: project.defaultLanguage });
+  }
+
+  /*
+    Structured data
+  */
+
+  private stripSystem(data: fields): fields {
+    const result: fields = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!key.startsWith('$')) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Add the `$<attribute>Type` hints the SDK uses to parse special types.
+   */
+  private withTypes(project: projectState | undefined, apiName: string, record: fields): fields {
+    const object = project?.objects.get(apiName);
+    const result: fields = { ...record };
+    for (const attribute of object?.attributes ?? []) {
+      if (attribute.type !== 1 && attribute.apiName in result) {
+        result[`$${attribute.apiName}Type`] = attributeTypes[attribute.type];
+      }
+    }
+    return result;
+  }
+
+  private records(project: projectState, object: objectState): Map<string, fields> {
+    let records = project.records.get(object.apiName);
+    if (!records) {
+      records = new Map();
+      project.records.set(object.apiName, records);
+    }
+    return records;
+  }
+
+  private listRecords(project: projectState, object: objectState, scope: string | undefined, url: URL) {
+    const filters = url.searchParams.getAll('filter').map(parseFilter);
+    const list = [];
+    for (const record of this.records(project, object).values()) {
+      if (scope !== undefined && !object.isGlobal && record.$dataScope !== scope) {
+        continue;
+      }
+      if (filters.every(f => f(record))) {
+        list.push(this.withTypes(project, object.apiName, record));
+      }
+    }
+    return json(list);
+  }
+
+  private getRecord(project: projectState, object: objectState, scope: string | undefined, qid: string) {
+    const record = this.records(project, object).get(qid);
+    if (!record || (scope !== undefined && !object.isGlobal && record.$dataScope !== scope)) {
+      throw new FakeHttpError(404, 'Not Found', `record '${qid}' not found`);
+    }
+    return record;
+  }
+
+  private writeRecord(req: fakeRequest, project: projectState, object: objectState, scope: string, data: fields) {
+    const records = this.records(project, object);
+    const uploads: Record<string, fields> = {};
+    const values: fields = {};
+    for (const [key, value] of Object.entries(this.stripSystem(data))) {
+      const attribute = object.attributes.find(a => a.apiName === key);
+      if (attribute?.type === 5 && isFields(value)) {
+        uploads[key] = value;
+      } else {
+        values[key] = value;
+      }
+    }
+
+    let record = data.$qid ? records.get(String(data.$qid)) : undefined;
+    if (data.$qid && !record) {
+      throw new FakeHttpError(404, 'Not Found', `record '${data.$qid}' not found`);
+    }
+    if (!record && object.keyProperty) {
+      const key = values[object.keyProperty];
+      if (key === undefined || key === null || key === '') {
+        throw new FakeHttpError(400, 'Bad Request', `missing key attribute '${object.keyProperty}'`);
+      }
+      for (const other of records.values()) {
+        if (other[object.keyProperty] === key && (object.isGlobal || other.$dataScope === scope)) {
+          throw new FakeHttpError(409, 'Conflict', `a record with ${object.keyProperty} '${key}' already exists`);
+        }
+      }
+    }
+    if (!record) {
+      const qid = this.newQid();
+      record = { $qid: qid, $dataScope: scope, $schemaScope: project.id };
+      records.set(qid, record);
+    }
+    Object.assign(record, values);
+
+    const response = this.withTypes(project, object.apiName, record);
+    for (const [key, value] of Object.entries(uploads)) {
+      const file = { fileQid: this.newQid(), fileMode: modeFile, fileName: value.name, size: value.size ?? 0, modTime: new Date().toISOString() };
+      const upload = this.newUpload();
+      this.dataFiles.set(file.fileQid, { upload: upload, pending: true });
+      record[key] = file;
+      response[key] = { uploadUrl: this.storageUrl(req, upload), metafest: file };
+    }
+    return response;
+  }
+
+  private async endDataUpload(req: fakeRequest) {
+    if (req.params.length > 0) {
+      this.viewOf(req);
+    } else {
+      this.projectOf(req);
+    }
+    const body = await req.body<{ fileQid?: string }>() ?? {};
+    const file = this.dataFiles.get(body.fileQid ?? '');
+    if (!file || !this.uploads.get(file.upload)?.content) {
+      throw new FakeHttpError(404, 'Not Found', `upload '${body.fileQid}' not found`);
+    }
+    file.pending = false;
+    return json({});
+  }
+
+  private recordFile(req: fakeRequest, record: fields, fileQid: string) {
+    const file = this.dataFiles.get(fileQid);
+    const value = Object.values(record).find((v): v is fields => isFields(v) && v.fileQid === fileQid);
+    if (!file || file.pending || !value) {
+      throw new FakeHttpError(404, 'Not Found', `file '${fileQid}' not found`);
+    }
+    return json({ ...value, fileURL: this.storageUrl(req, file.upload) });
+  }
+
+  private async importRecords(req: fakeRequest, project: projectState, object: objectState, scope: string) {
+    const body = await req.body<unknown>();
+    if (!Array.isArray(body) || !body.every(isFields)) {
+      throw new FakeHttpError(400, 'Bad Request', 'expected an array of records');
+    }
+    return json(body.map(data => this.writeRecord(req, project, object, scope, data)));
+  }
+
+  private viewScope(req: fakeRequest): [projectState, bagState] {
+    const bag = this.bagOf(this.viewOf(req));
+    return [this.projectOfBag(bag), bag];
+  }
+
+  private getViewData(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    const object = this.object(project, req.params[1]);
+    if (object.isList) {
+      return this.listRecords(project, object, bag.qid, req.url);
+    }
+    const data = this.withTypes(project, object.apiName, bag.data.get(object.apiName) ?? {});
+    const property = req.url.searchParams.get('property');
+    return json(property ? data[property] ?? null : data);
+  }
+
+  private async putViewData(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    const object = this.object(project, req.params[1]);
+    const body = await req.body() ?? {};
+    if (object.isList) {
+      return json(this.writeRecord(req, project, object, bag.qid, body));
+    }
+    const data = { ...bag.data.get(object.apiName), ...this.stripSystem(body) };
+    bag.data.set(object.apiName, data);
+    return json(this.withTypes(project, object.apiName, data));
+  }
+
+  private async deleteViewRecord(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    const object = this.object(project, req.params[1]);
+    const { id = '' } = await req.body<{ id?: string }>() ?? {};
+    this.getRecord(project, object, bag.qid, id);
+    this.records(project, object).delete(id);
+    return empty();
+  }
+
+  private importViewRecords(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    return this.importRecords(req, project, this.object(project, req.params[1]), bag.qid);
+  }
+
+  private getViewRecord(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    const object = this.object(project, req.params[1]);
+    return json(this.withTypes(project, object.apiName, this.getRecord(project, object, bag.qid, req.params[2])));
+  }
+
+  private getViewRecordFile(req: fakeRequest) {
+    const [project, bag] = this.viewScope(req);
+    const object = this.object(project, req.params[1]);
+    return this.recordFile(req, this.getRecord(project, object, bag.qid, req.params[2]), req.params[3]);
+  }
+
+  private getProjectData(req: fakeRequest) {
+    const project = this.projectOf(req);
+    return this.listRecords(project, this.object(project, req.params[0]), undefined, req.url);
+  }
+
+  private async putProjectData(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const object = this.object(project, req.params[0]);
+    const body = await req.body() ?? {};
+    return json(this.writeRecord(req, project, object, String(body.$dataScope ?? ''), body));
+  }
+
+  private async deleteProjectRecord(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const object = this.object(project, req.params[0]);
+    const { id = '' } = await req.body<{ id?: string }>() ?? {};
+    this.getRecord(project, object, undefined, id);
+    this.records(project, object).delete(id);
+    return empty();
+  }
+
+  private importProjectRecords(req: fakeRequest) {
+    const project = this.projectOf(req);
+    return this.importRecords(req, project, this.object(project, req.params[0]), '');
+  }
+
+  private getProjectRecord(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const object = this.object(project, req.params[0]);
+    return json(this.withTypes(project, object.apiName, this.getRecord(project, object, undefined, req.params[1])));
+  }
+
+  private getProjectRecordFile(req: fakeRequest) {
+    const project = this.projectOf(req);
+    const object = this.object(project, req.params[0]);
+    return this.recordFile(req, this.getRecord(project, object, undefined, req.params[1]), req.params[2]);
+  }
+}
+
+/**
+ * Route the default environment, or the passed one, to a fake server.
+ * Call `restore()` on the returned server to route it back.
+ *
+ * Example:
+ * ```js
+ * let server
+ * beforeAll(() => { server = useFakeServer() })
+ * afterAll(() => { server.restore() })
+ * ```
+ */
+export function useFakeServer(server = new FakeTwintagServer(), env: Environment = environment): FakeTwintagServer {
+  return server.install(env);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status: status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function empty(): Response {
+  return new Response(null, { status: 200 });
+}
+
+function content(bytes: Uint8Array): Response {
+  return new Response(bytes.slice(), { status: 200, headers: { 'Content-Type': 'application/octet-stream' } });
+}
+
+function errorResponse(status: number, title: string, detail: string): Response {
+  return json({ errors: [{ status: status, title: title, detail: detail }] }, status);
+}
+
+/**
+ * Derive an apiName the way the API does, e.g. 'Product name' becomes 'productName'.
+ */
+function toApiName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(w => w.length > 0);
+  return words.map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+function isFields(value: unknown): value is fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a `filter` query parameter, e.g. `price>=10`.
+ */
+function parseFilter(filter: string): (record: fields) => boolean {
+  const match = /^([^<>=!]+)(>=|<=|!=|=|>|<)(.*)$/.exec(filter);
+  if (!match) {
+    throw new FakeHttpError(400, 'Bad Request', `invalid filter '${filter}'`);
+  }
+  const [, attribute, op, expected] = match;
+  return (record: fields) => {
+    const value = record[attribute];
+    if (value === undefined || value === null) {
+      return false;
+    }
+    const cmp = compare(value, expected);
+    switch (op) {
+      case '=': return cmp === 0;
+      case '!=': return cmp !== 0;
+      case '>': return cmp > 0;
+      case '<': return cmp < 0;
+      case '>=': return cmp >= 0;
+      default: return cmp <= 0;
+    }
+  };
+}
+
+const isoDateTime = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+function compare(value: unknown, expected: string): number {
+  if (typeof value === 'number') {
+    return value - Number(expected);
+  }
+  if (typeof value === 'boolean') {
+    return value === (expected === 'true') ? 0 : 1;
+  }
+  const text = String(value);
+  // Datetimes are compared as instants, whatever their offsets
+  if (isoDateTime.test(text) && isoDateTime.test(expected)) {
+    return Date.parse(text) - Date.parse(expected);
+  }
+  return text < expected ? -1 : text > expected ? 1 : 0;
+}
@@ -0,0 +1,67 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { View } from "./view.ts";
+import { withFakeProject } from "./testing.ts";
+import { NotFoundError, ConflictError, UnauthorizedError } from "./error.model.ts";
+
+describe("FakeTwintagServer", ()=>{
+  const fake = withFakeProject()
+  let bag:View
+
+  beforeAll(async ()=> {
+    bag = await fake.project.createBag()
+  })
+
+  it("creates objects and attributes" , async () => {
+    const object = await fake.project.newObject('Product', 'product', true, false, 'code')
+    t.assertEquals(object.keyProperty, 'code')
+    await object.newAttribute('Price', 'number')
+    const attributes = await object.getAttributes()
+    t.assertEquals(attributes.map(a => a.apiName), ['code', 'price'])
+  })
+
+  it("inserts, matches and deletes records" , async () => {
+    const products = fake.project.object('product')
+    const cheap = await products.insert<{$qid?:string, code:string, price:number}>({ code: 'a', price: 5 })
+    await products.insert({ code: 'b', price: 15 })
+
+    const found = await products.match<{code:string}[]>({ price: { lt: 10 } })
+    t.assertEquals(found.map(p => p.code), ['a'])
+
+    await products.delete(cheap.$qid!)
+    t.assertEquals(await products.get2(cheap.$qid!), null)
+  })
+
+  it("rejects duplicate keys" , async () => {
+    await t.assertRejects(() => fake.project.object('product').insert({ code: 'b', price: 1 }), ConflictError)
+  })
+
+  it("scopes view records to their bag" , async () => {
+    const products = await bag.object('product')
+    await products.insert({ code: 'c', price: 1 })
+    const inBag = await products.match<unknown[]>({})
+    const inProject = await fake.project.object('product').match<unknown[]>({})
+    t.assertEquals(inBag.length, 1)
+    t.assertEquals(inProject.length, 2)
+  })
+
+  it("stores bag metadata" , async () => {
+    await bag.setMetadata({ title: 'hello' })
+    const metadata = await bag.getMetadata<{title:string}>()
+    t.assertEquals(metadata.title, 'hello')
+  })
+
+  it("reports unknown resources and keys" , async () => {
+    await t.assertRejects(() => fake.project.getObject('unknown'), NotFoundError)
+    await t.assertRejects(() => new Project('invalid').getBags(), UnauthorizedError)
+  })
+
+  it("receives notifications" , async () => {
+    await bag.notify('hello')
+    t.assertEquals(fake.server.messages.length, 1)
+    t.assertEquals(fake.server.messages[0].type, 'email')
+    t.assertEquals(fake.server.messages[0].body.message, 'hello')
+  })
+
+})
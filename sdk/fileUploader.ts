@@ -1,5 +1,6 @@
 import { Client } from './client.ts';
-import { environment } from './environment.ts';
+import { RequestOptions } from './abort.ts';
+import { UploadOptions, sendFile } from './upload.ts';
 
 export class FileUploader {
   signedUrl: string;
@@ -39,40 +40,37 @@ export class FileUploader {
    * Upload uploads the file provided file to the resppective structured data column
    *
    * @param file, file to be uploaded
+   * @param options, optional signal, timeout and progress callback for the upload
    *
    */
-  public async Upload(file: File): Promise<void> {
-    await this.uploadFile(file);
+  public async Upload(file: Blob, options?: UploadOptions): Promise<void> {
+    await this.uploadFile(file, options);
   }
 
   /**
    * Private method to upload file.
    *
    * @param file type properties
+   * @param options
    *
    * @internal
    */
-  private async uploadFile(file: File) {
-    await this.uploadToS3(this.signedUrl, file);
-    await this.endUpload(this.instanceQid, this.fileQid);
+  private async uploadFile(file: Blob, options?: UploadOptions) {
+    await this.uploadToS3(this.signedUrl, file, options);
+    await this.endUpload(this.instanceQid, this.fileQid, options);
   }
 
   /**
-   * Private method to upload file to s3.
+   * Private method to upload file to s3. The file is streamed, not read into memory.
    *
    * @param uploadUrl presigned s3 upload url
    * @param file file object to upload
+   * @param options
    *
    * @internal
    */
-  private async uploadToS3<T>(uploadUrl: string, file: File) {
-    const body = await file.arrayBuffer();
-    return this._client.do<T>(
-      uploadUrl,
-      { method: 'put', body: body },
-      true,
-      true
-    );
+  private async uploadToS3(uploadUrl: string, file: Blob, options?: UploadOptions) {
+    await sendFile(this._client, uploadUrl, file, file.size, options);
   }
 
   /**
@@ -80,10 +78,11 @@ export class FileUploader {
    *
    * @param fileContext instance qid
    * @param fileQid file qid
+   * @param options
    *
    * @internal
    */
-  private async endUpload(fileContext: string, fileQid: string) {
+  private async endUpload(fileContext: string, fileQid: string, options?: RequestOptions) {
     let url = this.fileUrl();
     url += '/end';
 
@@ -92,14 +91,14 @@ export class FileUploader {
       fileContext: fileContext,
     };
 
-    await this._client.put(url, body);
+    await this._client.put(url, body, { idempotent: false, ...options });
   }
 
   private fileUrl(): string {
     if (this.viewId != '') {
-      return environment.host + '/api/v1/views/' + this.viewId + '/data/files';
+      return this._client.config.host + '/api/v1/views/' + this.viewId + '/data/files';
     } else {
-      return environment.adminHost + '/api/v1/data/files';
+      return this._client.config.adminHost + '/api/v1/data/files';
     }
   }
 }
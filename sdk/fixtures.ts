@@ -0,0 +1,283 @@
+import { Environment, environment } from './environment.ts';
+import { Transport } from './middleware.ts';
+import { redactUrl, redactHeaders } from './logger.ts';
+import { FinalTransportError } from './error.model.ts';
+
+/**
+ * A recorded request and its response. Bodies are stored as text, or as
+ * base64 when they are binary.
+ */
+export interface Fixture {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    encoding?: 'base64';
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: string;
+    encoding?: 'base64';
+  };
+}
+
+interface fixtureFile {
+  version: number;
+  fixtures: Fixture[];
+}
+
+/**
+ * Raised by the replay transport when no recorded fixture matches a request.
+ * A replay miss is a fault of the test, not of the network, so it is not retried.
+ */
+export class FixtureNotFoundError extends FinalTransportError {
+  constructor(readonly method: string, readonly url: string) {
+    super(`no fixture recorded for ${method} ${url}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+const redacted = 'REDACTED';
+
+// Fields of JSON bodies holding credentials
+const sensitiveFields = ['authToken', 'wsToken', 'wsSeed', 'uploadsession', 'apiKey', 'token'];
+
+// Headers that differ between runs or carry credentials
+const ignoredHeaders = ['authorization', 'cookie', 'set-cookie', 'date', 'content-length', 'x-client-version'];
+
+/**
+ * FixtureRecorder is a transport that passes requests on to the real transport and
+ * records every request and response, with tokens and signed urls scrubbed.
+ *
+ * Example:
+ * ```js
+ * const recorder = new FixtureRecorder().install()
+ * await project.getBags()
+ * await recorder.save('./fixtures/bags.json')
+ * recorder.restore()
+ * ```
+ */
+export class FixtureRecorder {
+  readonly fixtures: Fixture[] = [];
+  private restoreEnvironment?: () => void;
+
+  constructor(private next: Transport = (request) => fetch(request)) {}
+
+  readonly transport: Transport = async (request: Request): Promise<Response> => {
+    const requestBody = request.body ? new Uint8Array(await request.clone().arrayBuffer()) : undefined;
+    const response = await this.next(request);
+    const responseBody = response.body ? new Uint8Array(await response.clone().arrayBuffer()) : undefined;
+
+    this.fixtures.push({
+      request: {
+        method: request.method,
+        url: redactUrl(request.url),
+        headers: scrubHeaders(request.headers),
+        ...encodeBody(requestBody),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: scrubHeaders(response.headers),
+        ...encodeBody(responseBody),
+      },
+    });
+    return response;
+  };
+
+  /**
+   * Write the recorded fixtures to a JSON file.
+   */
+  async save(path: string): Promise<void> {
+    const file: fixtureFile = { version: 1, fixtures: this.fixtures };
+    await Deno.writeTextFile(path, JSON.stringify(file, null, 2) + '\n');
+  }
+
+  /**
+   * Record the requests of the passed environment, by default the global one.
+   * The current transport of the environment is used to send them.
+   */
+  install(env: Environment = environment): this {
+    this.restore();
+    const transport = env.transport;
+    if (transport) {
+      this.next = transport;
+    }
+    env.transport = this.transport;
+    this.restoreEnvironment = () => { env.transport = transport; };
+    return this;
+  }
+
+  /**
+   * Restore the transport of the environment passed to {@link install}.
+   */
+  restore(): void {
+    this.restoreEnvironment?.();
+    this.restoreEnvironment = undefined;
+  }
+}
+
+/**
+ * FixtureReplayer is a transport that serves recorded fixtures instead of sending
+ * requests. A request matches the first unused fixture with the same method, url and
+ * body, so repeated requests are served their responses in recorded order.
+ * A request without fixture fails with a {@link FixtureNotFoundError}, which is not retried.
+ *
+ * Example:
+ * ```js
+ * const replayer = (await FixtureReplayer.load('./fixtures/bags.json')).install()
+ * const bags = await project.getBags()
+ * replayer.assertDone()
+ * replayer.restore()
+ * ```
+ */
+export class FixtureReplayer {
+  /**
+   * Requests for which no fixture was found, as `<method> <url>`.
+   */
+  readonly unmatched: string[] = [];
+  private used: boolean[];
+  private restoreEnvironment?: () => void;
+
+  /**
+   * @param matchBody set to false to match requests by method and url only,
+   * e.g. when bodies contain timestamps.
+   */
+  constructor(readonly fixtures: Fixture[], private matchBody = true) {
+    this.used = fixtures.map(() => false);
+  }
+
+  /**
+   * Read fixtures written by {@link FixtureRecorder.save}.
+   */
+  static async load(path: string, matchBody = true): Promise<FixtureReplayer> {
+    const file: fixtureFile = JSON.parse(await Deno.readTextFile(path));
+    return new FixtureReplayer(file.fixtures, matchBody);
+  }
+
+  readonly transport: Transport = async (request: Request): Promise<Response> => {
+    const url = redactUrl(request.url);
+    const body = encodeBody(request.body ? new Uint8Array(await request.arrayBuffer()) : undefined);
+
+    const index = this.fixtures.findIndex((fixture, i) =>
+      !this.used[i]
+      && fixture.request.method === request.method
+      && fixture.request.url === url
+      && (!this.matchBody || (fixture.request.body === body.body && fixture.request.encoding === body.encoding))
+    );
+    if (index < 0) {
+      this.unmatched.push(`${request.method} ${url}`);
+      throw new FixtureNotFoundError(request.method, url);
+    }
+    this.used[index] = true;
+
+    const recorded = this.fixtures[index].response;
+    const nullBody = [101, 204, 205, 304].includes(recorded.status);
+    return new Response(nullBody ? null : decodeBody(recorded.body, recorded.encoding), {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  };
+
+  /**
+   * Fixtures that were not requested.
+   */
+  get remaining(): Fixture[] {
+    return this.fixtures.filter((_, i) => !this.used[i]);
+  }
+
+  /**
+   * Throw when a request was not matched or a fixture was not used.
+   */
+  assertDone(): void {
+    if (this.unmatched.length > 0) {
+      throw new Error(`requests without fixture: ${this.unmatched.join(', ')}`);
+    }
+    const remaining = this.remaining;
+    if (remaining.length > 0) {
+      throw new Error(`fixtures not requested: ${remaining.map(f => `${f.request.method} ${f.request.url}`).join(', ')}`);
+    }
+  }
+
+  /**
+   * Serve the requests of the passed environment, by default the global one.
+   */
+  install(env: Environment = environment): this {
+    this.restore();
+    const transport = env.transport;
+    env.transport = this.transport;
+    this.restoreEnvironment = () => { env.transport = transport; };
+    return this;
+  }
+
+  /**
+   * Restore the transport of the environment passed to {@link install}.
+   */
+  restore(): void {
+    this.restoreEnvironment?.();
+    this.restoreEnvironment = undefined;
+  }
+}
+
+function scrubHeaders(headers: Headers): Record<string, string> {
+  const result = redactHeaders(headers);
+  for (const name of ignoredHeaders) {
+    delete result[name];
+  }
+  return result;
+}
+
+/**
+ * Replace credentials in a JSON value and redact the urls it contains.
+ */
+function scrubJson(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(scrubJson);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] = sensitiveFields.includes(key) && typeof field === 'string' ? redacted : scrubJson(field);
+    }
+    return result;
+  }
+  if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+    return redactUrl(value);
+  }
+  return value;
+}
+
+function encodeBody(bytes?: Uint8Array): { body?: string; encoding?: 'base64' } {
+  if (!bytes || bytes.length === 0) {
+    return {};
+  }
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (_) {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { body: btoa(binary), encoding: 'base64' };
+  }
+  try {
+    return { body: JSON.stringify(scrubJson(JSON.parse(text))) };
+  } catch (_) {
+    return { body: text };
+  }
+}
+
+function decodeBody(body?: string, encoding?: 'base64'): Uint8Array<ArrayBuffer> | string | null {
+  if (body === undefined) {
+    return null;
+  }
+  if (encoding === 'base64') {
+    return Uint8Array.from(atob(body), c => c.charCodeAt(0));
+  }
+  return body;
+}
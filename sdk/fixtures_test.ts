@@ -0,0 +1,54 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { FixtureNotFoundError, FixtureRecorder, FixtureReplayer } from "./fixtures.ts";
+import { FakeTwintagServer } from "./fake_server.ts";
+import { Project } from "./project.ts";
+
+describe("Fixtures", ()=>{
+  const server = new FakeTwintagServer()
+  const { apiKey } = server.createProject()
+  const recorder = new FixtureRecorder(server.fetch)
+  let path = ''
+
+  // Runs the same calls while recording and while replaying
+  const scenario = async (project: Project) => {
+    const bag = await project.createBag()
+    const file = await bag.upload(new File(['hello'], 'hello.txt'))
+    await project.newObject('Product', 'product', true)
+    await project.object('product').insert({ name: 'a' })
+    const products = await project.object('product').match<{name:string}[]>({ name: 'a' })
+    const bags = await project.getBags()
+    return { file: file.Name, products: products.map(p => p.name), bags: bags.length }
+  }
+
+  it("records requests with credentials scrubbed" , async () => {
+    const recorded = await scenario(new Project(apiKey, { transport: recorder.transport }))
+    t.assertEquals(recorded, { file: 'hello.txt', products: ['a'], bags: 2 })
+
+    const text = JSON.stringify(recorder.fixtures)
+    t.assertEquals(text.includes(apiKey), false)
+    t.assertEquals(text.includes('"authorization"'), false)
+    t.assertStringIncludes(text, 'X-Amz-Signature=REDACTED')
+
+    path = await Deno.makeTempFile({ suffix: '.json' })
+    await recorder.save(path)
+  })
+
+  it("replays recorded requests" , async () => {
+    const replayer = await FixtureReplayer.load(path)
+    await Deno.remove(path)
+
+    const replayed = await scenario(new Project('other-key', { transport: replayer.transport }))
+    t.assertEquals(replayed, { file: 'hello.txt', products: ['a'], bags: 2 })
+    replayer.assertDone()
+  })
+
+  it("fails on requests without fixture" , async () => {
+    const replayer = new FixtureReplayer(recorder.fixtures)
+    const project = new Project(apiKey, { transport: replayer.transport })
+    await t.assertRejects(() => project.getObject('unknown'), FixtureNotFoundError)
+    t.assertEquals(replayer.unmatched.length, 1)
+    t.assertThrows(() => replayer.assertDone())
+  })
+
+})
@@ -3,6 +3,11 @@ import { View } from "./view.ts";
 import { FileInfo as TwintagFileInfo } from "./files.ts";
 import { readerFromStreamReader, Buffer } from "./deps.ts";
 import { iterateReader } from "https://deno.land/std@0.153.0/streams/conversion.ts";
+import { RequestOptions } from "./abort.ts";
+import { StreamUploadOptions, UploadOptions } from "./upload.ts";
+import { AbortedError, ConflictError, FileExistsError, FileNotFoundError } from "./error.model.ts";
+import { basename, dirname, joinPath, normalizePath, pathSegments } from "./path.ts";
+import { globToRegExp, isGlob } from "./glob.ts";
 
 type TwintagFolderInfo = {
   fileQid: string;
@@ -11,7 +16,7 @@ type TwintagFolderInfo = {
   modTime: Date;
 }
 
-class FileInfo {
+export class FileInfo {
   #FileQid: string
   #Parent: string|undefined
   #FileMode: string
@@ -55,6 +60,51 @@ class FileInfo {
   }
 }
 
+export interface ReaddirOptions extends RequestOptions {
+  /** Return the file information of the items instead of their names */
+  withFileTypes?: boolean
+}
+
+export interface RemoveOptions extends RequestOptions {
+  /** Remove folders with their content */
+  recursive?: boolean
+  /** Ignore paths that do not exist */
+  force?: boolean
+}
+
+export interface CopyOptions extends RequestOptions {
+  /** Replace an existing file at the target path */
+  overwrite?: boolean
+}
+
+export interface WalkEntry {
+  /** Path of the item, absolute when the path of the folder is known and relative to the folder otherwise */
+  path: string
+  /** Depth below the walked folder, 1 for its own items */
+  depth: number
+  info: FileInfo
+}
+
+export interface WalkOptions extends RequestOptions {
+  /** Depth to descend to, 1 for the items of the folder only. Unlimited by default */
+  maxDepth?: number
+  /** Yield folders as well as files, true by default */
+  includeDirs?: boolean
+  /** Yield only the entries passing the filter. The walk still descends into rejected folders */
+  filter?: (entry: WalkEntry) => boolean
+  /** Number of folders listed at the same time, 4 by default */
+  concurrency?: number
+}
+
+export interface GlobOptions extends RequestOptions {
+  /** Yield matching folders as well as files, true by default */
+  includeDirs?: boolean
+  /** Number of folders listed at the same time, 4 by default */
+  concurrency?: number
+}
+
+const folderMode = '493'
+
 const convert_fileinfo = (fi:TwintagFileInfo) => {
   return new FileInfo(fi)
 }
@@ -63,26 +113,36 @@ const convert_fileinfo_array = (fis:TwintagFileInfo[]) => {
   return fis.map(fi => {return convert_fileinfo(fi)}) 
 }
 
+/**
+ * A folder of a bag.
+ *
+ * The path methods, `stat`, `exists`, `mkdirp`, `rm`, `mv`, `cp` and `readdir`, take absolute
+ * paths, from the root folder of the bag, or paths relative to this folder. Paths are normalised,
+ * so `a//b/./c/../d` is `a/b/d`. Missing paths raise a FileNotFoundError, existing targets a FileExistsError.
+ */
 export class Folder {
   twt:Twintag
   bag:View
   #folderQid: string
   name:string
+  /** Absolute path of the folder, undefined when the folder was created without it */
+  path?:string
 
-  constructor(twt:Twintag, bag:View, name:string, folderQid: string) {
+  constructor(twt:Twintag, bag:View, name:string, folderQid: string, path?: string) {
     //console.log('NAME', name, 'FOLDERQID', folderQid)
     this.twt = twt
     this.bag = bag
     this.#folderQid = folderQid
     this.name = name
+    this.path = path ?? (folderQid === '' ? '/' : undefined)
   }
 
-  async listItems():Promise<FileInfo[]>{
+  async listItems(options?:RequestOptions):Promise<FileInfo[]>{
     if (this.bag === null) {
       throw Error('bag list; bag not created')
     }
     //console.log('FOLDER', this.name, 'FOLDERQID', this.#folderQid)
-    const list = await this.bag.list(this.#folderQid)
+    const list = await this.bag.list(this.#folderQid, options)
     if (Array.isArray(list)) {// TWINTAG: may return { is:..., state: 'deleted'} 
       // TWINTAG: this.bag.list('') also gives files in subfolders!
       const filtered = list.filter(f => f.Parent == this.#folderQid)
@@ -92,50 +152,50 @@ export class Folder {
     return []
   }
 
-  async listFiles():Promise<FileInfo[]>{
-    const items = await this.listItems()
+  async listFiles(options?:RequestOptions):Promise<FileInfo[]>{
+    const items = await this.listItems(options)
     return items.filter(f => f.type === 'file')
   }
 
-  async listFolders():Promise<FileInfo[]>{
-    const items = await this.listItems()
+  async listFolders(options?:RequestOptions):Promise<FileInfo[]>{
+    const items = await this.listItems(options)
     return items.filter(f => f.type === 'folder')
   }
 
-  async findFile(name:string):Promise<FileInfo|null>{
-    const list = await this.listFiles()
+  async findFile(name:string, options?:RequestOptions):Promise<FileInfo|null>{
+    const list = await this.listFiles(options)
     const found = list.find(f => f.name === name)
     return found === undefined ? null : found
   }
 
-  async findFolderInfo(name:string):Promise<FileInfo|null>{
-    const list = await this.listFolders()
+  async findFolderInfo(name:string, options?:RequestOptions):Promise<FileInfo|null>{
+    const list = await this.listFolders(options)
     const found = list.find(f => f.name === name)
     return found === undefined ? null : found
   }
 
-  async findFolder(name:string):Promise<Folder|null>{
-    const list = await this.bag.list(this.#folderQid)
+  async findFolder(name:string, options?:RequestOptions):Promise<Folder|null>{
+    const list = await this.bag.list(this.#folderQid, options)
     if (Array.isArray(list)) { // TWINTAG: may return { is:..., state: 'deleted'} 
-      const found = list.find(f => f.Name === name)
+      const found = list.find(f => f.Name === name && f.FileMode === folderMode)
       if (!found) {
         return null
       } else {
-        return new Folder(this.twt, this.bag, name, found.FileQid)
+        return new Folder(this.twt, this.bag, name, found.FileQid, this.path === undefined ? undefined : joinPath(this.path, name))
       }
     } else {
       return null
     }
   }
 
-  async removeFile(name:string):Promise<void>{
+  async removeFile(name:string, options?:RequestOptions):Promise<void>{
     if (this.bag === null) {
       throw Error('bag remove; bag not created')
     }
-    const list = await this.listFiles()
+    const list = await this.listFiles(options)
     const fileInfo = list.find(f => f.name === name)
     if (fileInfo) {
-      await this.bag.delete(fileInfo.toTwintagFileInfo())
+      await this.bag.delete(fileInfo.toTwintagFileInfo(), options)
     }
   }
 
@@ -143,62 +203,53 @@ export class Folder {
     File readers
   */
 
-  async readAsReadableStream(name:string):Promise<ReadableStream>{
+  async readAsReadableStream(name:string, options?:RequestOptions):Promise<ReadableStream>{
     if (this.bag === null) {
       throw Error('bag read; bag not created')
     }
     if (this.#folderQid === '') {
-      return await this.bag.download(name)
+      return await this.bag.download(name, options)
     } else {
-      const url = await this.downloadUrl(name)
-      const rsp = await fetch(url)
-
-      if (rsp.status === 200) {
-        if (rsp.body) {
-          return rsp.body
-        } else {
-          throw Error('missing body')
-         }
-      } else {
-        if (rsp.body) {
-          rsp.body.cancel()
-        }
-        throw Error(`name '${name}' status ${rsp.status}`)
+      const url = await this.downloadUrl(name, options)
+      const stream = await this.bag.downloadFromUrl(url, options)
+      if (!(stream instanceof ReadableStream)) {
+        throw Error('missing body')
       }
+      return stream
     }
   }
 
-  async readAsBuffer(name:string):Promise<Buffer>{
-    const stream = await this.readAsReadableStream(name)
+  async readAsBuffer(name:string, options?:RequestOptions):Promise<Buffer>{
+    const stream = await this.readAsReadableStream(name, options)
     const reader = readerFromStreamReader(stream.getReader())
     const buffer = new Buffer()
     await buffer.readFrom(reader)
     return buffer
   }
 
-  async readAsString(name:string):Promise<string>{
-    const buffer = await this.readAsBuffer(name)
+  async readAsString(name:string, options?:RequestOptions):Promise<string>{
+    const buffer = await this.readAsBuffer(name, options)
     return new TextDecoder().decode(buffer.bytes())
   }
 
   // deno-lint-ignore no-explicit-any
-  async readAsJson(name:string):Promise<any>{
-    const text = await this.readAsString(name)
+  async readAsJson(name:string, options?:RequestOptions):Promise<any>{
+    const text = await this.readAsString(name, options)
     return JSON.parse(text)
   }
 
-  async readAsBlob(name:string):Promise<Blob>{
-    const buffer = await this.readAsBuffer(name)
+  async readAsBlob(name:string, options?:RequestOptions):Promise<Blob>{
+    const buffer = await this.readAsBuffer(name, options)
     return new Blob([buffer.bytes()])
   }
 
-  async readAsFile(name:string):Promise<File>{
-    const blob = await this.readAsBlob(name)
+  async readAsFile(name:string, options?:RequestOptions):Promise<File>{
+    const blob = await this.readAsBlob(name, options)
     return new File([blob], name)
   }
 
-  async downloadUrl(fileName:string):Promise<string>{
-    const folderList = await this.bag.list(this.#folderQid)
+  async downloadUrl(fileName:string, options?:RequestOptions):Promise<string>{
+    const folderList = await this.bag.list(this.#folderQid, options)
     const fileInfo = folderList.find(fi => fi.Name === fileName)
     if (!fileInfo) {
       throw Error(`Not Found; file '${fileName}'`)
@@ -206,8 +257,8 @@ export class Folder {
     return this.twt.Url(`/api/v1/views/${this.bag.qid}/files/${fileInfo.FileQid}`)
   }
 
-  async downloadUrlFromTemplateBag(fileName:string):Promise<string>{
-    const folderList = await this.bag.list(this.#folderQid)
+  async downloadUrlFromTemplateBag(fileName:string, options?:RequestOptions):Promise<string>{
+    const folderList = await this.bag.list(this.#folderQid, options)
     const fileInfo = folderList.find(fi => fi.Name === fileName)
     if (!fileInfo) {
       throw Error(`Not Found; file '${fileName}'`)
@@ -219,82 +270,78 @@ export class Folder {
     File writers
   */
 
-  async writeFromFile(file:File){
+  async writeFromFile(file:File, options?:UploadOptions){
     if (this.bag === null) {
       throw Error('bag write; bag not created')
     }
-    const fi = await this.bag.upload(file, file.name, this.#folderQid === '' ? undefined : this.#folderQid)
+    const fi = await this.bag.upload(file, file.name, this.#folderQid === '' ? undefined : this.#folderQid, options)
     return convert_fileinfo(fi)
   }
 
-  async writeFromBlob(name: string, blob:Blob){
+  async writeFromBlob(name: string, blob:Blob, options?:UploadOptions){
     const file = new File([blob], name)
-    return await this.writeFromFile(file)
+    return await this.writeFromFile(file, options)
   }
 
-  async writeFromBuffer(name: string, buffer:Buffer){
+  async writeFromBuffer(name: string, buffer:Buffer, options?:UploadOptions){
     const blob = new Blob([buffer.bytes()])
-    return await this.writeFromBlob(name, blob)
+    return await this.writeFromBlob(name, blob, options)
   }
 
-  async writeFromString(name: string, text:string){
+  async writeFromString(name: string, text:string, options?:UploadOptions){
     const buffer = new Buffer(new TextEncoder().encode(text))
     const blob = new Blob([buffer.bytes()])
-    return await this.writeFromBlob(name, blob)
+    return await this.writeFromBlob(name, blob, options)
   }
 
   // deno-lint-ignore no-explicit-any
-  async writeFromJson(name: string, json:any){
-    return await this.writeFromString(name, JSON.stringify(json))
+  async writeFromJson(name: string, json:any, options?:UploadOptions){
+    return await this.writeFromString(name, JSON.stringify(json), options)
   }
 
-  /* 
-    Folder Ops
-  */
-
+  // Streams are sent as they are read, the API needs their size in advance
+  async writeFromStream(name: string, stream:ReadableStream<Uint8Array>, options:StreamUploadOptions){
+    if (this.bag === null) {
+      throw Error('bag write; bag not created')
+    }
+    const fi = await this.bag.uploadStream(name, stream, this.#folderQid === '' ? undefined : this.#folderQid, options)
+    return convert_fileinfo(fi)
+  }
 
-  async #findFolderQidInParent(parentQid: string, name:string) {
-    const list = await this.bag?.list(parentQid)
-    if (list === undefined) {
-      return null
+  async writeFromAsyncIterable(name: string, iterable:AsyncIterable<Uint8Array | string>, options:StreamUploadOptions){
+    if (this.bag === null) {
+      throw Error('bag write; bag not created')
     }
-    const found = list.filter(f => f.FileMode === '493').find(f => f.Name === name)
-    return found ? found.FileQid : null
+    const fi = await this.bag.uploadStream(name, iterable, this.#folderQid === '' ? undefined : this.#folderQid, options)
+    return convert_fileinfo(fi)
   }
 
+  /* 
+    Folder Ops
+  */
+
 
-  async resolve(path:string) {
+  async resolve(path:string, options?:RequestOptions) {
     if (path === '') {
       throw Error('empty path')
     }
     if (this.bag === null) {
       throw Error('bag not created')
     }
-    if (path === '/') {
-      return new Folder(this.twt, this.bag, '/', '')
-    }
-
-    let folderQid = ''
-    let folderName = ''
-
-    const parts = path.split("/").slice(1)
-    //console.log('PARTS', parts)
- 
-    for (const name of parts) {
-      //console.log('NAME', name)
-      const found = await this.#findFolderQidInParent(folderQid, name)
-      if (found === null) {
+    const info = await this.#lookup(path, options).catch(err => {
+      if (err instanceof FileNotFoundError) {
         return null
       }
-      folderQid = found
-      folderName = name
+      throw err
+    })
+    if (info === null || info.FileMode !== folderMode) {
+      return null
     }
-
-    return new Folder(this.twt, this.bag, folderName, folderQid)
+    return this.#folderOf(info, path)
   }
 
-  async createFolder(name:string) {
-    const folderInfo = await this.bag.addFolder<TwintagFolderInfo>(name, this.#folderQid)
+  async createFolder(name:string, options?:RequestOptions) {
+    const folderInfo = await this.bag.addFolder<TwintagFolderInfo>(name, this.#folderQid, options)
     return new FileInfo({
       FileQid: folderInfo.fileQid,
       Parent: this.#folderQid,
@@ -305,12 +352,329 @@ export class Folder {
     } as TwintagFileInfo)
   }
 
-  async removeFolder(name:string) {
-    const found = await this.findFolderInfo(name)
+  async removeFolder(name:string, options?:RequestOptions) {
+    const found = await this.findFolderInfo(name, options)
     if (found) {
       const fileInfo = found.toTwintagFileInfo()
-      await this.bag.delete(fileInfo)
+      await this.bag.delete(fileInfo, options)
+    }
+  }
+
+  /*
+    Path Ops
+  */
+
+  async stat(path:string, options?:RequestOptions):Promise<FileInfo>{
+    return convert_fileinfo(await this.#lookup(path, options))
+  }
+
+  async exists(path:string, options?:RequestOptions):Promise<boolean>{
+    try {
+      await this.#lookup(path, options)
+      return true
+    } catch (err) {
+      if (err instanceof FileNotFoundError) {
+        return false
+      }
+      throw err
+    }
+  }
+
+  // Creates the folders of the path that do not exist yet
+  async mkdirp(path:string, options?:RequestOptions):Promise<Folder>{
+    const [qid, segments] = this.#start(path)
+    let folderQid = qid
+    let walked = this.#startPath(path, segments.length)
+    for (const name of segments) {
+      walked = joinPath(walked, name)
+      const found = await this.#child(folderQid, name, options)
+      if (found && found.FileMode !== folderMode) {
+        throw new FileExistsError(walked, `'${walked}' exists and is not a folder`)
+      }
+      if (found) {
+        folderQid = found.FileQid
+      } else {
+        const created = await this.bag.addFolder<TwintagFolderInfo>(name, folderQid, options)
+        folderQid = created.fileQid
+      }
+    }
+    const name = segments.length > 0 ? segments[segments.length - 1] : this.#startName(qid)
+    return new Folder(this.twt, this.bag, name, folderQid, this.#pathOf(path))
+  }
+
+  async rm(path:string, options?:RemoveOptions):Promise<void>{
+    let info: TwintagFileInfo
+    try {
+      info = await this.#lookup(path, options)
+    } catch (err) {
+      if (err instanceof FileNotFoundError && options?.force) {
+        return
+      }
+      throw err
+    }
+    if (info.FileQid === '' || info.FileQid === this.#folderQid) {
+      throw Error(`cannot remove '${this.#display(path)}'`)
+    }
+    if (info.FileMode === folderMode && !options?.recursive && (await this.#children(info.FileQid, options)).length > 0) {
+      throw new ConflictError(`folder '${this.#display(path)}' is not empty`)
+    }
+    await this.#removeTree(info, options)
+  }
+
+  // Moves into the target when it is a folder
+  async mv(from:string, to:string, options?:CopyOptions):Promise<FileInfo>{
+    return await this.#transfer(from, to, false, options)
+  }
+
+  // Copies into the target when it is a folder, folders are copied with their content
+  async cp(from:string, to:string, options?:CopyOptions):Promise<FileInfo>{
+    return await this.#transfer(from, to, true, options)
+  }
+
+  async readdir(path?:string, options?:ReaddirOptions & { withFileTypes?: false }):Promise<string[]>
+  async readdir(path:string, options:ReaddirOptions & { withFileTypes: true }):Promise<FileInfo[]>
+  async readdir(path = '.', options?:ReaddirOptions):Promise<string[]|FileInfo[]>{
+    const info = await this.#lookup(path, options)
+    if (info.FileMode !== folderMode) {
+      throw new FileNotFoundError(this.#display(path), `folder '${this.#display(path)}' not found`)
+    }
+    const items = convert_fileinfo_array(await this.#children(info.FileQid, options))
+    return options?.withFileTypes ? items : items.map(f => f.name)
+  }
+
+  /*
+    Walks
+  */
+
+  // Yields the items below the folder as the listings of their folders complete, so
+  // the order between folders is not fixed. Folders are listed with bounded concurrency.
+  async *walk(options?:WalkOptions):AsyncGenerator<WalkEntry>{
+    yield* this.#walk(this.#folderQid, this.path ?? '.', options)
+  }
+
+  // Matches paths relative to this folder, or absolute paths, see glob.ts for the syntax.
+  // Only the folders below the fixed leading segments of the pattern are listed.
+  async *glob(pattern:string, options?:GlobOptions):AsyncGenerator<WalkEntry>{
+    const normalized = normalizePath(pattern)
+    const segments = pathSegments(normalized)
+    if (segments.length === 0) {
+      return
+    }
+    let fixed = segments.findIndex(isGlob)
+    if (fixed < 0) {
+      fixed = segments.length - 1
+    }
+    const basePath = (normalized.startsWith('/') ? '/' : '') + segments.slice(0, fixed).join('/')
+    const base = await this.#lookup(basePath, options).catch(err => {
+      if (err instanceof FileNotFoundError) {
+        return undefined
+      }
+      throw err
+    })
+    if (base?.FileMode !== folderMode) {
+      return
+    }
+    const rest = segments.slice(fixed)
+    const matcher = globToRegExp(rest.join('/'))
+    yield* this.#walk(base.FileQid, this.#display(basePath), {
+      ...options,
+      maxDepth: rest.includes('**') ? undefined : rest.length,
+    }, (relative) => matcher.test(relative))
+  }
+
+  async *#walk(folderQid:string, base:string, options?:WalkOptions, match?:(relative:string) => boolean):AsyncGenerator<WalkEntry>{
+    const concurrency = Math.max(1, options?.concurrency ?? 4)
+    const maxDepth = options?.maxDepth ?? Infinity
+    const includeDirs = options?.includeDirs ?? true
+    type listing = { qid: string, relative: string, depth: number }
+    type listed = { key: number, folder: listing, items?: TwintagFileInfo[], error?: unknown }
+
+    const queue: listing[] = [{ qid: folderQid, relative: '', depth: 0 }]
+    const running = new Map<number, Promise<listed>>()
+    let next = 0
+    const fill = () => {
+      while (queue.length > 0 && running.size < concurrency) {
+        if (options?.signal?.aborted) {
+          throw new AbortedError('walk aborted', options.signal.reason)
+        }
+        const folder = queue.shift()!
+        const key = next++
+        // Failures are kept until their turn, so listings still running never reject unhandled
+        running.set(key, this.#children(folder.qid, options).then(
+          items => ({ key: key, folder: folder, items: items }),
+          error => ({ key: key, folder: folder, error: error ?? Error('listing failed') }),
+        ))
+      }
+    }
+
+    fill()
+    while (running.size > 0) {
+      const done = await Promise.race(running.values())
+      running.delete(done.key)
+      if (done.error !== undefined) {
+        throw done.error
+      }
+      const entries: WalkEntry[] = []
+      for (const item of done.items ?? []) {
+        const relative = done.folder.relative === '' ? item.Name : `${done.folder.relative}/${item.Name}`
+        const entry: WalkEntry = { path: joinPath(base, relative), depth: done.folder.depth + 1, info: convert_fileinfo(item) }
+        if (item.FileMode === folderMode && entry.depth < maxDepth) {
+          queue.push({ qid: item.FileQid, relative: relative, depth: entry.depth })
+        }
+        if (entry.info.type === 'folder' && !includeDirs) {
+          continue
+        }
+        if ((!match || match(relative)) && (!options?.filter || options.filter(entry))) {
+          entries.push(entry)
+        }
+      }
+      // Keep listing while the entries are consumed
+      fill()
+      yield* entries
+    }
+  }
+
+  // Folder qid and segments to walk from it
+  #start(path:string):[string, string[]] {
+    const normalized = normalizePath(path)
+    if (normalized.startsWith('/')) {
+      if (this.path !== undefined && (normalized + '/').startsWith(this.path === '/' ? '/' : this.path + '/')) {
+        return [this.#folderQid, pathSegments(normalized.slice(this.path.length))]
+      }
+      return ['', pathSegments(normalized)]
+    }
+    const segments = pathSegments(normalized)
+    if (segments[0] === '..') {
+      if (this.path === undefined) {
+        throw Error(`path '${path}' is outside of folder '${this.name}' of unknown path`)
+      }
+      return this.#start(joinPath(this.path, normalized))
+    }
+    return [this.#folderQid, segments]
+  }
+
+  // Absolute path, when known
+  #pathOf(path:string):string|undefined {
+    const normalized = normalizePath(path)
+    if (normalized.startsWith('/')) {
+      return normalized
+    }
+    return this.path === undefined ? undefined : joinPath(this.path, normalized)
+  }
+
+  #display(path:string):string {
+    return this.#pathOf(path) ?? normalizePath(path)
+  }
+
+  // Path of the folder a walk of the segments starts from
+  #startPath(path:string, segments:number):string {
+    const display = this.#display(path)
+    return segments === 0 ? display : joinPath(display, ...new Array(segments).fill('..'))
+  }
+
+  #startName(qid:string):string {
+    return qid === this.#folderQid ? this.name : '/'
+  }
+
+  async #lookup(path:string, options?:RequestOptions):Promise<TwintagFileInfo> {
+    const [qid, segments] = this.#start(path)
+    const cache = this.bag.listingCache
+    const absolute = this.#pathOf(path)
+    const cached = cache && absolute !== undefined && segments.length > 0 ? cache.getPath(absolute) : undefined
+    if (cached) {
+      return cached
+    }
+    let info: TwintagFileInfo = {
+      FileQid: qid,
+      Parent: undefined,
+      Name: this.#startName(qid),
+      Size: 0,
+      MTime: new Date(0),
+      FileMode: folderMode,
+    }
+    let walked = this.#startPath(path, segments.length)
+    for (const name of segments) {
+      walked = joinPath(walked, name)
+      const found = info.FileMode === folderMode ? await this.#child(info.FileQid, name, options) : undefined
+      if (!found) {
+        throw new FileNotFoundError(walked)
+      }
+      info = found
+      if (cache && walked.startsWith('/')) {
+        cache.setPath(walked, found)
+      }
+    }
+    return info
+  }
+
+  async #children(folderQid:string, options?:RequestOptions):Promise<TwintagFileInfo[]> {
+    const list = await this.bag.list(folderQid, options)
+    // TWINTAG: this.bag.list('') also gives files in subfolders!
+    return Array.isArray(list) ? list.filter(f => f.Parent == folderQid) : []
+  }
+
+  async #child(folderQid:string, name:string, options?:RequestOptions):Promise<TwintagFileInfo|undefined> {
+    return (await this.#children(folderQid, options)).find(f => f.Name === name)
+  }
+
+  #folderOf(info:TwintagFileInfo, path:string):Folder {
+    return new Folder(this.twt, this.bag, info.Name, info.FileQid, this.#pathOf(path))
+  }
+
+  async #removeTree(info:TwintagFileInfo, options?:RequestOptions):Promise<void> {
+    if (info.FileMode === folderMode) {
+      for (const child of await this.#children(info.FileQid, options)) {
+        await this.#removeTree(child, options)
+      }
     }
+    await this.bag.delete(info, options)
+  }
+
+  async #transfer(from:string, to:string, copy:boolean, options?:CopyOptions):Promise<FileInfo> {
+    const source = await this.#lookup(from, options)
+    if (source.FileQid === '' || source.FileQid === this.#folderQid) {
+      throw Error(`cannot ${copy ? 'copy' : 'move'} '${this.#display(from)}'`)
+    }
+
+    // The target is a new name in an existing folder, or an existing folder to move into
+    let parent: TwintagFileInfo
+    let name: string
+    let targetPath = this.#display(to)
+    const target = await this.#lookup(to, options).catch(err => {
+      if (err instanceof FileNotFoundError) {
+        return undefined
+      }
+      throw err
+    })
+    if (target?.FileMode === folderMode) {
+      parent = target
+      name = source.Name
+      targetPath = joinPath(targetPath, name)
+    } else {
+      parent = await this.#lookup(dirname(normalizePath(to)), options)
+      if (parent.FileMode !== folderMode) {
+        throw new FileNotFoundError(this.#display(dirname(normalizePath(to))), `folder '${this.#display(dirname(normalizePath(to)))}' not found`)
+      }
+      name = basename(to)
+    }
+    if (!copy && parent.FileQid == source.Parent && name === source.Name) {
+      return convert_fileinfo(source)
+    }
+
+    const existing = await this.#child(parent.FileQid, name, options)
+    if (existing) {
+      if (!options?.overwrite || existing.FileMode === folderMode) {
+        throw new FileExistsError(targetPath)
+      }
+      await this.bag.delete(existing, options)
+    }
+
+    // Without a target folder a file stays in its folder, the root is the root of the own bag
+    const view = parent.FileQid === '' && source.Parent ? this.bag.qid : undefined
+    const fi = copy
+      ? await this.bag.copy(source, name, parent.FileQid, view, options)
+      : await this.bag.move(source, name, parent.FileQid, view, options)
+    return convert_fileinfo(fi)
   }
 
 }
\ No newline at end of file
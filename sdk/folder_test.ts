@@ -1,34 +1,17 @@
-import { config }  from "./deps.ts"
 import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
-import { beforeAll, afterAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
-import { Twintag } from "./twintag.ts"
-import { StorageBag } from "./storage_bag.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
 import { Folder } from "./folder.ts"
+import { withBag } from "./testing.ts";
 
 describe("Folders", ()=>{
-  let twt:Twintag
-  let bag:StorageBag|null = null
+  const fixture = withBag({ live: true })
   let rootFolder:Folder| null = null
   let subFolder:Folder| null = null
   const filename = 'foobar'
   const fldrname = 'somefolder'
 
-  beforeAll(async ()=> {
-    const cfg  = await config()
-    
-    twt = new Twintag(cfg["PROJECT_APIKEY"], cfg["TEMPLATE_VIEWER_QID"], cfg["SUBDOMAIN"])
-    twt.setHost('https://twintag.io')
-    twt.setAdminHost('https://admin.twintag.io')
-    twt.setLogLevel('none')
-
-    bag = new StorageBag(twt)
-    await bag.create()
-
-    rootFolder = bag.rootFolder
-  })
-
-  afterAll(async ()=> {
-    await bag?.delete()
+  beforeAll(()=> {
+    rootFolder = fixture.bag.rootFolder
   })
 
   it("lists empty root folder" ,async () => {
@@ -57,6 +40,14 @@ describe("Folders", ()=>{
     t.assertEquals(json["foo"], "bar")
   })
 
+  it("writes stream to root folder" ,async () => {
+    const stream = await rootFolder!.readAsReadableStream(filename)
+    const fileInfo = await rootFolder?.writeFromStream('copy', stream, { size: JSON.stringify({foo:'bar'}).length })
+    t.assertEquals(fileInfo?.name, 'copy')
+    t.assertEquals(await rootFolder?.readAsJson('copy'), {foo:'bar'})
+    await rootFolder?.removeFile('copy')
+  })
+
   it("fetches object downloadUrl from root" ,async () => {
     const url = await rootFolder?.downloadUrl(filename)
     t.assert(url)
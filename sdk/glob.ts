@@ -0,0 +1,125 @@
+/**
+ * Glob patterns, matched against `/` separated paths:
+ *
+ * - `*` matches any characters within a segment, `?` one character
+ * - `**` as a whole segment matches any number of segments, including none
+ * - `[abc]`, `[a-z]` and `[!abc]` match one character of, or not of, a set
+ * - `{json,csv}` matches one of the alternatives
+ * - `\` escapes the next character
+ */
+
+const magic = /[*?[{\\]/;
+
+/**
+ * Whether a path segment or pattern has glob syntax.
+ *
+ * @internal
+ */
+export function isGlob(pattern: string): boolean {
+  return magic.test(pattern);
+}
+
+/**
+ * Compile a glob pattern to a regular expression matching whole paths.
+ *
+ * @internal
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const segments = pattern.split('/');
+  let source = '';
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === '**') {
+      source += last ? '.*' : '(?:[^/]*/)*';
+    } else {
+      source += segmentSource(segment) + (last ? '' : '/');
+    }
+  });
+  return new RegExp(`^${source}$`);
+}
+
+function segmentSource(segment: string): string {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    switch (c) {
+      case '*':
+        source += '[^/]*';
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '\\':
+        i++;
+        source += escape(segment[i] ?? '\\');
+        break;
+      case '[': {
+        const end = segment.indexOf(']', i + 2);
+        if (end < 0) {
+          source += escape(c);
+          break;
+        }
+        let set = segment.slice(i + 1, end);
+        const negate = set[0] === '!' || set[0] === '^';
+        if (negate) {
+          set = set.slice(1);
+        }
+        source += `[${negate ? '^/' : ''}${set.replace(/[\\\]^]/g, '\\$&')}]`;
+        i = end;
+        break;
+      }
+      case '{': {
+        const end = closingBrace(segment, i);
+        if (end < 0) {
+          source += escape(c);
+          break;
+        }
+        source += `(?:${splitAlternatives(segment.slice(i + 1, end)).map(segmentSource).join('|')})`;
+        i = end;
+        break;
+      }
+      default:
+        source += escape(c);
+    }
+  }
+  return source;
+}
+
+function closingBrace(segment: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < segment.length; i++) {
+    if (segment[i] === '\\') {
+      i++;
+    } else if (segment[i] === '{') {
+      depth++;
+    } else if (segment[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Alternatives of a brace expression, keeping nested braces together
+function splitAlternatives(body: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\') {
+      i++;
+    } else if (body[i] === '{') {
+      depth++;
+    } else if (body[i] === '}') {
+      depth--;
+    } else if (body[i] === ',' && depth === 0) {
+      alternatives.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(body.slice(start));
+  return alternatives;
+}
+
+function escape(c: string): string {
+  return c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
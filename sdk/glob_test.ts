@@ -0,0 +1,95 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { WalkEntry } from "./folder.ts";
+import { globToRegExp } from "./glob.ts";
+import { withBag } from "./testing.ts";
+
+describe("Glob patterns", ()=>{
+
+  const matches = (pattern: string, paths: string[]) => paths.filter(p => globToRegExp(pattern).test(p))
+
+  it("matches within segments" , () => {
+    t.assertEquals(matches('*.json', ['a.json', 'b.csv', 'x/a.json']), ['a.json'])
+    t.assertEquals(matches('file?.txt', ['file1.txt', 'file12.txt']), ['file1.txt'])
+    t.assertEquals(matches('[a-c]*', ['apple', 'date']), ['apple'])
+    t.assertEquals(matches('[!a-c]*', ['apple', 'date']), ['date'])
+    t.assertEquals(matches('*.{json,csv}', ['a.json', 'b.csv', 'c.txt']), ['a.json', 'b.csv'])
+    t.assertEquals(matches('\\*.txt', ['*.txt', 'a.txt']), ['*.txt'])
+  })
+
+  it("matches any number of segments" , () => {
+    const paths = ['a.json', 'x/a.json', 'x/y/a.json', 'x/y/a.csv']
+    t.assertEquals(matches('**/*.json', paths), ['a.json', 'x/a.json', 'x/y/a.json'])
+    t.assertEquals(matches('x/**', paths), ['x/a.json', 'x/y/a.json', 'x/y/a.csv'])
+    t.assertEquals(matches('x/**/a.*', paths), ['x/a.json', 'x/y/a.json', 'x/y/a.csv'])
+  })
+
+})
+
+describe("Walks", ()=>{
+  const fixture = withBag()
+  let lists = 0
+  let active = 0
+  let maxActive = 0
+
+  const paths = async (entries: AsyncIterable<WalkEntry>) => {
+    const result: string[] = []
+    for await (const entry of entries) {
+      result.push(entry.path)
+    }
+    return result.sort()
+  }
+
+  beforeAll(async ()=> {
+    for (const dir of ['/docs/a', '/docs/b/c', '/data']) {
+      await fixture.bag.mkdirp(dir)
+    }
+    for (const file of ['/docs/readme.json', '/docs/a/one.pdf', '/docs/b/two.json', '/docs/b/c/three.json', '/data/rows.csv']) {
+      await (await fixture.bag.rootFolder!.resolve(file.slice(0, file.lastIndexOf('/'))))!.writeFromString(file.slice(file.lastIndexOf('/') + 1), '{}')
+    }
+    fixture.bag.bag!.use({
+      beforeRequest: (req) => {
+        if (req.url.includes('/folders')) {
+          lists++
+          active++
+          maxActive = Math.max(maxActive, active)
+        }
+      },
+      afterResponse: (req) => {
+        if (req.url.includes('/folders')) {
+          active--
+        }
+      },
+    })
+  })
+
+  it("walks all items with full paths" , async () => {
+    maxActive = 0
+    t.assertEquals(await paths(fixture.bag.walk({ includeDirs: false })), [
+      '/data/rows.csv', '/docs/a/one.pdf', '/docs/b/c/three.json', '/docs/b/two.json', '/docs/readme.json',
+    ])
+    t.assertEquals(maxActive, 2)
+    maxActive = 0
+    await paths(fixture.bag.walk({ concurrency: 1 }))
+    t.assertEquals(maxActive, 1)
+  })
+
+  it("limits the depth and filters entries" , async () => {
+    const docs = await fixture.bag.rootFolder!.resolve('/docs')
+    t.assertEquals(await paths(docs!.walk({ maxDepth: 1 })), ['/docs/a', '/docs/b', '/docs/readme.json'])
+    t.assertEquals(await paths(docs!.walk({ filter: (e) => e.depth === 2 && e.info.type === 'file' })), ['/docs/a/one.pdf', '/docs/b/two.json'])
+  })
+
+  it("globs paths" , async () => {
+    t.assertEquals(await paths(fixture.bag.glob('**/*.json')), ['/docs/b/c/three.json', '/docs/b/two.json', '/docs/readme.json'])
+    t.assertEquals(await paths(fixture.bag.glob('/docs/*/*.{pdf,json}')), ['/docs/a/one.pdf', '/docs/b/two.json'])
+    t.assertEquals(await paths(fixture.bag.glob('/missing/**')), [])
+
+    const docs = await fixture.bag.rootFolder!.resolve('/docs')
+    lists = 0
+    t.assertEquals(await paths(docs!.glob('b/*')), ['/docs/b/c', '/docs/b/two.json'])
+    t.assertEquals(lists, 2)
+    t.assertEquals(await paths(docs!.glob('../data/*.csv')), ['/data/rows.csv'])
+  })
+
+})
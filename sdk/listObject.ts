@@ -1,16 +1,29 @@
 // deno-lint-ignore-file
-import { environment } from './environment.ts';
 import { Client } from './client.ts';
-import { Parser } from './parser.ts';
 import { FileUploader } from './fileUploader.ts';
+import { RequestOptions } from './abort.ts';
+import { AbortedError, NotFoundError, ConflictError, Violation } from './error.model.ts';
+import { Query, QuerySource, filterArg } from './query.ts';
+import { PageOptions, paginate } from './paginate.ts';
+import { BatchOptions, BatchReport, RowResult, executeBatched, eachRow } from './batch.ts';
+import { Attribute, StructuredObject } from './structuredObject.ts';
+import {
+  Column, DataFormat, ExportOptions, ImportOptions, ImportReport,
+  coerce, exportColumns, formatCsvRow, formatValue, importColumns, parseCsv, parseNdjson, textStream, RowError,
+} from './dataFormat.ts';
+import { checkRecord, forgetRules, loadRules, throwViolations } from './validator.ts';
+import { DataOptions, contextOf } from './codec.ts';
 
 
 /**
  * A list object class represents data from a list type of object.
  * This object can be used to interact with the list of data of a list object.
- * CRUD operations can be performed on this object
+ * CRUD operations can be performed on this object.
+ *
+ * The type parameter is the type of the records, see {@link generateTypes}. It is used as
+ * the default of the type parameters of the methods and checks the passed records and filters.
  */
-export class listObject {
+export class listObject<Rec = any> implements QuerySource {
   viewId: string;
   objectApiName: string;
 
@@ -18,6 +31,8 @@ export class listObject {
 
   private _projectId: string;
   private _useCaching: boolean = false;
+  private _keyProperty?: string;
+  private _validate = false;
 
   /**
    * Construct listObject with objectApiName, scemaScope, viewId and client.
@@ -45,6 +60,62 @@ export class listObject {
     this._useCaching = useCaching;
   }
 
+  /**
+   * Validate records against the attribute schema of the object before sending them.
+   * Insert and update then throw a {@link ValidationError} listing all violations:
+   * unknown attributes, values not matching the attribute type, invalid dates, a missing
+   * key attribute on insert and translation attributes of languages not allowed in the project.
+   *
+   * The schema is loaded once per project, see {@link refreshSchema}.
+   *
+   * Example:
+   * ```js
+   * const products = project.object('product').useValidation(true)
+   * try {
+   *   await products.insert({ name: 'chair', price: 'cheap' })
+   * } catch (err) {
+   *   console.log(err.violations)
+   * }
+   * ```
+   *
+   * @category ListObject
+   */
+  public useValidation(val: boolean): this {
+    this._validate = val;
+    return this;
+  }
+
+  /**
+   * Check records against the attribute schema without sending them, see {@link useValidation}.
+   *
+   * @param data A record or an array of records
+   * @param mode On insert the key attribute is required
+   *
+   * @category ListObject
+   */
+  public async validate(data: Partial<Rec> | Partial<Rec>[], mode: 'insert' | 'update' = 'insert', options?: RequestOptions): Promise<Violation[]> {
+    const rules = await loadRules(this._client, this.objectApiName, this._projectId, this._useCaching, options);
+    if (Array.isArray(data)) {
+      return data.flatMap((record, index) => checkRecord(record, rules, mode, index));
+    }
+    return checkRecord(data, rules, mode);
+  }
+
+  /**
+   * Load the attribute schema used by the validation again, e.g. after adding attributes.
+   *
+   * @category ListObject
+   */
+  public refreshSchema(): void {
+    forgetRules(this._client, this.objectApiName);
+  }
+
+  private async check(data: any, mode: 'insert' | 'update', options?: RequestOptions): Promise<void> {
+    if (this._validate) {
+      throwViolations(this.objectApiName, await this.validate(data, mode, options));
+    }
+  }
+
   /**
    * Get a record from list object with the specified id.
    * Optional parameter lang can be passed to get data in a specific language.
@@ -65,14 +136,14 @@ export class listObject {
    *
    * @category ListObject
    */
-   public async get<T>(id: string, lang?: string): Promise<T> {
+   public async get<T = Rec>(id: string, lang?: string, options?: DataOptions): Promise<T> {
     let url = '';
 
     if (this._useCaching) {
       if (this.viewId == '') {
-        url = `${environment.cachingHost}/data/${this.objectApiName}/${id}?schemaScope=${this._projectId}`;
+        url = `${this._client.config.cachingHost}/data/${this.objectApiName}/${id}?schemaScope=${this._projectId}`;
       } else {
-        url = `${environment.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}/${id}`;
+        url = `${this._client.config.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}/${id}`;
       }
     } else {
       url = this.dataUrl(id);
@@ -83,24 +154,32 @@ export class listObject {
       }`
       : '';
 
-    const [res, err] = await this._client.get<T>(url); 
+    const [res, err] = await this._client.get<T>(url, options); 
     if (err) { 
       err.setMessage(`failed to get data: ${err.message}`);
       throw err;
     }
 
-    return Parser.parseSpecialTypes(res);
+    return this._client.config.codecs.decode(res, contextOf(this._client.config, options));
   }
 
-  public async get2<T>(id: string, lang?: string): Promise<T|null> {
-    // TWINTAG: is id always a record $qid or can this be a value of a key column
+  /**
+   * Same as {@link get}, but returns null instead of throwing when the record does not exist.
+   *
+   * @param id Id value of the record
+   * @param lang: optional language value, see {@link get}
+   *
+   * @category ListObject
+   */
+  public async get2<T = Rec>(id: string, lang?: string, options?: DataOptions): Promise<T|null> {
+    // The id is the record $qid, use getByKey to look up a record by the value of its key attribute
     let url = '';
 
     if (this._useCaching) {
       if (this.viewId == '') {
-        url = `${environment.cachingHost}/data/${this.objectApiName}/${id}?schemaScope=${this._projectId}`;
+        url = `${this._client.config.cachingHost}/data/${this.objectApiName}/${id}?schemaScope=${this._projectId}`;
       } else {
-        url = `${environment.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}/${id}`;
+        url = `${this._client.config.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}/${id}`;
       }
     } else {
       url = this.dataUrl(id);
@@ -111,17 +190,8 @@ export class listObject {
       }`
       : '';
 
-    // TWINTAG:
-    // In case the record does not exist in the table res = {} and err is TRUTHY, i.e an object of type 'undefined'
-    // So this in case err is defined (instead of undefined) was throwing on object 'throw undefined'
-    // we need a better way to handle not found (404) and return null for the object
-    // console.log('LISTOBJECT', 'URL', url)
-
-    const [res, err] = await this._client.get<T>(url);
-    const isEmpty = Object.keys(res).length === 0
-   // console.log('LISTOBJECT', 'ISEMPTY', isEmpty, 'ERR', err, 'TYPEOF err', typeof err, 'TRUTHY', err ? 'true' : 'false' )
- 
-    if (isEmpty) {
+    const [res, err] = await this._client.get<T>(url, options);
+    if (err instanceof NotFoundError) {
       return null
     }
 
@@ -130,7 +200,7 @@ export class listObject {
       throw err;
     }
 
-    return Parser.parseSpecialTypes(res);
+    return this._client.config.codecs.decode(res, contextOf(this._client.config, options));
   }
 
   /**
@@ -140,75 +210,59 @@ export class listObject {
    *
    * @category ListObject
    */
-  public async insert<T>(data: T): Promise<T> {
+  public async insert<T extends Partial<Rec> = Partial<Rec>>(data: T, options?: DataOptions): Promise<T> {
+    await this.check(data, 'insert', options);
     const url = this.dataUrl();
 
-    const fileTypes = this.parseForSpecialTypes(data);
+    const codecs = this._client.config.codecs;
+    const context = contextOf(this._client.config, options);
+    const files = this.fileValues(data);
 
-    const [res, err] = await this._client.put<T>(url, data, {
+    const [res, err] = await this._client.put<T>(url, codecs.encode(data, context), {
       headers: { 'Content-Type': 'application/json' },
+      ...options,
     });
     if (err) {
       err.setMessage(`failed to insert data: ${err.message}`);
       throw err;
     }
 
-    return await this.parseResponse(res, fileTypes);
+    return await this.parseResponse(codecs.decode(res, context), files, options);
   }
 
-    /**
-   * Private method to parse file types in request.
-   * Ideally vaidate if the value is of File type. Since at the time of development File polyfill was not injected * to epsilon, checking for instance of File is not possible. adding null check for value deletion support
-   * @param data
+  /**
+   * The values of a record to send that are files, by attribute.
    *
    * @internal
    */
-     private parseForSpecialTypes<T>(data: any): {}[] {
-      let fileType: {}[] = [];
-      Object.entries(data).forEach(([key, value]) => {
-        if (value instanceof Date) {
-          const tzoffset = new Date().getTimezoneOffset() * 60000; // offset in milliseconds
-          const dateTimeInMilliSeconds = new Date(value).getTime();
-          data[key] = new Date(dateTimeInMilliSeconds - tzoffset).toISOString().split('T').join(' ').split('.')[0];
-        } else if (value && typeof value === 'object') {
-          fileType.push({
-            apiName: key,
-            file: data[key],
-          });
-          data[key] = {
-            name: (value as any).name,
-            size: (value as any).size,
-            fileContent: (value as any).fileContent
-          };
-        }
-      });
-  
-      return fileType;
-    }
-
+  private fileValues(data: any): [string, unknown][] {
+    const codecs = this._client.config.codecs;
+    return Object.entries(data).filter(([key, value]) => !key.startsWith('$') && codecs.forValue(value)?.type === 'file');
+  }
 
   /**
    * Private method to parse the insert/update response and assign FileUploader to file type columns
    * @param resp
-   * @param fileTypes
+   * @param files
+   * @param options
    *
    * @internal
    */
-  private async parseResponse(resp:any, fileTypes: {}[]) {
-    fileTypes.forEach(async (obj: any) => {
-      let fileResp = resp[obj.apiName];
-      resp[obj.apiName] = new FileUploader(
+  private async parseResponse(resp:any, files: [string, unknown][], options?: RequestOptions) {
+    for (const [apiName, file] of files) {
+      let fileResp = resp[apiName];
+      resp[apiName] = new FileUploader(
         this._client,
         this.viewId,
         fileResp.uploadUrl,
         fileResp.metafest.fileQid,
         resp.$qid
       );
-      if (obj.file instanceof Blob) {
-        await resp[obj.apiName].Upload(obj.file);
-        resp[obj.apiName] = fileResp.metafest
+      if (file instanceof Blob) {
+        await resp[apiName].Upload(file, options);
+        resp[apiName] = fileResp.metafest
       }
-    });
+    }
     return resp
   }
 
@@ -219,18 +273,22 @@ export class listObject {
    *
    * @category ListObject
    */
-  public async insertInBulk<T>(data: T): Promise<T> {
+  public async insertInBulk<T extends Partial<Rec>[] = Partial<Rec>[]>(data: T, options?: DataOptions): Promise<T> {
+    await this.check(data, 'insert', options);
     let url = this.dataUrl();
     url += '/import';
-    const [res, err] = await this._client.put<T>(url, data, {
+    const codecs = this._client.config.codecs;
+    const context = contextOf(this._client.config, options);
+    const [res, err] = await this._client.put<T>(url, codecs.encode(data, context), {
       headers: { 'Content-Type': 'application/json' },
+      ...options,
     });
     if (err) {
       err.setMessage(`failed to insert bulk data: ${err.message}`);
       throw err;
     }
 
-    return res;
+    return codecs.decode(res, context);
   }
 
   /**
@@ -241,20 +299,24 @@ export class listObject {
    * @category ListObject
    */
 
-  public async update<T>(data: T): Promise<T> {
+  public async update<T extends Partial<Rec> = Partial<Rec>>(data: T, options?: DataOptions): Promise<T> {
+    await this.check(data, 'update', options);
     const url = this.dataUrl();
 
-    const fileTypes = this.parseForSpecialTypes(data);
+    const codecs = this._client.config.codecs;
+    const context = contextOf(this._client.config, options);
+    const files = this.fileValues(data);
 
-    const [res, err] = await this._client.put<T>(url, data, {
+    const [res, err] = await this._client.put<T>(url, codecs.encode(data, context), {
       headers: { 'Content-Type': 'application/json' },
+      ...options,
     });
     if (err) {
       err.setMessage(`failed to update data: ${err.message}`);
       throw err;
     }
 
-    return this.parseResponse(res, fileTypes);
+    return this.parseResponse(codecs.decode(res, context), files, options);
   }
 
   /**
@@ -264,7 +326,7 @@ export class listObject {
    *
    * @category ListObject
    */
-  public async delete<T>(id: string, dataScope = ''): Promise<void> { // TWINTAG: What is T doing here?
+  public async delete<T>(id: string, dataScope = '', options?: RequestOptions): Promise<void> { // TWINTAG: What is T doing here?
     const url = this.dataUrl();
 
     const req = {
@@ -277,8 +339,9 @@ export class listObject {
     // });
     const [stream, err] = await this._client.delete<ReadableStream<Uint8Array>>(url, req, {
       headers: { 'Content-Type': 'application/json' },
+      ...options,
     });
-    if (stream) {
+    if (stream && stream instanceof ReadableStream) {
       stream.cancel()
     }
 
@@ -288,6 +351,241 @@ export class listObject {
     }
   }
 
+  /**
+   * Update many existing records. Every record needs its $qid.
+   * Each record is updated with its own request; the records are grouped in chunks that
+   * run with bounded concurrency. A failing record does not stop the others and is
+   * reported in the returned {@link BatchReport}.
+   *
+   * Example:
+   * ```js
+   * const report = await object.updateMany(records, { chunkSize: 50, concurrency: 2 })
+   * for (const row of report.failed) {
+   *   console.log(records[row.index].$qid, row.error.message)
+   * }
+   * ```
+   *
+   * @param data Array of objects representing the data
+   * @param options see {@link BatchOptions}, the other options apply to every update
+   *
+   * @category ListObject
+   */
+  public async updateMany<T extends Partial<Rec> = Partial<Rec>>(data: T[], options?: BatchOptions & DataOptions): Promise<BatchReport<T>> {
+    const dataOptions: DataOptions = { timeZone: options?.timeZone };
+    return await executeBatched<T, T>(data, (chunk, requestOptions) => eachRow(chunk, async (record: any) => {
+      if (!record?.$qid) {
+        throw new Error('missing $qid in record');
+      }
+      return await this.update<T>({ ...record }, { ...dataOptions, ...requestOptions });
+    }), options);
+  }
+
+  /**
+   * Delete many records, by id or all records matching a filter.
+   * Records are deleted in chunks with bounded concurrency; a failing record does not
+   * stop the others and is reported in the returned {@link BatchReport}.
+   *
+   * Example:
+   * ```js
+   * await object.deleteMany(['qid1', 'qid2'])
+   * await object.deleteMany({ price: { lt: 0 } })
+   * ```
+   *
+   * @param target Ids of the records or a {@link Filter}
+   * @param dataScope see {@link delete}
+   *
+   * @category ListObject
+   */
+  public async deleteMany(target: string[] | RecordFilter<Rec>, dataScope = '', options?: BatchOptions): Promise<BatchReport<string>> {
+    let ids: string[];
+    if (Array.isArray(target)) {
+      ids = target;
+    } else {
+      ids = [];
+      for await (const record of this.iterate<any>(target, { pageSize: 1000, signal: options?.signal, timeoutMs: options?.timeoutMs })) {
+        ids.push(record.$qid);
+      }
+    }
+    return await executeBatched<string, string>(ids, (chunk, requestOptions) => eachRow(chunk, async (id) => {
+      await this.delete(id, dataScope, requestOptions);
+      return id;
+    }), options);
+  }
+
+  /**
+   * Get a record by the value of the key attribute of the object, see {@link StructuredObject.keyProperty}.
+   * Returns null when no record has this key.
+   *
+   * Example:
+   * ```js
+   * const product = await object.getByKey('SKU-001')
+   * ```
+   *
+   * @param value Value of the key attribute
+   * @param options The key attribute is fetched from the object definition, which requires the
+   * project API key. Pass `keyProperty` for objects obtained from a view.
+   *
+   * @category ListObject
+   */
+  public async getByKey<T = Rec>(value: custom, options?: KeyOptions): Promise<T | null> {
+    const keyProperty = await this.keyProperty(options);
+    const timeZone = contextOf(this._client.config, options).timeZone;
+    const res = await this.fetchMatching<T>(filterArg(keyProperty, '=', value, timeZone), options?.lang, options);
+    return Array.isArray(res) && res.length > 0 ? res[0] : null;
+  }
+
+  /**
+   * Insert a record, or update the record with the same value for the key attribute.
+   *
+   * Example:
+   * ```js
+   * const { record, created } = await object.upsert({ sku: 'SKU-001', price: 10 })
+   * ```
+   *
+   * @param data An object representing the data, including the key attribute
+   * @param options see {@link getByKey}
+   *
+   * @category ListObject
+   */
+  public async upsert<T extends Partial<Rec> & object = Partial<Rec> & object>(data: T, options?: KeyOptions): Promise<UpsertResult<T>> {
+    const keyProperty = await this.keyProperty(options);
+    const key = this.keyValue(data, keyProperty);
+
+    const existing = await this.getByKey<any>(key, { ...options, keyProperty: keyProperty });
+    if (existing) {
+      const record = await this.update<T>({ ...data, $qid: existing.$qid }, options);
+      return { record: record, created: false };
+    }
+
+    try {
+      return { record: await this.insert<T>({ ...data }, options), created: true };
+    } catch (err) {
+      // Inserted in the meantime by someone else
+      if (!(err instanceof ConflictError)) {
+        throw err;
+      }
+      const inserted = await this.getByKey<any>(key, { ...options, keyProperty: keyProperty });
+      if (!inserted) {
+        throw err;
+      }
+      const record = await this.update<T>({ ...data, $qid: inserted.$qid }, options);
+      return { record: record, created: false };
+    }
+  }
+
+  /**
+   * Insert or update many records, matched on the key attribute like {@link upsert}.
+   *
+   * The keys are looked up one request per key, as the API has no filter on a set of values,
+   * in chunks of `chunkSize` keys with `concurrency` chunks at a time, see {@link executeBatched}.
+   * New records are inserted with one bulk request and existing ones are updated the same way
+   * as they are looked up. Every key can only occur once. A failing row does not stop the
+   * others and is reported in `failed`; when the bulk insert fails, all new rows fail with it.
+   *
+   * Example:
+   * ```js
+   * const report = await object.upsertMany(products)
+   * console.log(`${report.created.length} created, ${report.updated.length} updated`)
+   * for (const row of report.failed) {
+   *   console.log(products[row.index].sku, row.error.message)
+   * }
+   * ```
+   *
+   * @param data Array of objects representing the data, including the key attribute
+   * @param options see {@link getByKey} and {@link BatchOptions}
+   *
+   * @category ListObject
+   */
+  public async upsertMany<T extends Partial<Rec> & object = Partial<Rec> & object>(data: T[], options?: KeyOptions & BatchOptions): Promise<UpsertReport<T>> {
+    const keyProperty = await this.keyProperty(options);
+
+    const keys = new Set<string>();
+    for (const record of data) {
+      const key = String(this.keyValue(record, keyProperty));
+      if (keys.has(key)) {
+        throw new Error(`duplicate value '${key}' for key attribute '${keyProperty}'`);
+      }
+      keys.add(key);
+    }
+
+    const lookups = await executeBatched<T, string | undefined>(data, (chunk, requestOptions) => eachRow(chunk, async (record) => {
+      const found = await this.getByKey<any>(this.keyValue(record, keyProperty), { ...options, ...requestOptions, keyProperty: keyProperty });
+      return found?.$qid;
+    }), options);
+
+    const report: UpsertReport<T> = { created: [], updated: [], failed: [] };
+    const toCreate: number[] = [];
+    const toUpdate: number[] = [];
+    for (const row of lookups.results) {
+      if (!row.ok) {
+        report.failed.push({ index: row.index, ok: false, error: row.error });
+      } else {
+        (row.value ? toUpdate : toCreate).push(row.index);
+      }
+    }
+
+    if (toCreate.length > 0) {
+      try {
+        const res: any = await this.insertInBulk(toCreate.map(i => ({ ...data[i] })), options);
+        if (Array.isArray(res) && res.length === toCreate.length) {
+          report.created = res;
+        } else {
+          // The created records cannot be matched to the rows
+          const error = new Error(`bulk insert returned ${Array.isArray(res) ? res.length : 'no'} records for ${toCreate.length} rows`);
+          report.failed.push(...toCreate.map(i => ({ index: i, ok: false, error: error })));
+        }
+      } catch (err) {
+        if (err instanceof AbortedError) {
+          throw err;
+        }
+        const error = err instanceof Error ? err : new Error(`${err}`);
+        report.failed.push(...toCreate.map(i => ({ index: i, ok: false, error: error })));
+      }
+    }
+
+    const records = toUpdate.map(i => ({ ...data[i], $qid: lookups.results[i].value }));
+    const updates = await executeBatched<T, T>(records, (chunk, requestOptions) => eachRow(chunk, (record) => this.update<T>(record, { ...options, ...requestOptions })), options);
+    for (const row of updates.results) {
+      if (row.ok) {
+        report.updated.push(row.value!);
+      } else {
+        report.failed.push({ ...row, index: toUpdate[row.index] });
+      }
+    }
+    report.failed.sort((a, b) => a.index - b.index);
+    return report;
+  }
+
+  private keyValue(data: any, keyProperty: string): custom {
+    const key = data[keyProperty];
+    if (key === undefined || key === null || key === '') {
+      throw new Error(`missing value for key attribute '${keyProperty}'`);
+    }
+    return key;
+  }
+
+  /**
+   * Resolve the key attribute from the options or the object definition.
+   */
+  private async keyProperty(options?: KeyOptions): Promise<string> {
+    if (options?.keyProperty) {
+      return options.keyProperty;
+    }
+    if (!this._keyProperty) {
+      const url = this._client.config.adminHost + '/api/v1/object?object=' + this.objectApiName;
+      const [obj, err] = await this._client.get<{ keyProperty?: string }>(url, options);
+      if (err) {
+        err.setMessage(`failed to get key attribute of ${this.objectApiName}: ${err.message}`);
+        throw err;
+      }
+      if (!obj.keyProperty) {
+        throw new Error(`object ${this.objectApiName} has no key attribute`);
+      }
+      this._keyProperty = obj.keyProperty;
+    }
+    return this._keyProperty;
+  }
+
   /**
    * Get a record from list object using a filter.
    * Example:
@@ -307,15 +605,220 @@ export class listObject {
    * @param lang: optional language value. Allowed inputs are "all" or any language defined in project languages. If no value is passed, then project's default language will be used for returning data
    * @category ListObject
    */
-  public async match<T>(f: Filter, lang?: string): Promise<T> {
-    let filterQueryArg = this.getFilterQuery(f);
+  public async match<T = Rec[]>(f: RecordFilter<Rec>, lang?: string, options?: DataOptions): Promise<T> {
+    const timeZone = contextOf(this._client.config, options).timeZone;
+    return <T><unknown>await this.fetchMatching(this.getFilterQuery(<Filter>f, timeZone), lang, options);
+  }
+
+  /**
+   * Start a query on the records of the list object, see {@link Query}.
+   *
+   * Example:
+   * ```js
+   * let res = await obj.query<Product>()
+   *   .where('price').gte(0)
+   *   .orderBy('name')
+   *   .select(['name', 'price'])
+   *   .limit(50)
+   *   .execute()
+   * ```
+   *
+   * @category ListObject
+   */
+  public query<T = Rec>(): Query<T> {
+    return new Query<T>(this);
+  }
+
+  /**
+   * Time zone of the datetimes of the records, see {@link TwintagConfig.timeZone}.
+   * Pass `timeZone` in the options of a call to use another time zone.
+   */
+  public get timeZone(): string {
+    return this._client.config.timeZone;
+  }
+
+  /**
+   * Fetch the records matching a serialized filter.
+   *
+   * @internal
+   */
+  public async fetchMatching<T>(filterQueryArg: string, lang?: string, options?: DataOptions): Promise<T[]> {
+    return await this.fetchList<T>(this.matchUrl(filterQueryArg, lang), options);
+  }
+
+  /**
+   * Iterate over the records matching a filter. The response is read and decoded page by
+   * page, see {@link PageOptions}. Stopping the iteration early aborts the request.
+   *
+   * Example:
+   * ```js
+   * for await (const rec of obj.iterate({ price: { gte: 10 } }, { pageSize: 500, prefetch: true })) {
+   *   ...
+   * }
+   * ```
+   *
+   * @param f: optional {@link Filter}, all records are returned by default
+   * @param options: page size, prefetching, language and request options
+   * @category ListObject
+   */
+  public iterate<T = Rec>(f?: RecordFilter<Rec>, options?: IterateOptions): AsyncGenerator<T> {
+    const timeZone = contextOf(this._client.config, options).timeZone;
+    return this.iterateMatching<T>(this.getFilterQuery(<Filter>(f ?? {}), timeZone), options?.lang, options);
+  }
+
+  /**
+   * Iterate over the records matching a serialized filter, see {@link iterate}.
+   *
+   * @internal
+   */
+  public iterateMatching<T>(filterQueryArg: string, lang?: string, options?: PageOptions & DataOptions): AsyncGenerator<T> {
+    const url = this.matchUrl(filterQueryArg, lang);
+    const context = contextOf(this._client.config, options);
+    return paginate<T>((pageOptions) => this.openList(url, pageOptions), (page) => this._client.config.codecs.decode(page as T[], context), options);
+  }
+
+  /**
+   * Export the records as CSV or NDJSON. The records are read page by page while the
+   * returned stream is read, so large objects are not loaded into memory.
+   * The first CSV row holds the column names, see {@link DataFormatOptions.columns}.
+   *
+   * Example:
+   * ```js
+   * const file = await Deno.create('products.csv')
+   * await object.exportTo('csv', { delimiter: ';' }).pipeTo(file.writable)
+   * ```
+   *
+   * @category ListObject
+   */
+  public exportTo(format: DataFormat, options?: ExportOptions): ReadableStream<Uint8Array> {
+    checkFormat(format);
+    return textStream(this.exportRows(format, options));
+  }
+
+  private async *exportRows(format: DataFormat, options?: ExportOptions): AsyncGenerator<string> {
+    const columns = exportColumns(await this.attributes(options), options);
+    if (format === 'csv') {
+      yield formatCsvRow(columns.map(c => c.header), options);
+    }
+    const timeZone = contextOf(this._client.config, options).timeZone;
+    const records = this.iterate<any>({}, {
+      pageSize: options?.pageSize ?? 500,
+      lang: options?.lang,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+      timeZone: timeZone,
+    });
+    for await (const record of records) {
+      if (format === 'csv') {
+        yield formatCsvRow(columns.map(c => formatValue(record[c.attribute.apiName], timeZone)), options);
+        continue;
+      }
+      const row: any = {};
+      for (const c of columns) {
+        if (record[c.attribute.apiName] !== undefined) {
+          row[c.header] = record[c.attribute.apiName];
+        }
+      }
+      yield JSON.stringify(row) + '\n';
+    }
+  }
+
+  /**
+   * Import records from CSV or NDJSON. The file is read while the records are inserted in
+   * chunks, so large files are not loaded into memory. Values are converted to the type of
+   * their attribute; rows with invalid values are reported and not imported.
+   * The first CSV row holds the column names, see {@link DataFormatOptions.columns}.
+   *
+   * Example:
+   * ```js
+   * const file = await Deno.open('products.csv')
+   * const report = await object.importFrom(file.readable, 'csv', { columns: { 'Product name': 'name' } })
+   * ```
+   *
+   * @category ListObject
+   */
+  public async importFrom(stream: ReadableStream<Uint8Array>, format: DataFormat, options?: ImportOptions): Promise<ImportReport> {
+    checkFormat(format);
+    const attributes = await this.attributes(options);
+    const chunkSize = Math.max(1, options?.chunkSize ?? 500);
+    const timeZone = contextOf(this._client.config, options).timeZone;
+    const requestOptions: DataOptions = { signal: options?.signal, timeoutMs: options?.timeoutMs, timeZone: timeZone };
+    const report: ImportReport = { imported: 0, rejected: [] };
+
+    let chunk: any[] = [];
+    const flush = async () => {
+      if (chunk.length > 0) {
+        await this.insertInBulk(chunk, requestOptions);
+        report.imported += chunk.length;
+        chunk = [];
+      }
+    };
+
+    let header: (Column | undefined)[] | undefined;
+    const byName = new Map<string, Column | undefined>();
+    let row = 0;
+    for await (const values of format === 'csv' ? parseCsv(stream, options) : parseNdjson(stream)) {
+      if (format === 'csv' && !header) {
+        if (values instanceof RowError) {
+          throw values;
+        }
+        header = importColumns(values as string[], attributes, options);
+        continue;
+      }
+      try {
+        if (values instanceof RowError) {
+          throw values;
+        }
+        let fields: [Column | undefined, unknown][];
+        if (Array.isArray(values)) {
+          const columns = header!;
+          if (values.length > columns.length) {
+            throw new Error(`row has ${values.length} fields, expected ${columns.length}`);
+          }
+          fields = columns.map((c, i) => [c, values[i]]);
+        } else {
+          fields = Object.entries(values).map(([name, value]) => {
+            if (!byName.has(name)) {
+              byName.set(name, importColumns([name], attributes, options)[0]);
+            }
+            return [byName.get(name), value];
+          });
+        }
+        const record: any = {};
+        for (const [c, value] of fields) {
+          const v = c ? coerce(value, c.attribute, timeZone) : undefined;
+          if (v !== undefined) {
+            record[c!.attribute.apiName] = v;
+          }
+        }
+        chunk.push(record);
+      } catch (err) {
+        report.rejected.push({ row: row, error: err as Error });
+      }
+      row++;
+      if (chunk.length >= chunkSize) {
+        await flush();
+      }
+    }
+    await flush();
+    return report;
+  }
+
+  private async attributes(options?: RequestOptions): Promise<Attribute[]> {
+    const object = new StructuredObject('', this._useCaching, this._client);
+    object.apiName = this.objectApiName;
+    object.$schemaScope = this._projectId;
+    return await object.getAttributes(options);
+  }
+
+  private matchUrl(filterQueryArg: string, lang?: string): string {
     let url = '';
 
     if (this._useCaching) {
       if (this.viewId == '') {
-        url = `${environment.cachingHost}/data/${this.objectApiName}?schemaScope=${this._projectId}${filterQueryArg}`;
+        url = `${this._client.config.cachingHost}/data/${this.objectApiName}?schemaScope=${this._projectId}${filterQueryArg}`;
       } else {
-        url = `${environment.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}?${filterQueryArg}`;
+        url = `${this._client.config.cachingHost}/api/v1/views/${this.viewId}/data/${this.objectApiName}?${filterQueryArg}`;
       }
     } else {
       url = this.dataUrl(undefined, filterQueryArg);
@@ -325,19 +828,33 @@ export class listObject {
       }`
       : '';
 
-    const [res, err] = await this._client.get<T>(url);
+    return url;
+  }
+
+  private async openList(url: string, options: RequestOptions): Promise<ReadableStream<Uint8Array>> {
+    const [stream, err] = await this._client.do<ReadableStream<Uint8Array>>(url, { method: 'GET', ...options }, true);
     if (err) {
       err.setMessage('failed to get data');
       throw err;
     }
+    return stream;
+  }
 
-    return Parser.parseSpecialTypes(res);
+  private async fetchList<T>(url: string, options?: DataOptions): Promise<T[]> {
+    const [res, err] = await this._client.get<T[]>(url, options);
+    if (err) {
+      err.setMessage('failed to get data');
+      throw err;
+    }
+
+    return this._client.config.codecs.decode(res, contextOf(this._client.config, options));
   }
 
   public async getFile<T>(
     instanceQID: string,
     fileQID: string,
-    forceDownload: boolean = false
+    forceDownload: boolean = false,
+    options?: RequestOptions
   ): Promise<T> {
     let url = this.dataUrl(instanceQID);
 
@@ -347,7 +864,7 @@ export class listObject {
       url += '?forcedownload=' + forceDownload;
     }
 
-    let [res, err] = await this._client.get<T>(url);
+    let [res, err] = await this._client.get<T>(url, options);
     if (err) {
       err.setMessage(`failed to get data: ${err.message}`);
       throw err;
@@ -359,6 +876,7 @@ export class listObject {
         {
           method: 'get',
           headers: { 'Content-Type': 'application/octet-stream' },
+          ...options,
         },
         true,
         true
@@ -379,70 +897,33 @@ export class listObject {
    *
    * @internal
    */
-  private getFilterQuery(f: Filter): string {
+  private getFilterQuery(f: Filter, timeZone: string): string {
     let filterPredicate = '';
     if (f != null) {
       for (const [objName, objectsData] of Object.entries(f)) {
-        if (typeof objectsData == 'object') {
+        if (objectsData !== null && typeof objectsData == 'object' && !(objectsData instanceof Date)) {
+          // Bounds are checked against undefined, 0 and '' are valid bounds
           let fe: FilterExpression = <FilterExpression>objectsData;
-          filterPredicate += fe.gt
-            ? this.getFilterValue(objName, fe.gt, '>')
+          filterPredicate += fe.gt !== undefined
+            ? filterArg(objName, '>', fe.gt, timeZone)
             : '';
-          filterPredicate += fe.lt
-            ? this.getFilterValue(objName, fe.lt, '<')
+          filterPredicate += fe.lt !== undefined
+            ? filterArg(objName, '<', fe.lt, timeZone)
             : '';
-          filterPredicate += fe.gte
-            ? this.getFilterValue(objName, fe.gte, '>=')
+          filterPredicate += fe.gte !== undefined
+            ? filterArg(objName, '>=', fe.gte, timeZone)
             : '';
-          filterPredicate += fe.lte
-            ? this.getFilterValue(objName, fe.lte, '<=')
+          filterPredicate += fe.lte !== undefined
+            ? filterArg(objName, '<=', fe.lte, timeZone)
             : '';
         } else {
-          filterPredicate += `&filter=${objName}=${encodeURIComponent(this.handleTypes(
-            objectsData
-          ))}`;
+          filterPredicate += filterArg(objName, '=', objectsData, timeZone);
         }
       }
     }
     return filterPredicate;
   }
 
-  /**
-   * Private method to get create filter string.
-   * @param objName
-   * @param input
-   * @param op
-   * @internal
-   */
-  private getFilterValue(objName: string, input: custom, op: string): string {
-    let v = this.handleTypes(input);
-    if (v) {
-      console.log("_________ getfilter ??? ", `&filter=${objName}${op}${encodeURIComponent(v)}`)
-      return `&filter=${objName}${op}${encodeURIComponent(v)}`;
-    }
-    return '';
-  }
-
-  /**
-   * Private method to handle different types.
-   * @param input
-   * @internal
-   */
-  private handleTypes(input: custom): any {
-    switch (typeof input) {
-      case 'string':
-      case 'number': {
-        return input;
-      }
-      default: {
-        if (input instanceof Date) {
-          return input.toISOString().replace('T', '%20').replace('Z', '');
-        }
-        return '';
-      }
-    }
-  }
-
   /**
    * Private method to form the url.
    *
@@ -454,10 +935,10 @@ export class listObject {
     let url = '';
 
     if (this.viewId == '') {
-      url = environment.adminHost + '/api/v1/data/' + this.objectApiName;
+      url = this._client.config.adminHost + '/api/v1/data/' + this.objectApiName;
     } else {
       url =
-        environment.host +
+        this._client.config.host +
         '/api/v1/views/' +
         this.viewId +
         '/data/' +
@@ -478,6 +959,59 @@ export class listObject {
 
 export type custom = string | number | Date;
 
+/**
+ * Options of the key based methods of {@link listObject}.
+ */
+export interface KeyOptions extends DataOptions {
+  /**
+   * Name of the key attribute, by default it is read from the object definition.
+   */
+  keyProperty?: string;
+  /**
+   * Language of the returned records, see {@link listObject.get}.
+   */
+  lang?: string;
+}
+
+/**
+ * Result of {@link listObject.upsert}.
+ */
+export interface UpsertResult<T> {
+  record: T;
+  /**
+   * True when the record was inserted, false when an existing record was updated.
+   */
+  created: boolean;
+}
+
+/**
+ * Result of {@link listObject.upsertMany}.
+ */
+export interface UpsertReport<T> {
+  created: T[];
+  updated: T[];
+  /**
+   * Rows that were not created or updated, with their position in the input.
+   */
+  failed: RowResult<T>[];
+}
+
+/**
+ * Options of {@link listObject.iterate}.
+ */
+export interface IterateOptions extends PageOptions, DataOptions {
+  /**
+   * Language of the returned records, see {@link listObject.get}.
+   */
+  lang?: string;
+}
+
+function checkFormat(format: DataFormat) {
+  if (format !== 'csv' && format !== 'ndjson') {
+    throw new Error(`unsupported format '${format}'`);
+  }
+}
+
 /**
  * Filter input. Key value pair
  */
@@ -485,6 +1019,14 @@ export interface Filter {
   [key: string]: custom | FilterExpression;
 }
 
+/**
+ * Filter on the attributes of a typed record, see {@link listObject}.
+ * Without record type it is a {@link Filter}.
+ */
+export type RecordFilter<T> = 0 extends (1 & T) ? Filter : {
+  [K in keyof T]?: T[K] | FilterExpression;
+};
+
 /**
  * Filter expression
  * gt: greater than
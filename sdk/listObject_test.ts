@@ -0,0 +1,134 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { listObject } from "./listObject.ts";
+import { ForbiddenError } from "./error.model.ts";
+import { withFakeProject } from "./testing.ts";
+
+interface Product {
+  $qid?: string
+  sku: string
+  price: number
+}
+
+describe("listObject", ()=>{
+  const fake = withFakeProject()
+  let products:listObject
+
+  beforeAll(async ()=> {
+    await fake.project.newObject('Product', 'product', true, false, 'sku')
+    products = fake.project.object('product')
+  })
+
+  it("upserts by key" , async () => {
+    const first = await products.upsert<Product>({ sku: 'a', price: 1 })
+    t.assert(first.created)
+    const second = await products.upsert<Product>({ sku: 'a', price: 2 })
+    t.assertEquals(second.created, false)
+    t.assertEquals(second.record.$qid, first.record.$qid)
+  })
+
+  it("gets a record by key" , async () => {
+    const found = await products.getByKey<Product>('a')
+    t.assertEquals(found?.price, 2)
+    t.assertEquals(await products.getByKey('unknown'), null)
+  })
+
+  it("gets a record by id, null when it is not found" , async () => {
+    const found = await products.getByKey<Product>('a')
+    t.assertEquals((await products.get2<Product>(found!.$qid!))?.sku, 'a')
+    t.assertEquals(await products.get2('unknown'), null)
+
+    const denied = new Project(fake.project.apiKey)
+    denied.setTransport(() => Promise.resolve(new Response('{}', { status: 403 })))
+    await t.assertRejects(() => denied.object('product').get2(found!.$qid!), ForbiddenError)
+  })
+
+  it("reports created and updated records" , async () => {
+    const report = await products.upsertMany<Product>([
+      { sku: 'a', price: 3 },
+      { sku: 'b', price: 4 },
+      { sku: 'c', price: 5 },
+    ])
+    t.assertEquals(report.created.map(p => p.sku), ['b', 'c'])
+    t.assertEquals(report.updated.map(p => p.sku), ['a'])
+    t.assertEquals((await products.getByKey<Product>('a'))?.price, 3)
+  })
+
+  it("looks up only the keys of the batch" , async () => {
+    let reads: string[] | undefined = []
+    fake.project.use({
+      beforeRequest: (request) => {
+        if (request.method === 'GET') {
+          reads?.push(decodeURIComponent(request.url))
+        }
+      },
+    })
+    const report = await products.upsertMany<Product>([{ sku: 'b', price: 6 }, { sku: 'e', price: 7 }], { chunkSize: 1 })
+    const lookups = reads
+    reads = undefined
+    t.assertEquals([report.created.map(p => p.sku), report.updated.map(p => p.sku)], [['e'], ['b']])
+    t.assertEquals(lookups.filter(url => url.includes('/data/product')).map(url => url.slice(url.indexOf('filter='))), ['filter=sku=b', 'filter=sku=e'])
+  })
+
+  it("reports failing rows of upserts" , async () => {
+    const failing = new Project(fake.project.apiKey)
+    let emptyBulk = false
+    failing.use({
+      afterResponse: (request) => {
+        if (request.method !== 'PUT') {
+          return
+        }
+        if (!request.url.endsWith('/import')) {
+          return new Response('{}', { status: 409 })
+        }
+        if (emptyBulk) {
+          return new Response('[]')
+        }
+      },
+    })
+    const upserts = failing.object('product')
+
+    const report = await upserts.upsertMany<Product>([{ sku: 'a', price: 8 }, { sku: 'f', price: 9 }])
+    t.assertEquals(report.created.map(p => p.sku), ['f'])
+    t.assertEquals(report.updated, [])
+    t.assertEquals(report.failed.map(r => [r.index, r.error?.name]), [[0, 'ConflictError']])
+
+    emptyBulk = true
+    const mismatch = await upserts.upsertMany<Product>([{ sku: 'g', price: 1 }, { sku: 'h', price: 2 }])
+    t.assertEquals(mismatch.created, [])
+    t.assertEquals(mismatch.failed.map(r => r.index), [0, 1])
+    t.assertStringIncludes(mismatch.failed[0].error!.message, 'returned 0 records for 2 rows')
+  })
+
+    it("rejects duplicate and missing keys" , async () => {
+    await t.assertRejects(() => products.upsertMany<Product>([{ sku: 'd', price: 1 }, { sku: 'd', price: 2 }]))
+    await t.assertRejects(() => products.upsert({ price: 1 }))
+  })
+
+  it("updates many records and reports failing rows" , async () => {
+    const [a, b] = await Promise.all(['a', 'b'].map(sku => products.getByKey<Product>(sku)))
+    const report = await products.updateMany<Product>([
+      { $qid: a!.$qid, sku: 'a', price: 10 },
+      { $qid: 'unknown', sku: 'x', price: 0 },
+      { $qid: b!.$qid, sku: 'b', price: 11 },
+    ], { chunkSize: 2, concurrency: 2 })
+    t.assertEquals(report.succeeded, 2)
+    t.assertEquals(report.failed.map(r => r.index), [1])
+    t.assertEquals(report.results.map(r => r.ok), [true, false, true])
+    t.assertEquals((await products.getByKey<Product>('b'))?.price, 11)
+  })
+
+  it("deletes many records by id and by filter" , async () => {
+    const c = await products.getByKey<Product>('c')
+    const byId = await products.deleteMany([c!.$qid!, 'unknown'], '', { chunkSize: 1 })
+    t.assertEquals(byId.results.map(r => r.ok), [true, false])
+    t.assertEquals(byId.results[0].value, c!.$qid)
+
+    const byFilter = await products.deleteMany({ price: { gte: 10 } })
+    t.assertEquals(byFilter.succeeded, 2)
+    t.assertEquals(await products.getByKey('a'), null)
+    t.assertEquals(await products.getByKey('b'), null)
+  })
+
+})
@@ -0,0 +1,104 @@
+/**
+ * Structured fields attached to a log entry.
+ */
+export interface LogFields {
+    method?: string
+    url?: string
+    status?: number
+    durationMs?: number
+    requestId?: string
+    bytes?: number
+    attempt?: number
+    headers?: Record<string, string>
+    body?: string
+    error?: string
+    [key: string]: unknown
+}
+
+/**
+ * Logger receives the request logs of the client. Plug in your own to forward
+ * them to the logging library of your application.
+ *
+ * Which entries are produced depends on the log level:
+ * * single: an info entry per response, a warn entry per retry and an error entry per failure
+ * * headers: same as single, plus a debug entry per request; entries carry the headers
+ * * body: same as headers, entries also carry JSON bodies
+ *
+ * Urls and headers are redacted before they are passed to the logger.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void
+    info(message: string, fields?: LogFields): void
+    warn(message: string, fields?: LogFields): void
+    error(message: string, fields?: LogFields): void
+}
+
+/**
+ * JsonLinesLogger writes every entry as a single JSON line, e.g.:
+ * ```
+ * {"time":"2022-12-03T10:00:00.000Z","level":"info","msg":"response","method":"GET","url":"https://twintag.io/api/v1/views/x","status":200,"durationMs":42}
+ * ```
+ */
+export class JsonLinesLogger implements Logger {
+    constructor(private write: (line: string) => void = (line) => console.log(line)) {}
+
+    debug(message: string, fields?: LogFields) { this.log('debug', message, fields) }
+    info(message: string, fields?: LogFields) { this.log('info', message, fields) }
+    warn(message: string, fields?: LogFields) { this.log('warn', message, fields) }
+    error(message: string, fields?: LogFields) { this.log('error', message, fields) }
+
+    private log(level: string, message: string, fields?: LogFields) {
+        this.write(JSON.stringify({ time: new Date().toISOString(), level: level, msg: message, ...fields }))
+    }
+}
+
+const redacted = 'REDACTED'
+
+const sensitiveHeaders = ['authorization', 'cookie', 'set-cookie', 'x-amz-security-token']
+
+// Query parameters that make up a signed url or carry a session
+const sensitiveParams = [
+    'x-amz-signature', 'x-amz-credential', 'x-amz-security-token',
+    'signature', 'sig', 'key-pair-id', 'policy', 'token', 'uploadsession',
+]
+
+/**
+ * Replace the values of signature and token query parameters.
+ *
+ * @internal
+ */
+export function redactUrl(url: string): string {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch (_) {
+        return url
+    }
+    let changed = false
+    for (const key of [...parsed.searchParams.keys()]) {
+        if (sensitiveParams.includes(key.toLowerCase())) {
+            parsed.searchParams.set(key, redacted)
+            changed = true
+        }
+    }
+    return changed ? parsed.toString() : url
+}
+
+/**
+ * Copy headers into a plain object, replacing credentials.
+ *
+ * @internal
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const [key, value] of headers) {
+        if (!sensitiveHeaders.includes(key)) {
+            result[key] = value
+        } else if (key === 'authorization' && value.startsWith('Bearer ')) {
+            result[key] = `Bearer ${redacted}`
+        } else {
+            result[key] = redacted
+        }
+    }
+    return result
+}
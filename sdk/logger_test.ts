@@ -0,0 +1,68 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { JsonLinesLogger, LogFields, Logger, redactHeaders, redactUrl } from "./logger.ts";
+import { Client } from "./client.ts";
+import { environment } from "./environment.ts";
+
+class MemoryLogger implements Logger {
+  entries: [string, string, LogFields|undefined][] = []
+  debug(message: string, fields?: LogFields) { this.entries.push(['debug', message, fields]) }
+  info(message: string, fields?: LogFields) { this.entries.push(['info', message, fields]) }
+  warn(message: string, fields?: LogFields) { this.entries.push(['warn', message, fields]) }
+  error(message: string, fields?: LogFields) { this.entries.push(['error', message, fields]) }
+}
+
+describe("Logger", ()=>{
+
+  it("redacts signed url parameters" , () => {
+    const url = 'https://bucket.s3.amazonaws.com/file?X-Amz-Credential=abc&X-Amz-Signature=def&partNumber=1'
+    const redacted = redactUrl(url)
+    t.assertEquals(redacted.includes('abc'), false)
+    t.assertEquals(redacted.includes('def'), false)
+    t.assertStringIncludes(redacted, 'partNumber=1')
+    t.assertEquals(redactUrl('https://twintag.io/api/v1/views/x'), 'https://twintag.io/api/v1/views/x')
+  })
+
+  it("redacts the authorization header" , () => {
+    const headers = redactHeaders(new Headers({ 'Authorization': 'Bearer secret', 'Content-Type': 'application/json' }))
+    t.assertEquals(headers['authorization'], 'Bearer REDACTED')
+    t.assertEquals(headers['content-type'], 'application/json')
+  })
+
+  it("writes json lines" , () => {
+    const lines: string[] = []
+    new JsonLinesLogger((line) => lines.push(line)).info('response', { status: 200 })
+    const entry = JSON.parse(lines[0])
+    t.assertEquals(entry.level, 'info')
+    t.assertEquals(entry.msg, 'response')
+    t.assertEquals(entry.status, 200)
+  })
+
+  it("logs requests and responses of the client" , async () => {
+    const logger = new MemoryLogger()
+    const config = environment.derive({ logLevel: 'body', logger: logger })
+    const client = new Client('secret', config)
+    client.transport = () => Promise.resolve(new Response('{"a":1}', { headers: { 'X-Request-Id': 'req-1' } }))
+
+    await client.post('https://twintag.io/api/v1/data', { b: 2 })
+
+    t.assertEquals(logger.entries.map(e => e[0]), ['debug', 'info'])
+    const [, , request] = logger.entries[0]
+    t.assertEquals(request?.body, '{"b":2}')
+    t.assertEquals(request?.headers?.['authorization'], 'Bearer REDACTED')
+    const [, , response] = logger.entries[1]
+    t.assertEquals(response?.status, 200)
+    t.assertEquals(response?.requestId, 'req-1')
+    t.assertEquals(response?.bytes, 7)
+    t.assertEquals(response?.body, '{"a":1}')
+  })
+
+  it("logs nothing at level none" , async () => {
+    const logger = new MemoryLogger()
+    const client = new Client('secret', environment.derive({ logLevel: 'none', logger: logger }))
+    client.transport = () => Promise.resolve(new Response('{}'))
+    await client.get('https://twintag.io/api/v1/data')
+    t.assertEquals(logger.entries.length, 0)
+  })
+
+})
@@ -0,0 +1,81 @@
+/**
+ * A transport sends a request and returns the response. The default transport is the global `fetch`.
+ * Replace it to route requests through a proxy, a cache or a test double.
+ *
+ * Errors thrown by the transport are retried as network errors, unless they are a
+ * `FinalTransportError`.
+ */
+export type Transport = (request: Request) => Promise<Response>
+
+/**
+ * Middleware hooks into every request made by the client, including retried attempts.
+ *
+ * Hooks run in registration order for `beforeRequest`, and in reverse order for
+ * `afterResponse` and `onError`, so the first registered middleware wraps all others.
+ * Environment middleware runs before (wraps) project and view middleware.
+ *
+ * Example:
+ * ```js
+ * project.use({
+ *   beforeRequest: (req) => {
+ *     req.headers.set('X-Correlation-Id', crypto.randomUUID())
+ *   },
+ * })
+ * ```
+ */
+export interface Middleware {
+    /**
+     * Called before the request is sent. Modify the request in place or return a replacement.
+     */
+    beforeRequest?(request: Request): Request | void | Promise<Request | void>
+    /**
+     * Called with every response, successful or not. Return a replacement to change the response.
+     */
+    afterResponse?(request: Request, response: Response): Response | void | Promise<Response | void>
+    /**
+     * Called when the transport fails without a response. Return a response to recover,
+     * otherwise the error is passed on to the next middleware and finally to the caller.
+     */
+    onError?(request: Request, error: unknown): Response | void | Promise<Response | void>
+}
+
+/**
+ * Send a request through the middleware chain and the transport.
+ *
+ * @internal
+ */
+export async function exchange(request: Request, middleware: Middleware[], transport: Transport): Promise<Response> {
+    for (const mw of middleware) {
+        if (mw.beforeRequest) {
+            const replacement = (await mw.beforeRequest(request)) ?? request
+            // A replacement keeps the signal, so the request can still be aborted
+            request = replacement.signal === request.signal ? replacement : new Request(replacement, { signal: request.signal })
+        }
+    }
+
+    let response: Response
+    try {
+        response = await transport(request)
+    } catch (err) {
+        let recovered: Response | undefined
+        for (const mw of [...middleware].reverse()) {
+            if (mw.onError) {
+                recovered = (await mw.onError(request, err)) ?? undefined
+                if (recovered) {
+                    break
+                }
+            }
+        }
+        if (!recovered) {
+            throw err
+        }
+        response = recovered
+    }
+
+    for (const mw of [...middleware].reverse()) {
+        if (mw.afterResponse) {
+            response = (await mw.afterResponse(request, response)) ?? response
+        }
+    }
+    return response
+}
@@ -0,0 +1,113 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { exchange, Middleware, Transport } from "./middleware.ts";
+import { Project } from "./project.ts";
+import { View } from "./view.ts";
+import { withFakeProject } from "./testing.ts";
+
+describe("Middleware", ()=>{
+  const echo: Transport = (req) => Promise.resolve(new Response(req.headers.get('X-Trace') ?? ''))
+
+  it("runs beforeRequest in order and afterResponse in reverse order" , async () => {
+    const calls: string[] = []
+    const mw = (name:string): Middleware => ({
+      beforeRequest: (req) => {
+        calls.push(`before ${name}`)
+        req.headers.set('X-Trace', (req.headers.get('X-Trace') ?? '') + name)
+      },
+      afterResponse: () => { calls.push(`after ${name}`) },
+    })
+    const rsp = await exchange(new Request('https://twintag.io/x'), [mw('a'), mw('b')], echo)
+    t.assertEquals(await rsp.text(), 'ab')
+    t.assertEquals(calls, ['before a', 'before b', 'after b', 'after a'])
+  })
+
+  it("replaces requests and responses" , async () => {
+    const rsp = await exchange(new Request('https://twintag.io/x'), [{
+      beforeRequest: (req) => new Request(req.url, { headers: { 'X-Trace': 'replaced' } }),
+      afterResponse: async (_, rsp) => new Response((await rsp.text()).toUpperCase()),
+    }], echo)
+    t.assertEquals(await rsp.text(), 'REPLACED')
+  })
+
+  it("keeps the signal of replaced requests" , async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const aborted: Transport = (req) => Promise.resolve(new Response(`${req.signal.aborted}`))
+    const rsp = await exchange(new Request('https://twintag.io/x', { signal: controller.signal }), [{
+      beforeRequest: (req) => new Request(req.url, { headers: { 'X-Trace': 'replaced' } }),
+    }], aborted)
+    t.assertEquals(await rsp.text(), 'true')
+  })
+
+  it("recovers from transport errors in onError" , async () => {
+    const failing: Transport = () => Promise.reject(new TypeError('offline'))
+    const rsp = await exchange(new Request('https://twintag.io/x'), [{
+      onError: () => new Response('cached'),
+    }], failing)
+    t.assertEquals(await rsp.text(), 'cached')
+  })
+
+  it("passes on transport errors that are not handled" , async () => {
+    const failing: Transport = () => Promise.reject(new TypeError('offline'))
+    await t.assertRejects(() => exchange(new Request('https://twintag.io/x'), [{}], failing), TypeError)
+  })
+
+})
+
+describe("Project and view middleware", ()=>{
+  const fake = withFakeProject()
+  let view:View
+
+  beforeAll(async ()=> {
+    view = await fake.project.createBag()
+  })
+
+  const recorder = (calls: string[], name: string): Middleware => ({
+    beforeRequest: (req) => { calls.push(`${name} ${req.method}`) },
+  })
+
+  it("runs project middleware for the project and its views" , async () => {
+    const calls: string[] = []
+    const p = new Project(fake.project.apiKey)
+    p.use(recorder(calls, 'project'))
+    await p.getBags()
+    await p.getView(view.qid).data()
+    t.assertEquals(calls, ['project GET', 'project GET'])
+  })
+
+  it("runs view middleware after project middleware, for the view only" , async () => {
+    const calls: string[] = []
+    const p = new Project(fake.project.apiKey)
+    p.use(recorder(calls, 'project'))
+    const v = p.getView(view.qid)
+    v.use(recorder(calls, 'view'))
+    await v.data()
+    t.assertEquals(calls, ['project GET', 'view GET'])
+    await p.getBags()
+    t.assertEquals(calls, ['project GET', 'view GET', 'project GET'])
+  })
+
+  it("routes requests to the transport of the project or the view" , async () => {
+    const urls: string[] = []
+    const transport: Transport = (req) => {
+      urls.push(`${req.method} ${new URL(req.url).pathname}`)
+      return Promise.resolve(new Response('[]'))
+    }
+    const p = new Project(fake.project.apiKey)
+    const v = p.getView(view.qid)
+    v.setTransport(transport)
+    await v.data()
+    await p.getBags()
+    t.assertEquals(urls, [`GET /api/v1/views/${view.qid}`])
+
+    p.setTransport(transport)
+    t.assertEquals(await p.getBags(), [])
+    t.assertEquals(urls.slice(1), ['GET /api/v1/twintags'])
+
+    p.setTransport(undefined)
+    t.assert((await p.getBags()).length > 0)
+    t.assertEquals(urls.length, 2)
+  })
+
+})
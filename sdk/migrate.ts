@@ -0,0 +1,393 @@
+import { RequestOptions } from './abort.ts';
+import type { Access, Project } from './project.ts';
+import { AttributeType } from './structuredObject.ts';
+import { BatchOptions } from './batch.ts';
+import { NotFoundError } from './error.model.ts';
+
+/**
+ * A schema migration. Migrations run in ascending order of version, see {@link Migrator}.
+ *
+ * Example, in `migrations/003_add_stock.ts`:
+ * ```js
+ * export default {
+ *   async up(m) {
+ *     await m.addAttribute('product', 'stock', 'number')
+ *     await m.backfill('product', () => ({ stock: 0 }))
+ *   },
+ *   async down(m) {
+ *     await m.deleteAttribute('product', 'stock')
+ *   },
+ * }
+ * ```
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(m: MigrationContext): Promise<void>;
+  /**
+   * Revert the changes of {@link up}. A migration without down cannot be rolled back.
+   */
+  down?(m: MigrationContext): Promise<void>;
+}
+
+/**
+ * Options of {@link Migrator}.
+ */
+export interface MigratorOptions {
+  /**
+   * apiName of the list object recording the applied migrations, `schemaMigration` by default.
+   * It is created on the first run.
+   */
+  stateObject?: string;
+}
+
+/**
+ * Options of {@link Migrator.up} and {@link Migrator.down}.
+ */
+export interface MigrateOptions extends RequestOptions {
+  /**
+   * Version to migrate to. By default up applies all pending migrations and down
+   * rolls back the last applied one.
+   */
+  to?: number;
+  /**
+   * Report the steps of the migrations without applying them.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * State of a migration, see {@link Migrator.status}.
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: Date;
+}
+
+/**
+ * Migration that ran, or would run in a dry run, with the steps it took.
+ */
+export interface MigrationResult {
+  version: number;
+  name: string;
+  direction: 'up' | 'down';
+  steps: string[];
+}
+
+/**
+ * Raised when a migration fails. The migration is not recorded as applied, the steps
+ * it already took are not reverted.
+ */
+export class MigrationError extends Error {
+  constructor(readonly version: number, readonly steps: string[], cause: unknown) {
+    super(`migration ${version} failed after ${steps.length} steps: ${(cause as Error)?.message ?? cause}`);
+    this.name = 'MigrationError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Typed helpers passed to a migration. Every helper records a step and, unless the
+ * migration is a dry run, applies it. Changes made through {@link project} directly are
+ * not part of the dry run.
+ */
+export class MigrationContext {
+  readonly steps: string[] = [];
+
+  /**
+   * @internal
+   */
+  constructor(readonly project: Project, readonly dryRun: boolean, private options?: RequestOptions) {}
+
+  async createObject(
+    name: string,
+    apiName: string,
+    options?: { isList?: boolean; isGlobal?: boolean; keyProperty?: string; access?: Access },
+  ): Promise<void> {
+    await this.step(`create object ${apiName}`, async () => {
+      await this.project.newObject(name, apiName, options?.isList, options?.isGlobal, options?.keyProperty, options?.access, this.options);
+    });
+  }
+
+  async deleteObject(apiName: string): Promise<void> {
+    await this.step(`delete object ${apiName}`, async () => {
+      await this.project.deleteObject(apiName, this.options);
+    });
+  }
+
+  async renameObject(apiName: string, name: string): Promise<void> {
+    await this.step(`rename object ${apiName} to '${name}'`, async () => {
+      await (await this.project.getObject(apiName, this.options)).rename(name, this.options);
+    });
+  }
+
+  async changeKey(object: string, attribute: string): Promise<void> {
+    await this.step(`change key of ${object} to ${attribute}`, async () => {
+      await (await this.project.getObject(object, this.options)).updateKeyAttribute(attribute, this.options);
+    });
+  }
+
+  async changeAccess(object: string, access: Access): Promise<void> {
+    await this.step(`change access of ${object}`, async () => {
+      await (await this.project.getObject(object, this.options)).updateAccess(access, this.options);
+    });
+  }
+
+  /**
+   * Add an attribute, see {@link StructuredObject.newAttribute}.
+   */
+  async addAttribute(object: string, name: string, type: `${AttributeType}` = 'string', positionBefore?: string): Promise<void> {
+    await this.step(`add attribute ${object}.${name} (${type})`, async () => {
+      await (await this.project.getObject(object, this.options)).newAttribute(name, type, positionBefore, this.options);
+    });
+  }
+
+  async deleteAttribute(object: string, apiName: string): Promise<void> {
+    await this.step(`delete attribute ${object}.${apiName}`, async () => {
+      await (await this.project.getObject(object, this.options)).deleteAttribute(apiName, this.options);
+    });
+  }
+
+  /**
+   * Change the name of an attribute, and optionally its apiName.
+   */
+  async renameAttribute(object: string, apiName: string, name: string, newApiName?: string): Promise<void> {
+    await this.step(`rename attribute ${object}.${apiName} to '${name}'${newApiName ? ` (${newApiName})` : ''}`, async () => {
+      const structured = await this.project.getObject(object, this.options);
+      const attribute = (await structured.getAttributes(this.options)).find(a => a.apiName === apiName);
+      if (!attribute) {
+        throw new Error(`attribute ${object}.${apiName} not found`);
+      }
+      await structured.updateAttribute({ ...attribute, name: name, apiName: newApiName ?? apiName }, this.options);
+    });
+  }
+
+  async addTranslation(object: string, attribute: string, language: string, name: string): Promise<void> {
+    await this.step(`add ${language} translation of ${object}.${attribute}`, async () => {
+      const structured = await this.project.getObject(object, this.options);
+      const [created] = await structured.addTranslationAttribute({ [language]: name }, attribute, this.options);
+      if (!created) {
+        throw new Error(`failed to add ${language} translation of ${object}.${attribute}`);
+      }
+    });
+  }
+
+  /**
+   * Update the records of a list object. `update` returns the changed attributes of a
+   * record, or undefined to leave it unchanged. In a dry run the records are read and
+   * counted, not updated.
+   */
+  async backfill<T = Record<string, unknown>>(
+    object: string,
+    update: (record: T) => Partial<T> | undefined | Promise<Partial<T> | undefined>,
+    options?: BatchOptions,
+  ): Promise<void> {
+    const list = this.project.object(object);
+    const requestOptions = { signal: options?.signal ?? this.options?.signal, timeoutMs: options?.timeoutMs ?? this.options?.timeoutMs };
+    const chunkSize = options?.chunkSize ?? 500;
+    let changes: (Partial<T> & { $qid: string })[] = [];
+    let count = 0;
+    const flush = async () => {
+      if (changes.length > 0 && !this.dryRun) {
+        const report = await list.updateMany(changes, { ...options, ...requestOptions });
+        if (report.failed.length > 0) {
+          throw new Error(`failed to update ${report.failed.length} records of ${object}: ${report.failed[0].error?.message}`);
+        }
+      }
+      changes = [];
+    };
+
+    for await (const record of list.iterate<T & { $qid: string }>({}, { pageSize: chunkSize, ...requestOptions })) {
+      const change = await update(record);
+      if (change && Object.keys(change).length > 0) {
+        changes.push({ ...change, $qid: record.$qid });
+        count++;
+      }
+      if (changes.length >= chunkSize) {
+        await flush();
+      }
+    }
+    await flush();
+    this.steps.push(`backfill ${count} records of ${object}`);
+  }
+
+  private async step(description: string, apply: () => Promise<void>): Promise<void> {
+    if (!this.dryRun) {
+      await apply();
+    }
+    this.steps.push(description);
+  }
+}
+
+/**
+ * Migrator applies and rolls back schema migrations on a project, and records the applied
+ * migrations in a list object of the project.
+ *
+ * Example:
+ * ```js
+ * const migrator = new Migrator(project, await loadMigrations('./migrations'))
+ * const plan = await migrator.up({ dryRun: true })
+ * await migrator.up()
+ * await migrator.down()
+ * ```
+ */
+export class Migrator {
+  private stateObject: string;
+
+  constructor(readonly project: Project, readonly migrations: Migration[], options?: MigratorOptions) {
+    this.stateObject = options?.stateObject ?? 'schemaMigration';
+    const versions = new Set<number>();
+    for (const migration of migrations) {
+      if (versions.has(migration.version)) {
+        throw new Error(`duplicate migration version ${migration.version}`);
+      }
+      versions.add(migration.version);
+    }
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * The migrations with the time they were applied, including applied migrations
+   * that are not known to this migrator.
+   */
+  async status(options?: RequestOptions): Promise<MigrationStatus[]> {
+    const applied = await this.applied(options);
+    const result: MigrationStatus[] = this.migrations.map(m => ({ version: m.version, name: m.name, appliedAt: applied.get(m.version)?.appliedAt }));
+    for (const [version, record] of applied) {
+      if (!this.migrations.some(m => m.version === version)) {
+        result.push({ version: version, name: record.name, appliedAt: record.appliedAt });
+      }
+    }
+    return result.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply the pending migrations up to and including `to`, in ascending order.
+   */
+  async up(options?: MigrateOptions): Promise<MigrationResult[]> {
+    const applied = await this.applied(options);
+    const pending = this.migrations.filter(m => !applied.has(m.version) && (options?.to === undefined || m.version <= options.to));
+    const results: MigrationResult[] = [];
+    let stateObject = applied.size > 0;
+    for (const migration of pending) {
+      const steps = await this.run(migration, 'up', options);
+      if (!options?.dryRun) {
+        if (!stateObject) {
+          await this.createStateObject(options);
+          stateObject = true;
+        }
+        await this.project.object(this.stateObject).insert({ version: migration.version, name: migration.name, appliedAt: new Date() }, options);
+      }
+      results.push({ version: migration.version, name: migration.name, direction: 'up', steps: steps });
+    }
+    return results;
+  }
+
+  /**
+   * Roll back the applied migrations after `to`, in descending order. Without `to`
+   * the last applied migration is rolled back.
+   */
+  async down(options?: MigrateOptions): Promise<MigrationResult[]> {
+    const applied = await this.applied(options);
+    const versions = [...applied.keys()].sort((a, b) => b - a);
+    const rollback = options?.to === undefined ? versions.slice(0, 1) : versions.filter(v => v > options.to!);
+
+    const migrations = rollback.map(version => {
+      const migration = this.migrations.find(m => m.version === version);
+      if (!migration) {
+        throw new Error(`migration ${version} is applied but unknown`);
+      }
+      if (!migration.down) {
+        throw new Error(`migration ${version} cannot be rolled back`);
+      }
+      return migration;
+    });
+
+    const results: MigrationResult[] = [];
+    for (const migration of migrations) {
+      const steps = await this.run(migration, 'down', options);
+      if (!options?.dryRun) {
+        await this.project.object(this.stateObject).delete(applied.get(migration.version)!.$qid, '', options);
+      }
+      results.push({ version: migration.version, name: migration.name, direction: 'down', steps: steps });
+    }
+    return results;
+  }
+
+  private async run(migration: Migration, direction: 'up' | 'down', options?: MigrateOptions): Promise<string[]> {
+    const context = new MigrationContext(this.project, options?.dryRun ?? false, options);
+    try {
+      await (direction === 'up' ? migration.up(context) : migration.down!(context));
+    } catch (err) {
+      throw new MigrationError(migration.version, context.steps, err);
+    }
+    return context.steps;
+  }
+
+  /**
+   * Read the applied migrations, none when the state object does not exist yet.
+   */
+  private async applied(options?: RequestOptions): Promise<Map<number, { $qid: string; name: string; appliedAt?: Date }>> {
+    const result = new Map<number, { $qid: string; name: string; appliedAt?: Date }>();
+    if (!await this.hasStateObject(options)) {
+      return result;
+    }
+    const state = this.project.object(this.stateObject);
+    for await (const record of state.iterate<{ $qid: string; version: number; name: string; appliedAt?: string | Date }>({}, { pageSize: 1000, ...options })) {
+      result.set(Number(record.version), {
+        $qid: record.$qid,
+        name: record.name,
+        appliedAt: record.appliedAt ? new Date(record.appliedAt) : undefined,
+      });
+    }
+    return result;
+  }
+
+  private async hasStateObject(options?: RequestOptions): Promise<boolean> {
+    try {
+      await this.project.getObject(this.stateObject, options);
+      return true;
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  // Created on the first applied migration, so status checks and dry runs do not change the schema
+  private async createStateObject(options?: RequestOptions): Promise<void> {
+    if (await this.hasStateObject(options)) {
+      return;
+    }
+    const object = await this.project.newObject('Schema migration', this.stateObject, true, false, 'version', undefined, options);
+    await object.newAttribute('name', 'string', undefined, options);
+    await object.newAttribute('appliedAt', 'datetime', undefined, options);
+  }
+}
+
+/**
+ * Load the migrations of a directory. Files are named `<version>_<name>.ts` or `.js`,
+ * e.g. `003_add_stock.ts`, and export the migration as default export, see {@link Migration}.
+ */
+export async function loadMigrations(dir: string | URL): Promise<Migration[]> {
+  const base = typeof dir === 'string'
+    ? new URL(`file://${Deno.realPathSync(dir).replace(/\\/g, '/').replace(/^([A-Za-z]):/, '/$1:')}/`)
+    : new URL(dir.href.endsWith('/') ? dir.href : `${dir.href}/`);
+
+  const migrations: Migration[] = [];
+  for await (const entry of Deno.readDir(base)) {
+    const match = entry.isFile ? /^(\d+)_(.+)\.[jt]s$/.exec(entry.name) : null;
+    if (!match) {
+      continue;
+    }
+    const module = await import(new URL(entry.name, base).href);
+    const migration = module.default ?? module;
+    if (typeof migration.up !== 'function') {
+      throw new Error(`migration ${entry.name} has no up function`);
+    }
+    migrations.push({ version: Number(match[1]), name: migration.name ?? match[2], up: migration.up, down: migration.down });
+  }
+  return migrations.sort((a, b) => a.version - b.version);
+}
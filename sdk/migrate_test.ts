@@ -0,0 +1,94 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Migration, MigrationError, Migrator, loadMigrations } from "./migrate.ts";
+import { withFakeProject } from "./testing.ts";
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create product',
+    async up(m) {
+      await m.createObject('Product', 'product', { isList: true, keyProperty: 'sku' })
+      await m.addAttribute('product', 'price', 'number')
+    },
+    async down(m) {
+      await m.deleteObject('product')
+    },
+  },
+  {
+    version: 2,
+    name: 'add stock',
+    async up(m) {
+      await m.addAttribute('product', 'stock', 'number')
+      await m.backfill<{ price: number, stock?: number }>('product', p => p.price > 0 ? { stock: 1 } : undefined)
+    },
+    async down(m) {
+      await m.deleteAttribute('product', 'stock')
+    },
+  },
+]
+
+describe("Migrator", ()=>{
+  const fake = withFakeProject()
+
+  it("reports the steps of a dry run without applying them" , async () => {
+    const objects = (await fake.project.getObjects()).map(o => o.apiName)
+    const migrator = new Migrator(fake.project, migrations.slice(0, 1))
+    const results = await migrator.up({ dryRun: true })
+    t.assertEquals(results, [{ version: 1, name: 'create product', direction: 'up', steps: ['create object product', 'add attribute product.price (number)'] }])
+    await t.assertRejects(() => fake.project.getObject('product'))
+    t.assertEquals((await migrator.status()).map(s => s.appliedAt), [undefined])
+    t.assertEquals(await migrator.down({ dryRun: true }), [])
+    t.assertEquals((await fake.project.getObjects()).map(o => o.apiName), objects)
+  })
+
+  it("applies pending migrations and records them" , async () => {
+    await new Migrator(fake.project, migrations.slice(0, 1)).up()
+    await fake.project.object('product').insertInBulk([{ sku: 'a', price: 1 }, { sku: 'b', price: 0 }])
+
+    const migrator = new Migrator(fake.project, migrations)
+    const results = await migrator.up()
+    t.assertEquals(results.map(r => r.version), [2])
+    t.assertEquals(results[0].steps, ['add attribute product.stock (number)', 'backfill 1 records of product'])
+    t.assertEquals((await fake.project.object('product').getByKey<{ stock?: number }>('a'))?.stock, 1)
+
+    const status = await migrator.status()
+    t.assertEquals(status.map(s => s.appliedAt !== undefined), [true, true])
+    t.assertEquals(await migrator.up(), [])
+  })
+
+  it("rolls back" , async () => {
+    const migrator = new Migrator(fake.project, migrations)
+    t.assertEquals((await migrator.down()).map(r => r.version), [2])
+    const attributes = await (await fake.project.getObject('product')).getAttributes()
+    t.assertEquals(attributes.some(a => a.apiName === 'stock'), false)
+
+    t.assertEquals((await migrator.down({ to: 0 })).map(r => r.version), [1])
+    t.assertEquals((await migrator.status()).map(s => s.appliedAt), [undefined, undefined])
+  })
+
+  it("does not record a failing migration" , async () => {
+    const migrator = new Migrator(fake.project, [{ version: 1, name: 'broken', async up(m) {
+      await m.createObject('Broken', 'broken', { isList: true })
+      await m.addAttribute('unknown', 'x')
+    } }])
+    const err = await t.assertRejects(() => migrator.up(), MigrationError)
+    t.assertEquals((err as MigrationError).steps, ['create object broken'])
+    t.assertEquals((await migrator.status())[0].appliedAt, undefined)
+    t.assertEquals(await migrator.down(), [])
+  })
+
+  it("loads numbered migration files" , async () => {
+    const dir = await Deno.makeTempDir()
+    try {
+      await Deno.writeTextFile(`${dir}/002_second.ts`, 'export default { async up() {} }')
+      await Deno.writeTextFile(`${dir}/001_first.js`, 'export async function up() {}\nexport async function down() {}')
+      await Deno.writeTextFile(`${dir}/README.md`, '')
+      const loaded = await loadMigrations(dir)
+      t.assertEquals(loaded.map(m => [m.version, m.name, m.down !== undefined]), [[1, 'first', true], [2, 'second', false]])
+    } finally {
+      await Deno.remove(dir, { recursive: true })
+    }
+  })
+
+})
@@ -0,0 +1,186 @@
+import { RequestOptions } from './abort.ts';
+
+/**
+ * Options of the iterators over records, bags and metadata.
+ */
+export interface PageOptions extends RequestOptions {
+    /**
+     * Number of items parsed and decoded at a time, 100 by default.
+     */
+    pageSize?: number
+    /**
+     * Parse the next page while the items of the current page are consumed.
+     */
+    prefetch?: boolean
+}
+
+/**
+ * Send the request of a list and return the response body, a JSON array.
+ *
+ * @internal
+ */
+export type ListOpener = (options: RequestOptions) => Promise<ReadableStream<Uint8Array>>
+
+/**
+ * Iterate over the items of a list.
+ *
+ * The API returns a list as one JSON array, like {@link Project.getBags} and
+ * {@link listObject.match} read it. The array is parsed while it is received and its items
+ * are decoded one page at a time, so the whole list is never held in memory.
+ *
+ * Breaking out of the iteration, or aborting the signal, aborts the request.
+ *
+ * @internal
+ */
+export async function* paginate<T>(open: ListOpener, decode: (page: unknown[]) => T[], options?: PageOptions): AsyncGenerator<T> {
+    const pageSize = options?.pageSize ?? 100
+    if (pageSize < 1) {
+        throw new Error(`invalid page size ${pageSize}`)
+    }
+
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(options?.signal?.reason)
+    options?.signal?.addEventListener('abort', onAbort)
+    if (options?.signal?.aborted) {
+        onAbort()
+    }
+
+    let stream: ReadableStream<Uint8Array> | undefined
+    let pages: AsyncGenerator<unknown[]> | undefined
+    try {
+        stream = await open({ signal: controller.signal, timeoutMs: options?.timeoutMs })
+        pages = pagesOf(jsonArrayItems(stream), pageSize)
+        let pending = pages.next()
+        while (true) {
+            const page = await pending
+            if (page.done) {
+                return
+            }
+            if (options?.prefetch) {
+                pending = pages.next()
+                // A prefetched page may be abandoned, its rejection is handled when awaited
+                pending.catch(() => {})
+            }
+            for (const item of decode(page.value)) {
+                yield item
+            }
+            if (!options?.prefetch) {
+                pending = pages.next()
+            }
+        }
+    } finally {
+        options?.signal?.removeEventListener('abort', onAbort)
+        controller.abort()
+        await pages?.return(undefined).catch(() => {})
+        await stream?.cancel().catch(() => {})
+    }
+}
+
+async function* pagesOf<T>(items: AsyncGenerator<T>, pageSize: number): AsyncGenerator<T[]> {
+    let page: T[] = []
+    for await (const item of items) {
+        page.push(item)
+        if (page.length === pageSize) {
+            yield page
+            page = []
+        }
+    }
+    if (page.length > 0) {
+        yield page
+    }
+}
+
+/**
+ * Parse the items of a JSON array from a stream, one item at a time.
+ *
+ * @internal
+ */
+export async function* jsonArrayItems(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+    const decoder = new TextDecoder()
+    const reader = stream.getReader()
+    // Text not parsed yet, starting with the item being read if any
+    let text = ''
+    let position = 0
+    let start = -1
+    let depth = 0
+    let inString = false
+    let escaped = false
+    let opened = false
+    let closed = false
+
+    const item = (end: number) => {
+        const source = text.slice(start, end)
+        start = -1
+        try {
+            return JSON.parse(source)
+        } catch (err) {
+            throw new Error(`invalid item in list: ${(err as Error).message}`)
+        }
+    }
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read()
+            text += done ? decoder.decode() : decoder.decode(value, { stream: true })
+            for (; position < text.length; position++) {
+                const c = text[position]
+                if (inString) {
+                    if (escaped) {
+                        escaped = false
+                    } else if (c === '\\') {
+                        escaped = true
+                    } else if (c === '"') {
+                        inString = false
+                    }
+                    continue
+                }
+                if (c === ' ' || c === '\n' || c === '\r' || c === '\t') {
+                    continue
+                }
+                if (!opened || closed) {
+                    if (c !== '[' || opened) {
+                        throw new Error(`expected a list, got '${c}'`)
+                    }
+                    opened = true
+                    continue
+                }
+                if (depth === 0 && (c === ',' || c === ']')) {
+                    if (start >= 0) {
+                        yield item(position)
+                    } else if (c === ',') {
+                        throw new Error('invalid list: missing item')
+                    }
+                    closed = c === ']'
+                    continue
+                }
+                if (start < 0) {
+                    start = position
+                }
+                if (c === '"') {
+                    inString = true
+                } else if (c === '{' || c === '[') {
+                    depth++
+                } else if (c === '}' || c === ']') {
+                    depth--
+                }
+            }
+            // Keep the item being read, drop what was parsed
+            if (start >= 0) {
+                text = text.slice(start)
+                position -= start
+                start = 0
+            } else {
+                text = ''
+                position = 0
+            }
+            if (done) {
+                break
+            }
+        }
+    } finally {
+        reader.releaseLock()
+    }
+    if (!closed) {
+        throw new Error('invalid list: unexpected end')
+    }
+}
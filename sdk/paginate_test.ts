@@ -0,0 +1,96 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { jsonArrayItems, paginate } from "./paginate.ts";
+import { withFakeProject } from "./testing.ts";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const item of items) {
+    result.push(item)
+  }
+  return result
+}
+
+describe("paginate", ()=>{
+  const items = Array.from({ length: 25 }, (_, i) => ({ n: i, s: `"[${i}],\\` }))
+  const body = JSON.stringify(items)
+  // The body split in chunks cutting through items and strings
+  const chunks = Array.from({ length: Math.ceil(body.length / 7) }, (_, i) => body.slice(i * 7, i * 7 + 7))
+
+  it("parses the list while it is received and decodes it in pages" , async () => {
+    const pages: number[] = []
+    const result = await collect(paginate(() => Promise.resolve(streamOf(...chunks)), (page) => {
+      pages.push(page.length)
+      return page
+    }, { pageSize: 10 }))
+    t.assertEquals(result, items)
+    t.assertEquals(pages, [10, 10, 5])
+  })
+
+  it("parses nested and empty lists" , async () => {
+    t.assertEquals(await collect(jsonArrayItems(streamOf(' [ [1, [2]] , {"a":[]}, null,"x" ]\n'))), [[1, [2]], { a: [] }, null, 'x'])
+    t.assertEquals(await collect(jsonArrayItems(streamOf('[]'))), [])
+  })
+
+  it("rejects a response that is not a list" , async () => {
+    await t.assertRejects(() => collect(jsonArrayItems(streamOf('{"errors":[]}'))))
+    await t.assertRejects(() => collect(jsonArrayItems(streamOf('[1,2'))))
+    await t.assertRejects(() => collect(jsonArrayItems(streamOf('[1,,2]'))))
+  })
+
+  it("aborts the request when stopped early" , async () => {
+    let signal: AbortSignal | undefined
+    for await (const item of paginate((options) => {
+      signal = options.signal
+      return Promise.resolve(streamOf(...chunks))
+    }, (page) => page as { n: number }[], { pageSize: 10, prefetch: true })) {
+      if (item.n === 2) {
+        break
+      }
+    }
+    t.assert(signal?.aborted)
+  })
+
+  describe("on a project", ()=>{
+    const fake = withFakeProject()
+
+    beforeAll(async ()=> {
+      await fake.project.newObject('Product', 'product', true)
+      await fake.project.object('product').insertInBulk(items.map(i => ({ name: `p${i.n}` })))
+      await fake.project.createBag()
+    })
+
+    it("iterates over records" , async () => {
+      const names: string[] = []
+      for await (const rec of fake.project.object('product').iterate<{name:string}>({}, { pageSize: 7 })) {
+        names.push(rec.name)
+      }
+      t.assertEquals(names.length, 25)
+      t.assertEquals(names[24], 'p24')
+    })
+
+    it("iterates over bags and metadata" , async () => {
+      let bags = 0
+      for await (const _ of fake.project.iterateBags({ pageSize: 1 })) {
+        bags++
+      }
+      let metadata = 0
+      for await (const _ of fake.project.iterateMetadata(undefined, { pageSize: 1, prefetch: true })) {
+        metadata++
+      }
+      t.assertEquals(bags, 2)
+      t.assertEquals(metadata, 2)
+    })
+  })
+
+})
@@ -0,0 +1,72 @@
+/**
+ * Paths of files and folders in a bag, e.g. `/exports/2022/data.json`. Absolute paths start
+ * at the root folder of the bag, relative paths at a folder. Segments are separated by `/`.
+ */
+
+/**
+ * Normalise a path: resolve `.` and `..` segments and drop duplicate and trailing slashes.
+ * `..` stays at the root of an absolute path, and is kept at the start of a relative path.
+ * The empty path is `.`.
+ *
+ * @internal
+ */
+export function normalizePath(path: string): string {
+  const absolute = path.startsWith('/');
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment !== '..') {
+      segments.push(segment);
+    } else if (segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else if (!absolute) {
+      segments.push(segment);
+    }
+  }
+  const joined = segments.join('/');
+  return absolute ? '/' + joined : joined || '.';
+}
+
+/**
+ * Join paths and normalise the result, see {@link normalizePath}.
+ *
+ * @internal
+ */
+export function joinPath(...paths: string[]): string {
+  return normalizePath(paths.filter(p => p !== '').join('/'));
+}
+
+/**
+ * The segments of a normalised path.
+ *
+ * @internal
+ */
+export function pathSegments(path: string): string[] {
+  return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+/**
+ * The path of the folder of a path, `/` for the files of the root folder.
+ *
+ * @internal
+ */
+export function dirname(path: string): string {
+  const normalized = normalizePath(path);
+  const index = normalized.lastIndexOf('/');
+  if (index < 0) {
+    return '.';
+  }
+  return index === 0 ? '/' : normalized.slice(0, index);
+}
+
+/**
+ * The last segment of a path.
+ *
+ * @internal
+ */
+export function basename(path: string): string {
+  const segments = pathSegments(normalizePath(path));
+  return segments[segments.length - 1] ?? '';
+}
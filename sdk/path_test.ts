@@ -0,0 +1,29 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { basename, dirname, joinPath, normalizePath } from "./path.ts";
+
+describe("Paths", ()=>{
+
+  it("normalises absolute paths" , () => {
+    t.assertEquals(normalizePath('/a//b/./c/../d/'), '/a/b/d')
+    t.assertEquals(normalizePath('/../a'), '/a')
+    t.assertEquals(normalizePath('//'), '/')
+  })
+
+  it("normalises relative paths" , () => {
+    t.assertEquals(normalizePath('a/./b/..'), 'a')
+    t.assertEquals(normalizePath('../a/../../b'), '../../b')
+    t.assertEquals(normalizePath(''), '.')
+    t.assertEquals(normalizePath('a/..'), '.')
+  })
+
+  it("joins and splits paths" , () => {
+    t.assertEquals(joinPath('/a/b', '../c'), '/a/c')
+    t.assertEquals(joinPath('/a', '/b'), '/a/b')
+    t.assertEquals(dirname('/a/b'), '/a')
+    t.assertEquals(dirname('/a'), '/')
+    t.assertEquals(dirname('a'), '.')
+    t.assertEquals(basename('/a/b/'), 'b')
+  })
+
+})
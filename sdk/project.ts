@@ -1,9 +1,15 @@
 // deno-lint-ignore-file
 import { createBagInternal, View, EmailRequest } from './view.ts';
 import { Client } from './client.ts';
-import { environment } from './environment.ts';
+import { Environment, TwintagConfig, resolveConfig } from './environment.ts';
 import { StructuredObject } from './structuredObject.ts';
 import { listObject } from './listObject.ts';
+import { RetryPolicy } from './retry.ts';
+import { Middleware, Transport } from './middleware.ts';
+import { RequestOptions } from './abort.ts';
+import { PageOptions, paginate } from './paginate.ts';
+import { DataOptions, contextOf } from './codec.ts';
+import { SchemaDocument, SchemaChange, SchemaImportOptions, SchemaImportResult, exportSchema, diffSchemas, importSchema } from './schema.ts';
 
 /**
  * The project class allows you to interact with a ZAZA Enterprise project.
@@ -13,24 +19,39 @@ import { listObject } from './listObject.ts';
  * ```
  * let project = new Zaza.Project('<Project API key>')
  * ```
+ *
+ * The optional type parameter maps object apiNames to record types, as generated by
+ * {@link generateTypes}. {@link object} then returns typed list objects:
+ * ```
+ * let project = new Zaza.Project<ProjectObjects>('<Project API key>')
+ * await project.object('product').insert({ name: 'chair', price: 10 })
+ * ```
  */
-export class Project {
+export class Project<Objects = any> {
   /**
    * The API key passed when constructing the project object.
    */
   readonly apiKey: string;
+  private config: Environment;
   private client: Client;
   private projectId = '';
   private _useCaching = false;
+  private _validate = false;
 
   /**
    * Create a project
    *
    * @param apiKey You'll find the API Key on the ZAZA Enterprise project page.
+   * @param config Optional hosts and defaults for this project, see {@link TwintagConfig}.
+   * By default the global environment is used.
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, config?: TwintagConfig | Environment) {
     this.apiKey = apiKey;
-    this.client = new Client(apiKey);
+    this.config = resolveConfig(config);
+    this.client = new Client(apiKey, this.config);
+    if (this.config.useCaching) {
+      this.useCaching(true);
+    }
   }
 
   /**
@@ -43,11 +64,49 @@ export class Project {
     this.getProjectId();
   }
 
+  /**
+   * Validate records before sending them, for all objects obtained from this project
+   * through {@link object}. See {@link listObject.useValidation}.
+   */
+  public useValidation(val: boolean) {
+    this._validate = val;
+  }
+
+  /**
+   * Set the retry policy for all requests made through this project,
+   * including the objects and views obtained from it.
+   * Fields that are not passed fall back to the policy of the project config.
+   *
+   * Example:
+   * ```js
+   * project.setRetryPolicy({ maxAttempts: 5 })
+   * ```
+   */
+  public setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.client.retryPolicy = policy;
+  }
+
+  /**
+   * Replace the transport for all requests made through this project.
+   * Pass undefined to fall back to the transport of the project config.
+   */
+  public setTransport(transport: Transport | undefined) {
+    this.client.transport = transport;
+  }
+
+  /**
+   * Add middleware for all requests made through this project,
+   * including the objects and views obtained from it.
+   */
+  public use(middleware: Middleware) {
+    this.client.middleware.push(middleware);
+  }
+
   /**
    * Create a bag, automatically linked to the project.
    */
-  public async createBag(): Promise<View> {
-    return await createBagInternal(this.client, this);
+  public async createBag(options?: RequestOptions): Promise<View> {
+    return await createBagInternal(this.client, this, undefined, options);
   }
 
   /**
@@ -55,7 +114,7 @@ export class Project {
    * Your project API key is automatically used for all changes.
    */
   public getView(qid: string): View {
-    const view = new View(qid);
+    const view = new View(qid, this.config);
 
     // Pass state
     view._setConfig({ project: this, client: this.client });
@@ -67,18 +126,47 @@ export class Project {
    * @param lang: optional language value. Allowed inputs are "all" or any language defined in project languages. If no value is passed, then project's default language will be used for returning data
    * @typeParam T The objects in the resulting array will be cast to this type.
    */
-  public async getMetadata<T>(lang?: string): Promise<T[]> {
+  public async getMetadata<T>(lang?: string, options?: DataOptions): Promise<T[]> {
     let langParam = lang ? `language=${(lang == 'all' ? '*' : lang)}` : ''
 
     const url = this.getURL('/data/metadata', false, langParam);
 
-    const [res, err] = await this.client.get<T[]>(url);
+    const [res, err] = await this.client.get<T[]>(url, options);
     if (err) {
       err.setMessage('failed to get metadata')
       throw err
     }
 
-    return res;
+    return this.client.config.codecs.decode(res, contextOf(this.client.config, options));
+  }
+
+  /**
+   * Iterate over the metadata of all bags within your project. The response is read and
+   * decoded page by page, see {@link PageOptions}. Stopping the iteration early aborts the request.
+   *
+   * Example:
+   * ```js
+   * for await (const metadata of project.iterateMetadata('en', { pageSize: 200 })) {
+   *   ...
+   * }
+   * ```
+   *
+   * @param lang: optional language value, see {@link getMetadata}
+   * @typeParam T The objects will be cast to this type.
+   */
+  public iterateMetadata<T>(lang?: string, options?: PageOptions & DataOptions): AsyncGenerator<T> {
+    let langParam = lang ? `language=${(lang == 'all' ? '*' : lang)}` : ''
+
+    const url = this.getURL('/data/metadata', false, langParam);
+
+    return paginate<T>(async (pageOptions) => {
+      const [stream, err] = await this.client.do<ReadableStream<Uint8Array>>(url, { method: 'GET', ...pageOptions }, true);
+      if (err) {
+        err.setMessage('failed to get metadata')
+        throw err
+      }
+      return stream;
+    }, (page) => this.client.config.codecs.decode(page as T[], contextOf(this.client.config, options)), options);
   }
 
   /**
@@ -97,8 +185,9 @@ export class Project {
     isGlobal?: boolean,
     keyProperty?: string,
     access?: Access,
+    options?: RequestOptions,
   ): Promise<StructuredObject> {
-    const url = environment.adminHost + '/api/v1/object';
+    const url = this.config.adminHost + '/api/v1/object';
 
     const reqobject = {
       name: objectName,
@@ -109,13 +198,13 @@ export class Project {
       access: access,
     };
 
-    const [obj, err] = await this.client.put<StructuredObject>(url, reqobject);
+    const [obj, err] = await this.client.put<StructuredObject>(url, reqobject, options);
     if (err) {
       err.setMessage('failed to create object')
       throw err
     }
 
-    const object = new StructuredObject(this.apiKey, this._useCaching);
+    const object = new StructuredObject(this.apiKey, this._useCaching, this.client);
     object.$qid = obj.$qid;
     object.$schemaScope = obj.$schemaScope;
     object.isGlobal = obj.isGlobal;
@@ -133,15 +222,15 @@ export class Project {
    *
    * @param objectAPIName APIName of the object
    */
-  public async getObject(objectAPIName: string): Promise<StructuredObject> {
+  public async getObject(objectAPIName: string, options?: RequestOptions): Promise<StructuredObject> {
     const url = this.getURL(`/object?object=${objectAPIName}`, true);
 
-    const [obj, err] = await this.client.get<StructuredObject>(url);
+    const [obj, err] = await this.client.get<StructuredObject>(url, options);
     if (err) {
       err.setMessage('failed to get object')
       throw err
     }
-    const object = new StructuredObject(this.apiKey, this._useCaching);
+    const object = new StructuredObject(this.apiKey, this._useCaching, this.client);
 
     object.$qid = obj.$qid;
     object.$schemaScope = obj.$schemaScope;
@@ -154,19 +243,80 @@ export class Project {
     return object;
   }
 
+  /**
+   * Get all objects of the project.
+   */
+  public async getObjects(options?: RequestOptions): Promise<StructuredObject[]> {
+    const url = this.getURL(`/object`, false);
+
+    const [objs, err] = await this.client.get<StructuredObject[]>(url, options);
+    if (err) {
+      err.setMessage('failed to get objects')
+      throw err
+    }
+
+    return (objs ?? []).map(obj => {
+      const object = new StructuredObject(this.apiKey, this._useCaching, this.client);
+      object.$qid = obj.$qid;
+      object.$schemaScope = obj.$schemaScope;
+      object.isGlobal = obj.isGlobal;
+      object.isList = obj.isList;
+      object.keyProperty = obj.keyProperty;
+      object.name = obj.name;
+      object.apiName = obj.apiName;
+      object.access = obj.access;
+      return object;
+    });
+  }
+
+  /**
+   * Export the data model of the project: languages, objects and attributes.
+   * Use {@link stringifySchema} to write it as JSON or YAML.
+   *
+   * Example:
+   * ```js
+   * const schema = await staging.exportSchema()
+   * await Deno.writeTextFile('schema.yaml', stringifySchema(schema, 'yaml'))
+   * ```
+   */
+  public async exportSchema(options?: RequestOptions): Promise<SchemaDocument> {
+    return await exportSchema(this, options);
+  }
+
+  /**
+   * Compute the changes needed to turn the data model of the project into the passed schema.
+   */
+  public async diffSchema(schema: SchemaDocument, options?: RequestOptions): Promise<SchemaChange[]> {
+    return diffSchemas(await exportSchema(this, options), schema);
+  }
+
+  /**
+   * Apply a schema to the project with the minimal set of changes.
+   * Deletes and replaces, which lose data, are only applied with the `destructive` option.
+   *
+   * Example:
+   * ```js
+   * const schema = parseSchema(await Deno.readTextFile('schema.yaml'))
+   * const { applied, skipped } = await production.importSchema(schema)
+   * ```
+   */
+  public async importSchema(schema: SchemaDocument, options?: SchemaImportOptions): Promise<SchemaImportResult> {
+    return await importSchema(this, schema, options);
+  }
+
   /**
    * Delete an object by its name
    *
    * @param objectAPIName Name of the object
    */
-  public async deleteObject(objectAPIName: string): Promise<void> {
-    const url = environment.adminHost + '/api/v1/object?object=' + objectAPIName;
+  public async deleteObject(objectAPIName: string, options?: RequestOptions): Promise<void> {
+    const url = this.config.adminHost + '/api/v1/object?object=' + objectAPIName;
 
     const reqobject = {
       apiName: objectAPIName,
     };
 
-    const [, err] = await this.client.delete<StructuredObject>(url, reqobject);
+    const [, err] = await this.client.delete<StructuredObject>(url, reqobject, options);
     if (err) {
       err.setMessage('failed to delete object')
       throw err
@@ -184,10 +334,10 @@ export class Project {
    * await project.deleteTwintag('viewid')
    * ```
    */
-  public async deleteTwintag(viewID: string) : Promise<void>{
-    const data = await (new View(viewID)).data()
-    const url = environment.host + '/api/v1/twintags/' + data.bagQid; 
-    const [, err] = await this.client.delete<void>(url);
+  public async deleteTwintag(viewID: string, options?: RequestOptions) : Promise<void>{
+    const data = await (new View(viewID, this.config)).data(options)
+    const url = this.config.host + '/api/v1/twintags/' + data.bagQid; 
+    const [, err] = await this.client.delete<void>(url, undefined, options);
     if (err) {
       err.setMessage(`failed to delete project twintag`)
       throw err
@@ -203,8 +353,8 @@ export class Project {
    *
    * @category Structured Data
    */
-  public object(objectAPIName: string): listObject {
-    return new listObject(objectAPIName, this.client, '', this.projectId, this._useCaching);
+  public object<K extends string>(objectAPIName: K): listObject<K extends keyof Objects ? Objects[K] : any> {
+    return new listObject(objectAPIName, this.client, '', this.projectId, this._useCaching).useValidation(this._validate);
   }
 
   /**
@@ -243,20 +393,20 @@ export class Project {
     let append = argumentPreset ? `&schemaScope=${this.projectId}` : `?schemaScope=${this.projectId}`;
     if (this._useCaching) {
       langParam = langParam ? `&${langParam}` : ''
-      return `${environment.cachingHost}/${url}${append}${langParam}`;
+      return `${this.config.cachingHost}/${url}${append}${langParam}`;
     } else {
       langParam = langParam ? `?${langParam}` : ''
-      return `${environment.adminHost}/api/v1/${url}${langParam}`;
+      return `${this.config.adminHost}/api/v1/${url}${langParam}`;
     }
   }
 
   /**
    * Get bags in a project
    */
-  public async getBags(): Promise<Bag[]> {
-    const url = environment.adminHost + '/api/v1/twintags';
+  public async getBags(options?: RequestOptions): Promise<Bag[]> {
+    const url = this.config.adminHost + '/api/v1/twintags';
 
-    const [res, err] = await this.client.get<Bag[]>(url);
+    const [res, err] = await this.client.get<Bag[]>(url, options);
     if (err) {
       err.setMessage('failed to get bag details for the project')
       throw err
@@ -264,6 +414,23 @@ export class Project {
     return res;
   }
 
+  /**
+   * Iterate over the bags in a project. The response is read page by page, see
+   * {@link PageOptions}. Stopping the iteration early aborts the request.
+   */
+  public iterateBags(options?: PageOptions): AsyncGenerator<Bag> {
+    const url = this.config.adminHost + '/api/v1/twintags';
+
+    return paginate<Bag>(async (pageOptions) => {
+      const [stream, err] = await this.client.do<ReadableStream<Uint8Array>>(url, { method: 'GET', ...pageOptions }, true);
+      if (err) {
+        err.setMessage('failed to get bag details for the project')
+        throw err
+      }
+      return stream;
+    }, (page) => page as Bag[], options);
+  }
+
   /**
    * Sends email
    *
@@ -283,11 +450,11 @@ export class Project {
    * ```
    * @category Notifications
    */
-  public async sendToSubscribers<T>(request: EmailRequest): Promise<T> {
+  public async sendToSubscribers<T>(request: EmailRequest, options?: RequestOptions): Promise<T> {
 
     const client = this.client;
-    const url = environment.adminHost + '/api/v1/subscribers/send';
-    const [res, err] = await client.post<T>(url, request, { headers: { 'Content-Type': 'application/json' } });
+    const url = this.config.adminHost + '/api/v1/subscribers/send';
+    const [res, err] = await client.post<T>(url, request, { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage('failed to notify to all the subsribers')
       throw err;
@@ -313,16 +480,16 @@ export class Project {
    * @param defaultLanguage: optional
    * @category Languages
    */
-  public async setAllowedLanguages(request: string[], defaultLanguage?: string): Promise<Language[]> {
+  public async setAllowedLanguages(request: string[], defaultLanguage?: string, options?: RequestOptions): Promise<Language[]> {
     const req = { allowedLanguages: request };
-    const url = environment.adminHost + `/api/v1/project/allowedLanguages`
-    const [res, err] = await this.client.put<Language[]>(url, req)
+    const url = this.config.adminHost + `/api/v1/project/allowedLanguages`
+    const [res, err] = await this.client.put<Language[]>(url, req, options)
     if (err) {
       err.setMessage(`failed to add languages: ${err.message}`)
       throw err
     }
     if (defaultLanguage) {
-      await this.setDefaultLanguage(defaultLanguage)
+      await this.setDefaultLanguage(defaultLanguage, options)
     }
     return res
   }
@@ -335,9 +502,9 @@ export class Project {
    * ```
    * @returns Promise<string[]>
    */
-  public async getAllowedLanguages(): Promise<Language[]> {
-    const url = environment.adminHost + `/api/v1/project/allowedLanguages`
-    const [res, err] = await this.client.get<Language[]>(url)
+  public async getAllowedLanguages(options?: RequestOptions): Promise<Language[]> {
+    const url = this.config.adminHost + `/api/v1/project/allowedLanguages`
+    const [res, err] = await this.client.get<Language[]>(url, options)
     if (err) {
       err.setMessage(`failed to get allowed languages: ${err.message}`)
       throw err
@@ -355,10 +522,10 @@ export class Project {
    * @param request: default language.
    * @category Languages
    */
-  public async setDefaultLanguage<T>(request: string): Promise<Language> {
+  public async setDefaultLanguage<T>(request: string, options?: RequestOptions): Promise<Language> {
     const req = { defaultLanguage: request };
-    const url = environment.adminHost + `/api/v1/project/defaultLanguage`
-    const [res, err] = await this.client.put<Language>(url, req)
+    const url = this.config.adminHost + `/api/v1/project/defaultLanguage`
+    const [res, err] = await this.client.put<Language>(url, req, options)
     if (err) {
       err.setMessage(`failed to set default language: ${err.message}`)
       throw err
@@ -375,9 +542,9 @@ export class Project {
    *
    * @category Languages
    */
-  public async getDefaultLanguage(): Promise<Language> {
-    const url = environment.adminHost + `/api/v1/project/defaultLanguage`
-    const [res, err] = await this.client.get<Language>(url)
+  public async getDefaultLanguage(options?: RequestOptions): Promise<Language> {
+    const url = this.config.adminHost + `/api/v1/project/defaultLanguage`
+    const [res, err] = await this.client.get<Language>(url, options)
     if (err) {
       err.setMessage(`failed to get default language: ${err.message}`)
       throw err
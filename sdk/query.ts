@@ -0,0 +1,385 @@
+import { DataOptions } from './codec.ts';
+import { formatDateTime } from './datetime.ts';
+
+/**
+ * Value types that can be compared in a query.
+ */
+export type Comparable = string | number | boolean | Date;
+
+/**
+ * Operators of a query condition. `eq`, `gt`, `gte`, `lt` and `lte` are evaluated by
+ * the server, the others are evaluated client-side on the records returned by the server.
+ */
+export type Operator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'startsWith' | 'isNull' | 'notNull';
+
+interface Condition {
+  attribute: string;
+  op: Operator;
+  value?: unknown;
+}
+
+interface OrClause {
+  or: Clause[][];
+}
+
+type Clause = Condition | OrClause;
+
+type fields = Record<string, unknown>;
+
+/**
+ * Source of the records of a query, implemented by {@link listObject}.
+ *
+ * @internal
+ */
+export interface QuerySource {
+  readonly timeZone: string;
+  iterateMatching<T>(filterQueryArg: string, lang?: string, options?: DataOptions): AsyncGenerator<T>;
+}
+
+const serverOperators: { [op in Operator]?: string } = {
+  eq: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Convert a value to its representation in a filter query argument,
+ * or undefined when the value cannot be sent to the server.
+ * Dates are formatted as they are sent in records, see {@link formatDateTime}.
+ *
+ * @internal
+ */
+export function filterValue(input: unknown, timeZone = 'UTC'): string | number | undefined {
+  switch (typeof input) {
+    case 'string':
+    case 'number':
+      return input;
+    case 'boolean':
+      return input ? 'true' : 'false';
+    default:
+      if (input instanceof Date) {
+        return formatDateTime(input, timeZone);
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Serialize a condition to a `filter` query argument, e.g. `&filter=price>=10`.
+ *
+ * @internal
+ */
+export function filterArg(attribute: string, op: string, input: unknown, timeZone = 'UTC'): string {
+  const v = filterValue(input, timeZone);
+  if (v === undefined) {
+    return '';
+  }
+  return `&filter=${attribute}${op}${encodeURIComponent(v)}`;
+}
+
+/**
+ * Conditions on a single attribute, see {@link Query.where}.
+ */
+export class Where<T, R, V> {
+  /**
+   * @internal
+   */
+  constructor(private query: Query<T, R>, private attribute: string) {}
+
+  eq(value: V): Query<T, R> { return this.add('eq', value); }
+  ne(value: V): Query<T, R> { return this.add('ne', value); }
+  gt(value: V): Query<T, R> { return this.add('gt', value); }
+  gte(value: V): Query<T, R> { return this.add('gte', value); }
+  lt(value: V): Query<T, R> { return this.add('lt', value); }
+  lte(value: V): Query<T, R> { return this.add('lte', value); }
+  in(values: V[]): Query<T, R> { return this.add('in', values); }
+  contains(value: Extract<V, string>): Query<T, R> { return this.add('contains', value); }
+  startsWith(value: Extract<V, string>): Query<T, R> { return this.add('startsWith', value); }
+  isNull(): Query<T, R> { return this.add('isNull'); }
+  notNull(): Query<T, R> { return this.add('notNull'); }
+
+  private add(op: Operator, value?: unknown): Query<T, R> {
+    return this.query._add({ attribute: this.attribute, op: op, value: value });
+  }
+}
+
+/**
+ * Query builds a filter for the records of a list object. Create one with {@link listObject.query}.
+ *
+ * Conditions are combined with AND, use {@link or} for alternatives. The server filters
+ * on the top-level `eq`, `gt`, `gte`, `lt` and `lte` conditions; all other conditions,
+ * sorting, projection and paging are applied client-side to the records it returns.
+ * Without sorting, the response is read until the page of the query is complete and the
+ * request is aborted then, see {@link listObject.iterate}. Sorting reads all matching records.
+ *
+ * Example:
+ * ```js
+ * const products = await object.query<Product>()
+ *   .where('price').gte(0)
+ *   .or(q => q.where('name').startsWith('A'), q => q.where('stock').isNull())
+ *   .orderBy('name')
+ *   .select(['name', 'price'])
+ *   .limit(50)
+ *   .execute()
+ * ```
+ */
+export class Query<T, R = T> {
+  private clauses: Clause[] = [];
+  private order: [string, 'asc' | 'desc'][] = [];
+  private fields?: string[];
+  private _limit?: number;
+  private _offset = 0;
+  private lang?: string;
+
+  /**
+   * @internal
+   */
+  constructor(private source?: QuerySource) {}
+
+  /**
+   * Add a condition on an attribute.
+   */
+  where<K extends keyof T & string>(attribute: K): Where<T, R, T[K]> {
+    return new Where<T, R, T[K]>(this, attribute);
+  }
+
+  /**
+   * Add alternatives: a record matches when it matches one of the branches.
+   *
+   * Example:
+   * ```js
+   * query.or(q => q.where('color').eq('red'), q => q.where('size').gt(10))
+   * ```
+   */
+  or(...branches: ((q: Query<T, R>) => Query<T, R>)[]): Query<T, R> {
+    this.clauses.push({ or: branches.map(branch => branch(new Query<T, R>()).clauses) });
+    return this;
+  }
+
+  /**
+   * Sort on an attribute. Call again to sort on more attributes.
+   */
+  orderBy(attribute: keyof T & string, direction: 'asc' | 'desc' = 'asc'): Query<T, R> {
+    this.order.push([attribute, direction]);
+    return this;
+  }
+
+  /**
+   * Only return the passed attributes. System attributes like `$qid` are always returned.
+   */
+  select<K extends keyof T & string>(attributes: K[]): Query<T, Pick<T, K>> {
+    this.fields = attributes;
+    return this as unknown as Query<T, Pick<T, K>>;
+  }
+
+  limit(limit: number): Query<T, R> {
+    this._limit = limit;
+    return this;
+  }
+
+  offset(offset: number): Query<T, R> {
+    this._offset = offset;
+    return this;
+  }
+
+  /**
+   * Language of the returned records, see {@link listObject.get}.
+   */
+  language(lang: string): Query<T, R> {
+    this.lang = lang;
+    return this;
+  }
+
+  /**
+   * @internal
+   */
+  _add(condition: Condition): Query<T, R> {
+    this.clauses.push(condition);
+    return this;
+  }
+
+  /**
+   * The filter query arguments sent to the server.
+   *
+   * @param timeZone Time zone of the datetimes, see {@link TwintagConfig.timeZone}
+   */
+  toFilterQuery(timeZone = 'UTC'): string {
+    let filterPredicate = '';
+    for (const clause of this.clauses) {
+      if (!('or' in clause) && serverOperators[clause.op]) {
+        filterPredicate += filterArg(clause.attribute, serverOperators[clause.op]!, clause.value, timeZone);
+      }
+    }
+    return filterPredicate;
+  }
+
+  /**
+   * Check a record against the conditions that are not evaluated by the server.
+   */
+  matches(record: T): boolean {
+    return this.clauses.every(clause => !this.isServerClause(clause) ? evaluate(clause, record as fields) : true);
+  }
+
+  /**
+   * Fetch the matching records.
+   */
+  async execute(options?: DataOptions): Promise<R[]> {
+    if (!this.source) {
+      throw new Error('query is not bound to an object');
+    }
+    const filter = this.toFilterQuery(options?.timeZone ?? this.source.timeZone);
+    const records = this.source.iterateMatching<T>(filter, this.lang, options);
+    if (this.order.length > 0) {
+      const all: T[] = [];
+      for await (const record of records) {
+        all.push(record);
+      }
+      return this.apply(all);
+    }
+
+    // Stop reading once the page of the query is complete
+    const end = this._limit === undefined ? Infinity : this._offset + this._limit;
+    const page: T[] = [];
+    let matched = 0;
+    if (end > 0) {
+      for await (const record of records) {
+        if (!this.matches(record)) {
+          continue;
+        }
+        if (matched >= this._offset) {
+          page.push(record);
+        }
+        if (++matched >= end) {
+          break;
+        }
+      }
+    }
+    return this.project(page);
+  }
+
+  /**
+   * Fetch the first matching record, or null when there is none.
+   */
+  async first(options?: DataOptions): Promise<R | null> {
+    const limit = this._limit;
+    this._limit = 1;
+    try {
+      const [record] = await this.execute(options);
+      return record ?? null;
+    } finally {
+      this._limit = limit;
+    }
+  }
+
+  /**
+   * Apply the client-side part of the query to records returned by the server.
+   *
+   * @internal
+   */
+  apply(records: T[]): R[] {
+    let result = records.filter(record => this.matches(record));
+    if (this.order.length > 0) {
+      result = [...result].sort((a, b) => {
+        for (const [attribute, direction] of this.order) {
+          const cmp = compare((a as fields)[attribute], (b as fields)[attribute]);
+          if (cmp !== 0) {
+            return direction === 'asc' ? cmp : -cmp;
+          }
+        }
+        return 0;
+      });
+    }
+    result = result.slice(this._offset, this._limit === undefined ? undefined : this._offset + this._limit);
+    return this.project(result);
+  }
+
+  private project(records: T[]): R[] {
+    const fields = this.fields;
+    if (!fields) {
+      // Without selection the records are returned whole
+      return records as unknown as R[];
+    }
+    return records.map(record => {
+      const picked: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(record as Record<string, unknown>)) {
+        if (key.startsWith('$') || fields.includes(key)) {
+          picked[key] = value;
+        }
+      }
+      return picked as R;
+    });
+  }
+
+  private isServerClause(clause: Clause): boolean {
+    return !('or' in clause) && serverOperators[clause.op] !== undefined && filterValue(clause.value) !== undefined;
+  }
+}
+
+function evaluate(clause: Clause, record: fields): boolean {
+  if ('or' in clause) {
+    return clause.or.some(branch => branch.every(c => evaluate(c, record)));
+  }
+  const value = record[clause.attribute];
+  switch (clause.op) {
+    case 'isNull':
+      return isEmpty(value);
+    case 'notNull':
+      return !isEmpty(value);
+    case 'in':
+      return (clause.value as unknown[]).some(v => compare(value, v) === 0);
+    case 'contains':
+      return typeof value === 'string' && value.includes(clause.value as string);
+    case 'startsWith':
+      return typeof value === 'string' && value.startsWith(clause.value as string);
+  }
+  // Equality with null is a null check, like `isNull` and `notNull`
+  if (clause.value === null || clause.value === undefined) {
+    return clause.op === 'eq' ? isEmpty(value) : clause.op === 'ne' ? !isEmpty(value) : false;
+  }
+  if (value === null || value === undefined) {
+    return clause.op === 'ne';
+  }
+  const cmp = compare(value, clause.value);
+  switch (clause.op) {
+    case 'eq': return cmp === 0;
+    case 'ne': return cmp !== 0;
+    case 'gt': return cmp > 0;
+    case 'gte': return cmp >= 0;
+    case 'lt': return cmp < 0;
+    default: return cmp <= 0;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Compare two attribute values, null and undefined sort first.
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || a === undefined) {
+    return -1;
+  }
+  if (b === null || b === undefined) {
+    return 1;
+  }
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (typeof x === 'number' && typeof y === 'number') {
+    return x - y;
+  }
+  if (typeof x === 'number' || typeof y === 'number') {
+    const [m, n] = [Number(x), Number(y)];
+    if (!isNaN(m) && !isNaN(n)) {
+      return m - n;
+    }
+  }
+  const [s, t] = [String(x), String(y)];
+  return s < t ? -1 : s > t ? 1 : 0;
+}
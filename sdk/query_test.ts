@@ -0,0 +1,92 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Query } from "./query.ts";
+import { withFakeProject } from "./testing.ts";
+
+interface Product {
+  name: string
+  price: number
+  stock: number|null
+}
+
+describe("Query", ()=>{
+  const products: Product[] = [
+    { name: 'banana', price: 0, stock: 5 },
+    { name: 'apple', price: 10, stock: null },
+    { name: 'cherry', price: 20, stock: 0 },
+  ]
+
+  it("sends comparisons to the server, including falsy bounds" , () => {
+    const q = new Query<Product>().where('price').gte(0).where('name').eq('').where('price').lt(20)
+    t.assertEquals(q.toFilterQuery(), '&filter=price>=0&filter=name=&filter=price<20')
+  })
+
+  it("keeps other operators client-side" , () => {
+    const q = new Query<Product>().where('name').startsWith('b').where('price').ne(10)
+    t.assertEquals(q.toFilterQuery(), '')
+    t.assertEquals(q.apply(products).map(p => p.name), ['banana'])
+  })
+
+  it("evaluates alternatives, in and null checks" , () => {
+    const q = new Query<Product>().or(
+      q => q.where('stock').isNull(),
+      q => q.where('name').in(['cherry']),
+    )
+    t.assertEquals(q.apply(products).map(p => p.name), ['apple', 'cherry'])
+  })
+
+  it("treats equality with null as a null check" , () => {
+    t.assertEquals(new Query<Product>().where('stock').eq(null).apply(products).map(p => p.name), ['apple'])
+    t.assertEquals(new Query<Product>().where('stock').ne(null).apply(products).map(p => p.name), ['banana', 'cherry'])
+  })
+
+  it("stops reading records once the page is complete" , async () => {
+    let read = 0
+    const source = {
+      timeZone: 'UTC',
+      async *iterateMatching<T>(): AsyncGenerator<T> {
+        for (const product of products) {
+          read++
+          yield await Promise.resolve(product as T)
+        }
+      },
+    }
+    const page = await new Query<Product>(source).where('price').gte(0).offset(1).limit(1).select(['name']).execute()
+    t.assertEquals(page, [{ name: 'apple' }])
+    t.assertEquals(read, 2)
+    t.assertEquals(await new Query<Product>(source).limit(0).execute(), [])
+    t.assertEquals(read, 2)
+  })
+
+  it("sorts, pages and projects" , () => {
+    const q = new Query<Product>().orderBy('price', 'desc').offset(1).limit(1).select(['name'])
+    t.assertEquals(q.apply(products), [{ name: 'apple' }])
+  })
+
+  describe("on a list object", ()=>{
+    const fake = withFakeProject()
+
+    beforeAll(async ()=> {
+      const object = await fake.project.newObject('Product', 'product', true)
+      await object.newAttribute('price', 'number')
+      for (const product of products) {
+        await fake.project.object('product').insert({ ...product })
+      }
+    })
+
+    it("executes the query" , async () => {
+      const names = await fake.project.object('product').query<Product>()
+        .where('price').gte(0)
+        .where('name').contains('an')
+        .orderBy('name')
+        .execute()
+      t.assertEquals(names.map(p => p.name), ['banana'])
+    })
+
+    it("matches falsy bounds" , async () => {
+      const res = await fake.project.object('product').match<Product[]>({ price: { lte: 0 } })
+      t.assertEquals(res.map(p => p.name), ['banana'])
+    })
+  })
+
+})
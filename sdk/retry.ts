@@ -0,0 +1,162 @@
+/**
+ * Retry policy applied by the client to every request.
+ *
+ * A request is attempted at most `maxAttempts` times. Between attempts the
+ * client waits `baseDelayMs * factor^(attempt-1)`, capped at `maxDelayMs`,
+ * with the configured jitter applied. When the server sends a `Retry-After`
+ * header and `respectRetryAfter` is set, that delay is used instead.
+ */
+export interface RetryPolicy {
+    /**
+     * Total number of attempts, including the first one. 1 disables retries.
+     */
+    maxAttempts: number
+    /**
+     * Delay before the first retry in milliseconds.
+     */
+    baseDelayMs: number
+    /**
+     * Upper bound for a single delay in milliseconds.
+     */
+    maxDelayMs: number
+    /**
+     * Multiplier applied to the delay after every attempt.
+     */
+    factor: number
+    /**
+     * none: exact exponential delays
+     * full: random delay between 0 and the exponential delay
+     * equal: half the exponential delay plus a random part of the other half
+     */
+    jitter: 'none'|'full'|'equal'
+    /**
+     * HTTP statuses that are considered transient.
+     */
+    retryOnStatus: number[]
+    /**
+     * Wait as long as the server asks in its `Retry-After` header.
+     * When the server asks for more than `maxDelayMs` the request is not retried.
+     */
+    respectRetryAfter: boolean
+    /**
+     * Also retry non-idempotent requests (e.g. POST or upload `/end` calls) on
+     * network errors and 5xx statuses. By default these are only retried on 429,
+     * which guarantees the server did not process them.
+     */
+    retryNonIdempotent: boolean
+}
+
+/**
+ * Default retry policy.
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 10000,
+    factor: 2,
+    jitter: 'full',
+    retryOnStatus: [408, 429, 500, 502, 503, 504],
+    respectRetryAfter: true,
+    retryNonIdempotent: false,
+}
+
+const idempotentMethods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+/**
+ * Merge partial policies on top of the default policy, last one wins.
+ *
+ * @internal
+ */
+export function resolveRetryPolicy(...policies: (Partial<RetryPolicy>|undefined)[]): RetryPolicy {
+    const resolved = { ...defaultRetryPolicy }
+    for (const policy of policies) {
+        if (policy) {
+            Object.assign(resolved, policy)
+        }
+    }
+    resolved.maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts))
+    return resolved
+}
+
+/**
+ * Idempotent methods can safely be sent more than once.
+ *
+ * @internal
+ */
+export function isIdempotent(method: string): boolean {
+    return idempotentMethods.includes(method.toUpperCase())
+}
+
+/**
+ * Only bodies that can be read more than once can be sent again.
+ * A ReadableStream is consumed by the first attempt.
+ *
+ * @internal
+ */
+export function isReplayableBody(body: BodyInit|null|undefined): boolean {
+    return !(body instanceof ReadableStream)
+}
+
+/**
+ * Parse a `Retry-After` header, either delta-seconds or an HTTP date.
+ *
+ * @returns the delay in milliseconds or undefined when absent or invalid
+ *
+ * @internal
+ */
+export function parseRetryAfter(value: string|null, now = Date.now()): number|undefined {
+    if (!value) {
+        return undefined
+    }
+    const trimmed = value.trim()
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10) * 1000
+    }
+    const date = Date.parse(trimmed)
+    if (isNaN(date)) {
+        return undefined
+    }
+    return Math.max(0, date - now)
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * @param attempt the attempt that just failed, starting at 1
+ *
+ * @internal
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, random = Math.random): number {
+    const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(policy.factor, attempt - 1))
+    switch (policy.jitter) {
+        case 'full':
+            return Math.floor(random() * exp)
+        case 'equal':
+            return Math.floor(exp / 2 + random() * exp / 2)
+        default:
+            return exp
+    }
+}
+
+/**
+ * Resolves after ms milliseconds, rejects early with the abort reason when the signal aborts.
+ *
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason)
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal?.reason)
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
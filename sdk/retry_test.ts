@@ -0,0 +1,130 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { backoffDelay, defaultRetryPolicy, isIdempotent, isReplayableBody, parseRetryAfter, resolveRetryPolicy, RetryPolicy } from "./retry.ts";
+import { Client } from "./client.ts";
+import { environment } from "./environment.ts";
+import { FinalTransportError, NetworkError, RateLimitedError } from "./error.model.ts";
+
+describe("RetryPolicy", ()=>{
+
+  it("merges partial policies on top of the default" , () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5 }, undefined, { jitter: 'none' })
+    t.assertEquals(policy.maxAttempts, 5)
+    t.assertEquals(policy.jitter, 'none')
+    t.assertEquals(policy.baseDelayMs, defaultRetryPolicy.baseDelayMs)
+  })
+
+  it("never resolves to less than one attempt" , () => {
+    t.assertEquals(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts, 1)
+  })
+
+  it("computes capped exponential delays" , () => {
+    const policy = resolveRetryPolicy({ jitter: 'none', baseDelayMs: 100, factor: 2, maxDelayMs: 350 })
+    t.assertEquals(backoffDelay(policy, 1), 100)
+    t.assertEquals(backoffDelay(policy, 2), 200)
+    t.assertEquals(backoffDelay(policy, 3), 350)
+  })
+
+  it("applies jitter" , () => {
+    const full = resolveRetryPolicy({ jitter: 'full', baseDelayMs: 100 })
+    const equal = resolveRetryPolicy({ jitter: 'equal', baseDelayMs: 100 })
+    t.assertEquals(backoffDelay(full, 1, () => 0.5), 50)
+    t.assertEquals(backoffDelay(equal, 1, () => 0), 50)
+    t.assertEquals(backoffDelay(equal, 1, () => 0.999), 99)
+  })
+
+  it("parses Retry-After seconds and dates" , () => {
+    t.assertEquals(parseRetryAfter('3'), 3000)
+    t.assertEquals(parseRetryAfter(new Date(10000).toUTCString(), 4000), 6000)
+    t.assertEquals(parseRetryAfter('soon'), undefined)
+    t.assertEquals(parseRetryAfter(null), undefined)
+  })
+
+  it("knows which requests can be sent again" , () => {
+    t.assert(isIdempotent('put'))
+    t.assert(isIdempotent('delete'))
+    t.assert(!isIdempotent('POST'))
+    t.assert(isReplayableBody('{}'))
+    t.assert(isReplayableBody(new Blob(['x'])))
+    t.assert(!isReplayableBody(new ReadableStream()))
+  })
+
+})
+
+describe("Client retries", ()=>{
+  const url = 'https://twintag.test/api/v1/things'
+
+  // A client answered by the statuses in order, recording the methods of the attempts
+  function clientAnswering(statuses: number[], headers?: HeadersInit, policy?: Partial<RetryPolicy>): [Client, string[]] {
+    const attempts: string[] = []
+    const client = new Client('token', environment.derive({
+      transport: (request) => {
+        attempts.push(request.method)
+        const status = statuses[Math.min(attempts.length, statuses.length) - 1]
+        return Promise.resolve(new Response(status === 200 ? '{"ok":true}' : '{}', { status: status, headers: headers }))
+      },
+      retryPolicy: { jitter: 'none', baseDelayMs: 1, ...policy },
+    }))
+    return [client, attempts]
+  }
+
+  it("retries a transient failure" , async () => {
+    const [client, attempts] = clientAnswering([503, 200])
+    const [res, err] = await client.get<{ ok: boolean }>(url)
+    t.assertEquals(err, undefined)
+    t.assertEquals(res, { ok: true })
+    t.assertEquals(attempts, ['GET', 'GET'])
+  })
+
+  it("retries a POST on 429 only" , async () => {
+    const [failing, failed] = clientAnswering([500, 200])
+    const [, err] = await failing.post(url, { a: 1 })
+    t.assert(err)
+    t.assertEquals(failed, ['POST'])
+
+    const [limited, attempts] = clientAnswering([429, 200])
+    const [res, limitedErr] = await limited.post(url, { a: 1 })
+    t.assertEquals(limitedErr, undefined)
+    t.assertEquals(res, { ok: true })
+    t.assertEquals(attempts, ['POST', 'POST'])
+  })
+
+  it("does not replay a stream body" , async () => {
+    const [client, attempts] = clientAnswering([503, 200])
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data'))
+        controller.close()
+      },
+    })
+    const [, err] = await client.put(url, undefined, { body: body })
+    t.assert(err)
+    t.assertEquals(attempts, ['PUT'])
+  })
+
+  it("gives up when Retry-After exceeds the maximum delay" , async () => {
+    const [client, attempts] = clientAnswering([429, 200], { 'Retry-After': '60' }, { maxDelayMs: 1000 })
+    const [, err] = await client.get(url)
+    t.assert(err instanceof RateLimitedError)
+    t.assertEquals(err.retryAfterMs, 60000)
+    t.assertEquals(attempts, ['GET'])
+  })
+
+  it("retries transport errors unless they are final" , async () => {
+    const thrown = [new TypeError('connection reset'), new FinalTransportError('no response for the request')]
+    for (const error of thrown) {
+      let attempts = 0
+      const client = new Client('token', environment.derive({
+        transport: () => {
+          attempts++
+          return Promise.reject(error)
+        },
+        retryPolicy: { jitter: 'none', baseDelayMs: 1, maxAttempts: 2 },
+      }))
+      const rejected = await t.assertRejects(() => client.get(url))
+      t.assertEquals(attempts, error instanceof FinalTransportError ? 1 : 2)
+      t.assert(error instanceof FinalTransportError ? rejected === error : rejected instanceof NetworkError)
+    }
+  })
+
+})
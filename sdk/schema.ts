@@ -0,0 +1,439 @@
+import { RequestOptions } from './abort.ts';
+import type { Access, Project } from './project.ts';
+import { AttributeType, type Attribute, type StructuredObject } from './structuredObject.ts';
+import { parseYaml, stringifyYaml } from './deps.ts';
+
+/**
+ * Version of the schema documents written by {@link exportSchema}.
+ */
+export const schemaVersion = 1;
+
+/**
+ * Data model of a project: its languages, objects and attributes.
+ */
+export interface SchemaDocument {
+  version: number;
+  languages: {
+    allowed: string[];
+    default?: string;
+  };
+  objects: ObjectSchema[];
+}
+
+export interface ObjectSchema {
+  name: string;
+  apiName: string;
+  isList: boolean;
+  isGlobal: boolean;
+  keyProperty?: string;
+  access?: Access;
+  /**
+   * Attributes in display order. Translation attributes are listed with the attribute they translate.
+   */
+  attributes: AttributeSchema[];
+}
+
+export interface AttributeSchema {
+  name: string;
+  apiName: string;
+  type: AttributeType;
+  /**
+   * Translation attributes by language.
+   */
+  translations?: { [language: string]: { name: string; apiName: string } };
+}
+
+/**
+ * A change needed to turn a schema into another, see {@link diffSchemas}.
+ * Changes on translation attributes have the translated attribute as `parent`.
+ */
+export interface SchemaChange {
+  action: 'create' | 'update' | 'delete' | 'replace';
+  target: 'languages' | 'object' | 'attribute';
+  object?: string;
+  attribute?: string;
+  parent?: string;
+  language?: string;
+  /**
+   * Fields changed by an update, or that cannot be updated and cause a replace.
+   */
+  fields?: string[];
+}
+
+/**
+ * Options of {@link importSchema}.
+ */
+export interface SchemaImportOptions extends RequestOptions {
+  /**
+   * Also apply the deletes and replaces: delete objects and attributes missing from the
+   * document and recreate the ones whose type changed. Their data is lost.
+   */
+  destructive?: boolean;
+  /**
+   * Compute the changes without applying them.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of {@link importSchema}.
+ */
+export interface SchemaImportResult {
+  applied: SchemaChange[];
+  /**
+   * Deletes and replaces that were not applied because the import was not destructive.
+   */
+  skipped: SchemaChange[];
+}
+
+// Attribute type codes, see StructuredObject.newAttribute
+const attributeTypes: AttributeType[] = [
+  AttributeType.String,
+  AttributeType.Number,
+  AttributeType.Datetime,
+  AttributeType.Richtext,
+  AttributeType.File,
+  AttributeType.Boolean,
+];
+
+/**
+ * Read the data model of a project.
+ */
+export async function exportSchema(project: Project, options?: RequestOptions): Promise<SchemaDocument> {
+  const allowed = await project.getAllowedLanguages(options);
+  const defaultLanguage = await project.getDefaultLanguage(options);
+
+  const objects = await project.getObjects(options);
+  objects.sort((a, b) => a.apiName < b.apiName ? -1 : a.apiName > b.apiName ? 1 : 0);
+
+  const result: ObjectSchema[] = [];
+  for (const object of objects) {
+    const attributes = displayOrder(await object.getAttributes(options));
+    const schema: ObjectSchema = {
+      name: object.name,
+      apiName: object.apiName,
+      isList: object.isList,
+      isGlobal: object.isGlobal,
+      attributes: [],
+    };
+    if (object.keyProperty) {
+      schema.keyProperty = object.keyProperty;
+    }
+    if (object.access) {
+      schema.access = object.access;
+    }
+    for (const attribute of attributes.filter(a => !(a.parent && a.language))) {
+      const translations = attributes.filter(a => a.language && (a.parent === attribute.apiName || a.parent === attribute.$qid));
+      schema.attributes.push({
+        name: attribute.name,
+        apiName: attribute.apiName,
+        type: attributeTypes[attribute.type - 1] ?? AttributeType.String,
+        ...translations.length > 0 ? {
+          translations: Object.fromEntries(translations.map(t => [t.language, { name: t.name, apiName: t.apiName }])),
+        } : {},
+      });
+    }
+    result.push(schema);
+  }
+
+  return {
+    version: schemaVersion,
+    languages: {
+      allowed: (allowed ?? []).map(l => l.apiName),
+      default: defaultLanguage?.apiName || undefined,
+    },
+    objects: result,
+  };
+}
+
+/**
+ * Compute the changes that turn the `current` schema into the `target` schema, in the
+ * order they are applied by {@link importSchema}.
+ *
+ * Objects and attributes are matched by apiName. A type change, or a change of `isList` or
+ * `isGlobal` of an object, cannot be updated and is a replace.
+ */
+export function diffSchemas(current: SchemaDocument, target: SchemaDocument): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  const sameLanguages = current.languages.allowed.length === target.languages.allowed.length
+    && target.languages.allowed.every(l => current.languages.allowed.includes(l));
+  if (!sameLanguages || (target.languages.default && target.languages.default !== current.languages.default)) {
+    changes.push({ action: 'update', target: 'languages' });
+  }
+
+  for (const object of target.objects) {
+    const existing = current.objects.find(o => o.apiName === object.apiName);
+    const replaced = existing && (existing.isList !== object.isList || existing.isGlobal !== object.isGlobal);
+    if (!existing || replaced) {
+      changes.push(replaced
+        ? { action: 'replace', target: 'object', object: object.apiName, fields: replacedFields(existing, object) }
+        : { action: 'create', target: 'object', object: object.apiName });
+      changes.push(...diffAttributes(object.apiName, [], object.attributes));
+      if (object.keyProperty) {
+        changes.push({ action: 'update', target: 'object', object: object.apiName, fields: ['keyProperty'] });
+      }
+      continue;
+    }
+
+    changes.push(...diffAttributes(object.apiName, existing.attributes, object.attributes));
+
+    const fields: string[] = [];
+    if (existing.name !== object.name) {
+      fields.push('name');
+    }
+    if (object.keyProperty && existing.keyProperty !== object.keyProperty) {
+      fields.push('keyProperty');
+    }
+    if (object.access && JSON.stringify(existing.access ?? {}) !== JSON.stringify(object.access)) {
+      fields.push('access');
+    }
+    // New attributes are added at the end
+    const kept = existing.attributes.map(a => a.apiName).filter(a => object.attributes.some(t => t.apiName === a));
+    const order = [...kept, ...object.attributes.map(a => a.apiName).filter(a => !kept.includes(a))];
+    if (order.join('\n') !== object.attributes.map(a => a.apiName).join('\n')) {
+      fields.push('attributeOrder');
+    }
+    if (fields.length > 0) {
+      changes.push({ action: 'update', target: 'object', object: object.apiName, fields: fields });
+    }
+  }
+
+  for (const object of current.objects) {
+    if (!target.objects.some(o => o.apiName === object.apiName)) {
+      changes.push({ action: 'delete', target: 'object', object: object.apiName });
+    }
+  }
+
+  return changes;
+}
+
+function replacedFields(current: ObjectSchema, target: ObjectSchema): string[] {
+  const fields: string[] = [];
+  if (current.isList !== target.isList) {
+    fields.push('isList');
+  }
+  if (current.isGlobal !== target.isGlobal) {
+    fields.push('isGlobal');
+  }
+  return fields;
+}
+
+function diffAttributes(object: string, current: AttributeSchema[], target: AttributeSchema[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  for (const attribute of current) {
+    if (!target.some(a => a.apiName === attribute.apiName)) {
+      changes.push({ action: 'delete', target: 'attribute', object: object, attribute: attribute.apiName });
+    }
+  }
+
+  for (const attribute of target) {
+    const existing = current.find(a => a.apiName === attribute.apiName);
+    if (!existing) {
+      changes.push({ action: 'create', target: 'attribute', object: object, attribute: attribute.apiName });
+    } else if (existing.type !== attribute.type) {
+      changes.push({ action: 'replace', target: 'attribute', object: object, attribute: attribute.apiName, fields: ['type'] });
+    } else if (existing.name !== attribute.name) {
+      changes.push({ action: 'update', target: 'attribute', object: object, attribute: attribute.apiName, fields: ['name'] });
+    }
+
+    // A replaced attribute loses its translations
+    const currentTranslations = existing && existing.type === attribute.type ? existing.translations ?? {} : {};
+    const targetTranslations = attribute.translations ?? {};
+    for (const [language, translation] of Object.entries(currentTranslations)) {
+      const wanted = targetTranslations[language];
+      if (!wanted || wanted.apiName !== translation.apiName) {
+        changes.push({ action: 'delete', target: 'attribute', object: object, attribute: translation.apiName, parent: attribute.apiName, language: language });
+      }
+    }
+    for (const [language, translation] of Object.entries(targetTranslations)) {
+      const have = currentTranslations[language];
+      if (!have || have.apiName !== translation.apiName) {
+        changes.push({ action: 'create', target: 'attribute', object: object, attribute: translation.apiName, parent: attribute.apiName, language: language });
+      } else if (have.name !== translation.name) {
+        changes.push({ action: 'update', target: 'attribute', object: object, attribute: translation.apiName, parent: attribute.apiName, language: language, fields: ['name'] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply a schema document to a project with the minimal set of changes, see {@link diffSchemas}.
+ * Deletes and replaces are only applied when the import is destructive.
+ */
+export async function importSchema(project: Project, target: SchemaDocument, options?: SchemaImportOptions): Promise<SchemaImportResult> {
+  checkVersion(target);
+  const changes = diffSchemas(await exportSchema(project, options), target);
+  const result: SchemaImportResult = { applied: [], skipped: [] };
+  const kept = new Set<string>();
+  for (const change of changes) {
+    if ((change.action === 'delete' || change.action === 'replace') && !options?.destructive) {
+      // The other changes of an object that is not replaced do not apply to it
+      if (change.target === 'object') {
+        kept.add(change.object!);
+      }
+      result.skipped.push(change);
+      continue;
+    }
+    if (change.object && kept.has(change.object)) {
+      result.skipped.push(change);
+      continue;
+    }
+    if (!options?.dryRun) {
+      await applyChange(project, target, change, options);
+    }
+    result.applied.push(change);
+  }
+  return result;
+}
+
+async function applyChange(project: Project, target: SchemaDocument, change: SchemaChange, options?: RequestOptions): Promise<void> {
+  const object = target.objects.find(o => o.apiName === change.object);
+
+  if (change.target === 'languages') {
+    await project.setAllowedLanguages(target.languages.allowed, target.languages.default, options);
+    return;
+  }
+
+  if (change.target === 'object') {
+    if (change.action === 'delete' || change.action === 'replace') {
+      await project.deleteObject(change.object!, options);
+    }
+    if (change.action === 'create' || change.action === 'replace') {
+      await project.newObject(object!.name, object!.apiName, object!.isList, object!.isGlobal, undefined, object!.access, options);
+    }
+    if (change.action === 'update') {
+      const structured = await project.getObject(change.object!, options);
+      for (const field of change.fields ?? []) {
+        switch (field) {
+          case 'name':
+            await structured.rename(object!.name, options);
+            break;
+          case 'keyProperty':
+            await structured.updateKeyAttribute(object!.keyProperty!, options);
+            break;
+          case 'access':
+            await structured.updateAccess(object!.access!, options);
+            break;
+          case 'attributeOrder':
+            await reorderAttributes(structured, object!.attributes, options);
+            break;
+        }
+      }
+    }
+    return;
+  }
+
+  const structured = await project.getObject(change.object!, options);
+  if (change.action === 'delete' || change.action === 'replace') {
+    await structured.deleteAttribute(change.attribute!, options);
+  }
+  if (change.action === 'create' || change.action === 'replace') {
+    await createAttribute(structured, object!, change, options);
+  }
+  if (change.action === 'update') {
+    const attribute = await findAttribute(structured, change.attribute!, options);
+    await structured.updateAttribute({ ...attribute, name: wantedName(object!, change) }, options);
+  }
+}
+
+function wantedName(object: ObjectSchema, change: SchemaChange): string {
+  if (change.parent) {
+    return object.attributes.find(a => a.apiName === change.parent)!.translations![change.language!].name;
+  }
+  return object.attributes.find(a => a.apiName === change.attribute)!.name;
+}
+
+async function createAttribute(structured: StructuredObject, object: ObjectSchema, change: SchemaChange, options?: RequestOptions): Promise<void> {
+  const name = wantedName(object, change);
+  let created: Attribute;
+  if (change.parent) {
+    [created] = await structured.addTranslationAttribute({ [change.language!]: name }, change.parent, options);
+    if (!created) {
+      throw new Error(`failed to create translation attribute ${change.attribute}`);
+    }
+  } else {
+    const type = object.attributes.find(a => a.apiName === change.attribute)!.type;
+    created = await structured.newAttribute(name, type, undefined, options);
+  }
+  // The apiName is derived from the name on creation
+  if (created.apiName !== change.attribute) {
+    await structured.updateAttribute({ ...created, apiName: change.attribute! }, options);
+  }
+}
+
+/**
+ * Sort attributes in display order: each attribute comes right before its `nextProperty`.
+ * Attributes without one, or with an unknown one, end a run of attributes; the runs keep
+ * the order of their first attribute in the list.
+ */
+function displayOrder(attributes: Attribute[]): Attribute[] {
+  const byName = new Map(attributes.map(a => [a.apiName, a]));
+  const preceded = new Set(attributes.map(a => a.nextProperty).filter(n => n && byName.has(n)));
+  const ordered: Attribute[] = [];
+  const placed = new Set<Attribute>();
+  const run = (first: Attribute) => {
+    for (let a: Attribute | undefined = first; a && !placed.has(a); a = byName.get(a.nextProperty)) {
+      placed.add(a);
+      ordered.push(a);
+    }
+  };
+  attributes.filter(a => !preceded.has(a.apiName)).forEach(run);
+  // Attributes in a cycle of nextProperty
+  attributes.forEach(run);
+  return ordered;
+}
+
+/**
+ * Place each attribute before the next one in the document, starting from the last one.
+ */
+async function reorderAttributes(structured: StructuredObject, wanted: AttributeSchema[], options?: RequestOptions): Promise<void> {
+  const attributes = await structured.getAttributes(options);
+  for (let i = wanted.length - 1; i >= 0; i--) {
+    const attribute = attributes.find(a => a.apiName === wanted[i].apiName);
+    if (attribute) {
+      await structured.updateAttribute({ ...attribute, nextProperty: wanted[i + 1]?.apiName ?? '' }, options);
+    }
+  }
+}
+
+async function findAttribute(structured: StructuredObject, apiName: string, options?: RequestOptions): Promise<Attribute> {
+  const attribute = (await structured.getAttributes(options)).find(a => a.apiName === apiName);
+  if (!attribute) {
+    throw new Error(`attribute ${apiName} of ${structured.apiName} not found`);
+  }
+  return attribute;
+}
+
+function checkVersion(doc: SchemaDocument) {
+  if (!doc || typeof doc.version !== 'number' || !Array.isArray(doc.objects) || !doc.languages) {
+    throw new Error('not a schema document');
+  }
+  if (doc.version > schemaVersion) {
+    throw new Error(`unsupported schema version ${doc.version}`);
+  }
+}
+
+/**
+ * Serialize a schema document as JSON or YAML.
+ */
+export function stringifySchema(doc: SchemaDocument, format: 'json' | 'yaml' = 'json'): string {
+  if (format === 'yaml') {
+    return stringifyYaml(JSON.parse(JSON.stringify(doc)));
+  }
+  return JSON.stringify(doc, null, 2) + '\n';
+}
+
+/**
+ * Parse a schema document written by {@link stringifySchema}, as JSON or YAML.
+ */
+export function parseSchema(text: string, format?: 'json' | 'yaml'): SchemaDocument {
+  const doc = (format ?? (text.trimStart().startsWith('{') ? 'json' : 'yaml')) === 'json'
+    ? JSON.parse(text)
+    : parseYaml(text);
+  checkVersion(doc as SchemaDocument);
+  return doc as SchemaDocument;
+}
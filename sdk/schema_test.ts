@@ -0,0 +1,93 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { BagType, Project } from "./project.ts";
+import { AttributeType } from "./structuredObject.ts";
+import { SchemaDocument, parseSchema, stringifySchema } from "./schema.ts";
+import { withFakeProject } from "./testing.ts";
+
+describe("Schema", ()=>{
+  const fake = withFakeProject({ name: 'staging' })
+  let staging:Project
+  let production:Project
+  let schema:SchemaDocument
+
+  beforeAll(async ()=> {
+    staging = fake.project
+    production = new Project(fake.server.createProject('production').apiKey)
+
+    await staging.setAllowedLanguages(['en', 'fr'], 'fr')
+    const product = await staging.newObject('Product', 'product', true, false, 'sku', { read: [BagType.Download] })
+    await product.newAttribute('name')
+    await product.newAttribute('price', 'number')
+    await product.addTranslationAttribute({ fr: 'name fr' }, 'name')
+    const settings = await staging.newObject('Settings', 'settings')
+    await settings.newAttribute('currency')
+  })
+
+  it("exports objects, attributes and languages" , async () => {
+    schema = await staging.exportSchema()
+    t.assertEquals(schema.version, 1)
+    t.assertEquals(schema.languages, { allowed: ['en', 'fr'], default: 'fr' })
+    t.assertEquals(schema.objects.map(o => o.apiName), ['product', 'settings'])
+    t.assertEquals(schema.objects[0].keyProperty, 'sku')
+    t.assertEquals(schema.objects[0].access, { read: [BagType.Download] })
+    t.assertEquals(schema.objects[0].attributes, [
+      { name: 'sku', apiName: 'sku', type: AttributeType.String },
+      { name: 'name', apiName: 'name', type: AttributeType.String, translations: { fr: { name: 'name fr', apiName: 'nameFr' } } },
+      { name: 'price', apiName: 'price', type: AttributeType.Number },
+    ])
+  })
+
+  it("round-trips JSON and YAML" , () => {
+    t.assertEquals(parseSchema(stringifySchema(schema)), schema)
+    t.assertEquals(parseSchema(stringifySchema(schema, 'yaml')), schema)
+    t.assertThrows(() => parseSchema('{"version": 2, "languages": {"allowed": []}, "objects": []}'))
+  })
+
+  it("promotes a schema to another project" , async () => {
+    const changes = await production.diffSchema(schema)
+    t.assertEquals(changes.filter(c => c.target === 'object' && c.action === 'create').map(c => c.object), ['product', 'settings'])
+
+    const result = await production.importSchema(schema)
+    t.assertEquals(result.applied, changes)
+    t.assertEquals(await production.exportSchema(), schema)
+    t.assertEquals(await production.diffSchema(schema), [])
+  })
+
+  it("applies updates and orders attributes" , async () => {
+    const target: SchemaDocument = structuredClone(schema)
+    const product = target.objects[0]
+    product.name = 'Products'
+    product.attributes = [product.attributes[2], product.attributes[0], product.attributes[1]]
+    product.attributes[0].name = 'Price'
+    product.attributes.push({ name: 'stock', apiName: 'stock', type: AttributeType.Number })
+
+    t.assertEquals(await production.diffSchema(target), [
+      { action: 'update', target: 'attribute', object: 'product', attribute: 'price', fields: ['name'] },
+      { action: 'create', target: 'attribute', object: 'product', attribute: 'stock' },
+      { action: 'update', target: 'object', object: 'product', fields: ['name', 'attributeOrder'] },
+    ])
+    await production.importSchema(target)
+    t.assertEquals(await production.exportSchema(), target)
+  })
+
+  it("only deletes and replaces when destructive" , async () => {
+    const target: SchemaDocument = structuredClone(schema)
+    target.objects = [target.objects[0]]
+    target.objects[0].attributes[2].type = AttributeType.String
+
+    const dryRun = await production.importSchema(target, { destructive: true, dryRun: true })
+    t.assertEquals(dryRun.skipped, [])
+
+    const kept = await production.importSchema(target)
+    t.assertEquals(kept.skipped.map(c => `${c.action} ${c.object} ${c.attribute ?? ''}`), [
+      'delete product stock',
+      'replace product price',
+      'delete settings ',
+    ])
+
+    await production.importSchema(target, { destructive: true })
+    t.assertEquals(await production.exportSchema(), target)
+  })
+
+})
@@ -5,6 +5,11 @@
  */
 
 import { environment } from './environment.ts'
+import { RetryPolicy } from './retry.ts'
+import { Middleware, Transport } from './middleware.ts'
+import { Logger } from './logger.ts'
+import { Codec } from './codec.ts'
+import { checkTimeZone } from './datetime.ts'
 
 
 /**
@@ -39,9 +44,9 @@ export function setCachingHost(host: string): void {
  * 
  * @param logLevel
  * * none: no logging
-* single: shows a single line with method, path and status
-* headers: shows request method, path headers and response status and headers
-* body: same as headers but also shows request/response body when body is json
+* single: logs a single entry per response with method, url, status and duration
+* headers: same as single plus an entry per request, both with their headers
+* body: same as headers but also logs request/response bodies when they are text
 * return the previous level
  * 
  * @hidden
@@ -50,4 +55,98 @@ export function setCachingHost(host: string): void {
   const prev = environment.logLevel
   environment.logLevel = logLevel;
   return prev === undefined ? 'none' : prev
-}  
\ No newline at end of file
+}  
+
+/**
+ * setRetryPolicy sets the default retry policy for all requests.
+ * Fields that are not passed keep their default value.
+ * Projects and views can override it with their own setRetryPolicy.
+ * 
+ * Example:
+ * ```js
+ * setRetryPolicy({ maxAttempts: 5, baseDelayMs: 500 })
+ * ```
+ */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  environment.retryPolicy = policy;
+}
+
+/**
+ * setRequestTimeout sets the default timeout in milliseconds for every call
+ * that does not pass its own timeoutMs. 0 disables the default timeout.
+ */
+export function setRequestTimeout(timeoutMs: number): void {
+  environment.timeoutMs = timeoutMs;
+}
+
+/**
+ * setTransport replaces the global fetch used for all requests.
+ * Pass undefined to restore the default.
+ * Projects and views can override it with their own setTransport.
+ */
+export function setTransport(transport: Transport | undefined): void {
+  environment.transport = transport;
+}
+
+/**
+ * useMiddleware adds middleware that runs for every request,
+ * before the middleware added to projects and views.
+ * 
+ * Example:
+ * ```js
+ * useMiddleware({
+ *   beforeRequest: (req) => { req.headers.set('X-Correlation-Id', id) },
+ * })
+ * ```
+ */
+export function useMiddleware(middleware: Middleware): void {
+  environment.middleware.push(middleware);
+}
+
+/**
+ * setLogger replaces the logger receiving the request logs, see {@link Logger}.
+ * The default logger writes JSON lines to the console.
+ * The log level still decides which entries are produced.
+ * 
+ * Example:
+ * ```js
+ * setLogger({
+ *   debug: (msg, fields) => log.debug(fields, msg),
+ *   info: (msg, fields) => log.info(fields, msg),
+ *   warn: (msg, fields) => log.warn(fields, msg),
+ *   error: (msg, fields) => log.error(fields, msg),
+ * })
+ * setLogLevel('single')
+ * ```
+ */
+export function setLogger(logger: Logger): void {
+  environment.logger = logger;
+}
+
+/**
+ * setTimeZone sets the time zone datetimes are sent in and datetimes without an offset
+ * are read in, 'UTC' or an IANA name such as `Europe/Brussels`. The default is 'UTC'.
+ * Pass `timeZone` in a {@link TwintagConfig} or in the options of a call to override it.
+ */
+export function setTimeZone(timeZone: string): void {
+  environment.timeZone = checkTimeZone(timeZone);
+}
+
+/**
+ * registerCodec adds a codec converting attribute values of records, bag data and bag metadata,
+ * see {@link Codec}. Configurations passed to a Project or View after this call include it;
+ * pass `codecs` in the {@link TwintagConfig} to add codecs to one project only.
+ * 
+ * Example:
+ * ```js
+ * registerCodec({
+ *   type: 'dateTime',
+ *   accepts: (value) => value instanceof Temporal.Instant,
+ *   encode: (value) => value.toString(),
+ *   decode: (value) => Temporal.Instant.from(value),
+ * })
+ * ```
+ */
+export function registerCodec(codec: Codec): void {
+  environment.codecs.register(codec);
+}
@@ -1,6 +1,8 @@
 import { Twintag } from "./twintag.ts";
 import { View } from "./view.ts";
-import { Folder } from "./folder.ts";
+import { CopyOptions, FileInfo, Folder, GlobOptions, ReaddirOptions, RemoveOptions, WalkEntry, WalkOptions } from "./folder.ts";
+import { RequestOptions } from "./abort.ts";
+import { ListingCacheOptions } from "./cache.ts";
 
 export class StorageBag {
   twt:Twintag
@@ -10,21 +12,77 @@ export class StorageBag {
   constructor(twt:Twintag, bag?:View) {
     this.twt = twt
     this.bag = bag ? bag : null
+    this.rootFolder = bag ? new Folder(this.twt, bag, '/', '') : null
   }
 
-  async create() {
-    this.bag = await this.twt.project.createBag()
+  async create(options?:RequestOptions) {
+    this.bag = await this.twt.project.createBag(options)
     this.rootFolder = new Folder(this.twt, this.bag, '/', '')
   }
 
-  async delete() {
+  async delete(options?:RequestOptions) {
     if (this.bag === null) {
       throw Error('bag delete; bag not created')
     }
-    await this.bag.deleteProjectTwintag()
+    await this.bag.deleteProjectTwintag(options)
   }
 
- 
-  
+  // Caches listings and paths for all folders of the bag, see View.useListingCache
+  useListingCache(options:ListingCacheOptions|boolean = true) {
+    if (this.bag === null) {
+      throw Error('bag cache; bag not created')
+    }
+    this.bag.useListingCache(options)
+    return this.bag.listingCache
+  }
+
+  /*
+    Path Ops, see Folder
+  */
+
+  async stat(path:string, options?:RequestOptions) {
+    return await this.#root('stat').stat(path, options)
+  }
+
+  async exists(path:string, options?:RequestOptions) {
+    return await this.#root('exists').exists(path, options)
+  }
+
+  async mkdirp(path:string, options?:RequestOptions) {
+    return await this.#root('mkdirp').mkdirp(path, options)
+  }
+
+  async rm(path:string, options?:RemoveOptions) {
+    return await this.#root('rm').rm(path, options)
+  }
+
+  async mv(from:string, to:string, options?:CopyOptions) {
+    return await this.#root('mv').mv(from, to, options)
+  }
+
+  async cp(from:string, to:string, options?:CopyOptions) {
+    return await this.#root('cp').cp(from, to, options)
+  }
+
+  async readdir(path?:string, options?:ReaddirOptions & { withFileTypes?: false }):Promise<string[]>
+  async readdir(path:string, options:ReaddirOptions & { withFileTypes: true }):Promise<FileInfo[]>
+  async readdir(path = '/', options?:ReaddirOptions):Promise<string[]|FileInfo[]> {
+    return await this.#root('readdir').readdir(path, options as ReaddirOptions & { withFileTypes: true })
+  }
+
+  walk(options?:WalkOptions):AsyncGenerator<WalkEntry> {
+    return this.#root('walk').walk(options)
+  }
+
+  glob(pattern:string, options?:GlobOptions):AsyncGenerator<WalkEntry> {
+    return this.#root('glob').glob(pattern, options)
+  }
+
+  #root(op:string):Folder {
+    if (this.rootFolder === null) {
+      throw Error(`bag ${op}; bag not created`)
+    }
+    return this.rootFolder
+  }
 
 }
\ No newline at end of file
@@ -1,32 +1,60 @@
-import { config }  from "./deps.ts"
 import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
-import { beforeAll, afterAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
-import { Twintag } from "./twintag.ts"
-import { StorageBag } from "./storage_bag.ts";
+import { describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { ConflictError, FileExistsError, FileNotFoundError } from "./error.model.ts";
+import { withBag } from "./testing.ts";
 
 describe("StorageBag", ()=>{
-  let twt:Twintag
-  let bag:StorageBag|null = null
-
-  beforeAll(async ()=> {
-    const cfg  = await config()
-    
-    twt = new Twintag(cfg["PROJECT_APIKEY"], cfg["TEMPLATE_VIEWER_QID"], cfg["SUBDOMAIN"])
-    twt.setHost('https://twintag.io')
-    twt.setAdminHost('https://admin.twintag.io')
-    twt.setLogLevel('none')
-
-    bag = new StorageBag(twt)
-    await bag.create()
+  const fixture = withBag({ live: true })
+
+  it("checks root folder" , () => {
+    const folder = fixture.bag.rootFolder
+    t.assert(folder)
   })
 
-  afterAll(async ()=> {
-    await bag?.delete()
+  it("creates nested folders" , async () => {
+    const folder = await fixture.bag.mkdirp('/reports//2022/./q1/')
+    t.assertEquals(folder.name, 'q1')
+    t.assertEquals(folder.path, '/reports/2022/q1')
+    t.assertEquals((await fixture.bag.mkdirp('/reports/2022')).name, '2022')
+    await folder.writeFromString('summary.txt', 'sum')
+    await t.assertRejects(() => fixture.bag.mkdirp('/reports/2022/q1/summary.txt/x'), FileExistsError)
   })
 
-  it("checks root folder" , () => {
-    const folder = bag?.rootFolder
-    t.assert(folder)
+  it("stats paths" , async () => {
+    const info = await fixture.bag.stat('/reports/2022/q1/../q1/summary.txt')
+    t.assertEquals([info.name, info.type, info.size], ['summary.txt', 'file', 3])
+    t.assertEquals((await fixture.bag.stat('/reports')).type, 'folder')
+    t.assertEquals(await fixture.bag.exists('/reports/2023'), false)
+    const err = await t.assertRejects(() => fixture.bag.stat('/reports/2023/q1'), FileNotFoundError)
+    t.assertEquals((err as FileNotFoundError).path, '/reports/2023')
+  })
+
+  it("resolves relative paths from a folder" , async () => {
+    const year = await fixture.bag.rootFolder!.resolve('/reports/2022')
+    t.assertEquals(await year!.readdir('q1'), ['summary.txt'])
+    t.assertEquals(await year!.exists('../2022/q1/summary.txt'), true)
+    const items = await year!.readdir('.', { withFileTypes: true })
+    t.assertEquals(items.map(i => [i.name, i.type]), [['q1', 'folder']])
+    await t.assertRejects(() => year!.readdir('q1/summary.txt'), FileNotFoundError)
+  })
+
+  it("copies and moves paths" , async () => {
+    await fixture.bag.cp('/reports/2022/q1/summary.txt', '/reports/2022/q1/copy.txt')
+    await t.assertRejects(() => fixture.bag.cp('/reports/2022/q1/summary.txt', '/reports/2022/q1/copy.txt'), FileExistsError)
+    await fixture.bag.mv('/reports/2022/q1/copy.txt', '/reports')
+    t.assertEquals(await fixture.bag.readdir('/reports'), ['2022', 'copy.txt'])
+    await fixture.bag.mv('/reports/copy.txt', '/moved.txt')
+    t.assertEquals(await fixture.bag.readdir('/'), ['reports', 'moved.txt'])
+    await t.assertRejects(() => fixture.bag.mv('/moved.txt', '/missing/moved.txt'), FileNotFoundError)
+  })
+
+  it("removes paths" , async () => {
+    await t.assertRejects(() => fixture.bag.rm('/reports'), ConflictError)
+    await t.assertRejects(() => fixture.bag.rm('/missing'), FileNotFoundError)
+    await fixture.bag.rm('/missing', { force: true })
+    await fixture.bag.rm('/reports', { recursive: true })
+    await fixture.bag.rm('moved.txt')
+    t.assertEquals(await fixture.bag.readdir(), [])
   })
 
 
@@ -1,6 +1,6 @@
 import { Access } from './project.ts';
 import { Client } from './client.ts';
-import { environment } from './environment.ts';
+import { RequestOptions } from './abort.ts';
 
 /**
  * StructuredObject class represents an object of a project.
@@ -24,21 +24,22 @@ export class StructuredObject {
    * Create an object of StructuredObject
    *
    * @param apiKey You'll find the API Key on the ZAZA Enterprise project page.
+   * @param client Internal parameter, the client of the project this object belongs to.
    */
-  constructor(apiKey: string, useCaching: boolean = false) {
-    this.client = new Client(apiKey);
+  constructor(apiKey: string, useCaching: boolean = false, client?: Client) {
+    this.client = client ?? new Client(apiKey);
     this._useCaching = useCaching;
   }
 
   /**
    * Get the attributes of the object of the project. Returns the list of attributes.
    */
-  public async getAttributes(): Promise<Attribute[]> {
+  public async getAttributes(options?: RequestOptions): Promise<Attribute[]> {
     const url = this.getURL(
       `/property?object=${this.apiName}&`,
       this.$schemaScope
     );
-    const [res, err] = await this.client.get<Attribute[]>(url);
+    const [res, err] = await this.client.get<Attribute[]>(url, options);
     if (err) {
       err.setMessage(`failed to get attributes: ${err.message}`);
       throw err;
@@ -53,14 +54,15 @@ export class StructuredObject {
    * @param attributeName Name of the attribute
    */
   public async getAttribute<attribute>(
-    attributeName: string
+    attributeName: string,
+    options?: RequestOptions
   ): Promise<attribute> {
     const url = this.getURL(
       `/property?object=${this.apiName}&property=${attributeName}&`,
       this.$schemaScope
     );
 
-    const [res, err] = await this.client.get<attribute>(url);
+    const [res, err] = await this.client.get<attribute>(url, options);
     if (err) {
       err.setMessage(
         `failed to get attribute for ${attributeName}: ${err.message}`
@@ -81,9 +83,10 @@ export class StructuredObject {
   public async newAttribute(
     attributeName: string,
     type?: string | AttributeType,
-    positionBefore?: string
+    positionBefore?: string,
+    options?: RequestOptions
   ): Promise<Attribute> {
-    const url = environment.adminHost + '/api/v1/property';
+    const url = this.client.config.adminHost + '/api/v1/property';
 
     const reqProperty = {
       $object: this.apiName,
@@ -92,7 +95,7 @@ export class StructuredObject {
       nextProperty: positionBefore,
     };
 
-    const [res, err] = await this.client.put<Attribute>(url, reqProperty);
+    const [res, err] = await this.client.put<Attribute>(url, reqProperty, options);
     if (err) {
       err.setMessage(`failed to create new attribute: ${err.message}`);
       throw err;
@@ -106,15 +109,15 @@ export class StructuredObject {
    *
    * @param attributeName Name of the attribute
    */
-  public async deleteAttribute(attributeName: string): Promise<void> {
-    const url = environment.adminHost + '/api/v1/property';
+  public async deleteAttribute(attributeName: string, options?: RequestOptions): Promise<void> {
+    const url = this.client.config.adminHost + '/api/v1/property';
 
     const reqProperty = {
       $object: this.apiName,
       name: attributeName,
     };
 
-    const [, err] = await this.client.delete<Attribute>(url, reqProperty);
+    const [, err] = await this.client.delete<Attribute>(url, reqProperty, options);
     if (err) {
       err.setMessage(
         `failed to delete attribute: ${attributeName}: ${err.message}`
@@ -130,9 +133,10 @@ export class StructuredObject {
    *
    */
   public async updateAttribute<attribute>(
-    property: Attribute
+    property: Attribute,
+    options?: RequestOptions
   ): Promise<attribute> {
-    const url = environment.adminHost + '/api/v1/property';
+    const url = this.client.config.adminHost + '/api/v1/property';
 
     if (!property.$qid) {
       throw new Error(`$qid is not provided in the request object`);
@@ -146,7 +150,7 @@ export class StructuredObject {
       apiName: property.apiName,
     };
 
-    const [res, err] = await this.client.put<attribute>(url, reqProperty);
+    const [res, err] = await this.client.put<attribute>(url, reqProperty, options);
     if (err) {
       err.setMessage(
         `failed to update attribute: ${property.name}: ${err.message}`
@@ -161,15 +165,15 @@ export class StructuredObject {
    * Rename the object
    * @param newName
    */
-  public async rename(newName: string): Promise<StructuredObject> {
-    const url = environment.adminHost + '/api/v1/object';
+  public async rename(newName: string, options?: RequestOptions): Promise<StructuredObject> {
+    const url = this.client.config.adminHost + '/api/v1/object';
 
     const reqobject = {
       $qid: this.$qid,
       name: newName,
     };
 
-    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject);
+    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject, options);
     if (err) {
       err.setMessage(`failed to rename structured object: ${err.message}`);
       throw err;
@@ -186,16 +190,17 @@ export class StructuredObject {
    * @param attributeName
    */
   public async updateKeyAttribute(
-    attributeName: string
+    attributeName: string,
+    options?: RequestOptions
   ): Promise<StructuredObject> {
-    const url = environment.adminHost + '/api/v1/object';
+    const url = this.client.config.adminHost + '/api/v1/object';
 
     const reqobject = {
       $qid: this.$qid,
       keyProperty: attributeName,
     };
 
-    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject);
+    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject, options);
     if (err) {
       err.setMessage(`failed to update key property of object: ${err.message}`);
       throw err;
@@ -207,15 +212,15 @@ export class StructuredObject {
   /**
    * Update the access of the object.
    */
-  public async updateAccess(access: Access): Promise<StructuredObject> {
-    const url = environment.adminHost + '/api/v1/object';
+  public async updateAccess(access: Access, options?: RequestOptions): Promise<StructuredObject> {
+    const url = this.client.config.adminHost + '/api/v1/object';
 
     const reqobject = {
       $qid: this.$qid,
       access: access,
     };
 
-    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject);
+    const [resp, err] = await this.client.put<StructuredObject>(url, reqobject, options);
     if (err) {
       err.setMessage(`failed to update access of object: ${err.message}`);
       throw err;
@@ -245,7 +250,8 @@ export class StructuredObject {
    */
   public async addTranslationAttribute(
     langAttributes: languageAttributes,
-    parent: string
+    parent: string,
+    options?: RequestOptions
   ): Promise<Attribute[]> {
     const resAttributes: Attribute[] = [];
     if (langAttributes == null) {
@@ -260,8 +266,8 @@ export class StructuredObject {
         language: language,
         type: this.getTypeByName('string'),
       };
-      const url = environment.adminHost + '/api/v1/property';
-      const [resp, err] = await this.client.put<Attribute>(url, reqBody);
+      const url = this.client.config.adminHost + '/api/v1/property';
+      const [resp, err] = await this.client.put<Attribute>(url, reqBody, options);
       if (err) {
         err.setMessage(
           `failed to add translation attribute ${columnName}: ${err.message}`
@@ -297,13 +303,13 @@ export class StructuredObject {
    */
   public getURL(url: string, schemaScope?: string): string {
     if (this._useCaching) {
-      return environment.cachingHost + url + `schemaScope=${schemaScope}`;
+      return this.client.config.cachingHost + url + `schemaScope=${schemaScope}`;
     }
-    return environment.adminHost + '/api/v1' + url;
+    return this.client.config.adminHost + '/api/v1' + url;
   }
 }
 
-interface Attribute {
+export interface Attribute {
   $schemaScope: string;
   $object: string;
   $qid: string;
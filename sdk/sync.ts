@@ -0,0 +1,345 @@
+import { RequestOptions } from './abort.ts';
+import { AbortedError } from './error.model.ts';
+import type { Folder } from './folder.ts';
+import { globToRegExp } from './glob.ts';
+import { dirname, joinPath } from './path.ts';
+
+/**
+ * Options of {@link syncDirectory}.
+ */
+export interface SyncOptions extends RequestOptions {
+  /**
+   * `upload` makes the folder match the local directory, `download` makes the local
+   * directory match the folder. `upload` by default.
+   */
+  direction?: 'upload' | 'download';
+  /**
+   * Delete the files and folders of the target that are not in the source.
+   */
+  delete?: boolean;
+  /**
+   * Return the plan without executing it.
+   */
+  dryRun?: boolean;
+  /**
+   * Compare the SHA-256 hashes of files of the same size instead of their modification times.
+   * Files of the same size are read on both sides to hash them.
+   */
+  hash?: boolean;
+  /**
+   * Glob patterns of paths, relative to the directory, left out on both sides, e.g. `.git/**`.
+   * A folder is left out when the pattern matches its content, and is not deleted when
+   * some of its content is left out.
+   */
+  exclude?: string[];
+  /**
+   * Called with the plan before it is executed.
+   */
+  onPlan?: (plan: SyncPlan) => void | Promise<void>;
+  /**
+   * Number of files transferred at the same time, 4 by default.
+   */
+  concurrency?: number;
+}
+
+/**
+ * A step of a synchronisation. Paths are relative to the directory and separated by `/`.
+ */
+export interface SyncAction {
+  op: 'mkdir' | 'upload' | 'download' | 'delete';
+  path: string;
+  /**
+   * Why the file is transferred or deleted. A `replaced` target is a file where the source
+   * has a folder, or the other way around; it is deleted whatever the delete option.
+   */
+  reason: 'new' | 'size' | 'mtime' | 'hash' | 'extraneous' | 'replaced';
+  /** Size of the file to transfer. */
+  size?: number;
+}
+
+/**
+ * The steps of a synchronisation, in order: replaced targets are deleted, folders are
+ * created, files are transferred and extraneous files and folders are deleted.
+ */
+export interface SyncPlan {
+  direction: 'upload' | 'download';
+  actions: SyncAction[];
+  /** Number of files that are up to date. */
+  unchanged: number;
+}
+
+/**
+ * Outcome of a synchronisation. A failing action does not stop the synchronisation, it is
+ * reported in `failed`; the deletes are skipped when a transfer failed.
+ */
+export interface SyncReport {
+  plan: SyncPlan;
+  /** False for a dry run. */
+  executed: boolean;
+  succeeded: number;
+  failed: { action: SyncAction; error: Error }[];
+}
+
+interface item {
+  path: string;
+  folder: boolean;
+  size: number;
+  mtime: Date;
+}
+
+/**
+ * Synchronise a local directory with a folder of a bag, e.g. to publish generated web assets.
+ *
+ * Files are compared by size and modification time: a file is transferred when it is new,
+ * its size differs or the source is newer than the target. Downloaded files get the
+ * modification time of the bag, so they are not transferred again. Missing folders are created.
+ * The plan is reported to `onPlan` before it is executed.
+ *
+ * Example:
+ * ```js
+ * const report = await syncDirectory('./dist', bag.rootFolder, {
+ *   delete: true,
+ *   onPlan: (plan) => console.log(plan.actions),
+ * })
+ * ```
+ */
+export async function syncDirectory(localPath: string, folder: Folder, options?: SyncOptions): Promise<SyncReport> {
+  const direction = options?.direction ?? 'upload';
+  const requestOptions: RequestOptions = { signal: options?.signal, timeoutMs: options?.timeoutMs };
+  const excluded = (options?.exclude ?? []).map(globToRegExp);
+  // A folder is excluded by the patterns of its content too, e.g. `.git` by `.git/**`
+  const included = (i: item) => !excluded.some(e => e.test(i.path) || (i.folder && e.test(i.path + '/')));
+
+  const allLocal = await localItems(localPath);
+  const allRemote = await remoteItems(folder, requestOptions);
+  const local = allLocal.filter(included);
+  const remote = allRemote.filter(included);
+  const [source, target] = direction === 'upload' ? [local, remote] : [remote, local];
+  // Excluded items of the target, kept when their folder is deleted
+  const kept = (direction === 'upload' ? allRemote : allLocal).filter(i => !included(i)).map(i => i.path);
+
+  const read = (side: item[], path: string) => side === local
+    ? Deno.readFile(`${localPath}/${path}`)
+    : readRemote(folder, path, requestOptions);
+  const plan = await planSync(direction, source, target, options?.hash ? (path) => Promise.all([read(source, path), read(target, path)]) : undefined, options?.delete ?? false, kept);
+  await options?.onPlan?.(plan);
+
+  const report: SyncReport = { plan: plan, executed: !options?.dryRun, succeeded: 0, failed: [] };
+  if (options?.dryRun) {
+    return report;
+  }
+
+  const sources = new Map(source.map(i => [i.path, i]));
+  const run = async (action: SyncAction) => {
+    if (options?.signal?.aborted) {
+      throw new AbortedError('sync aborted', options.signal.reason);
+    }
+    try {
+      await execute(action, direction, localPath, folder, sources, requestOptions);
+      report.succeeded++;
+    } catch (err) {
+      if (err instanceof AbortedError) {
+        throw err;
+      }
+      report.failed.push({ action: action, error: err instanceof Error ? err : new Error(`${err}`) });
+    }
+  };
+
+  // Folders one by one, parents first, then the files, then the deletes
+  for (const action of plan.actions.filter(a => a.reason === 'replaced' || a.op === 'mkdir')) {
+    await run(action);
+  }
+  const transfers = plan.actions.filter(a => a.op === 'upload' || a.op === 'download');
+  let next = 0;
+  const worker = async () => {
+    while (next < transfers.length) {
+      await run(transfers[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, options?.concurrency ?? 4), transfers.length) }, worker));
+  if (report.failed.length === 0) {
+    for (const action of plan.actions.filter(a => a.reason === 'extraneous')) {
+      await run(action);
+    }
+  }
+  return report;
+}
+
+async function planSync(
+  direction: 'upload' | 'download',
+  source: item[],
+  target: item[],
+  contents: ((path: string) => Promise<[Uint8Array, Uint8Array]>) | undefined,
+  deleteExtraneous: boolean,
+  kept: string[],
+): Promise<SyncPlan> {
+  const targets = new Map(target.map(i => [i.path, i]));
+  const sources = new Map(source.map(i => [i.path, i]));
+  const plan: SyncPlan = { direction: direction, actions: [], unchanged: 0 };
+  // Target folders deleted with their content
+  const deleted: string[] = [];
+  const gone = (path: string) => deleted.some(d => path.startsWith(d + '/'));
+
+  for (const from of source) {
+    let to = targets.get(from.path);
+    if (to && gone(to.path)) {
+      to = undefined;
+    }
+    if (to && to.folder !== from.folder) {
+      plan.actions.push({ op: 'delete', path: to.path, reason: 'replaced' });
+      if (to.folder) {
+        deleted.push(to.path);
+      }
+      to = undefined;
+    }
+    if (from.folder) {
+      if (!to) {
+        plan.actions.push({ op: 'mkdir', path: from.path, reason: 'new' });
+      }
+      continue;
+    }
+    let reason: SyncAction['reason'] | undefined;
+    if (!to) {
+      reason = 'new';
+    } else if (to.size !== from.size) {
+      reason = 'size';
+    } else if (contents) {
+      const [a, b] = await contents(from.path);
+      reason = await sha256(a) !== await sha256(b) ? 'hash' : undefined;
+    } else if (from.mtime.getTime() > to.mtime.getTime()) {
+      reason = 'mtime';
+    }
+    if (reason) {
+      plan.actions.push({ op: direction, path: from.path, reason: reason, size: from.size });
+    } else {
+      plan.unchanged++;
+    }
+  }
+
+  if (deleteExtraneous) {
+    // Only the topmost extraneous folder, its content goes with it
+    for (const to of target) {
+      if (sources.has(to.path) || gone(to.path)) {
+        continue;
+      }
+      if (to.folder) {
+        if (kept.some(k => k.startsWith(to.path + '/'))) {
+          // Deleting the folder would delete its excluded content, its other content is deleted one by one
+          continue;
+        }
+        deleted.push(to.path);
+      }
+      plan.actions.push({ op: 'delete', path: to.path, reason: 'extraneous' });
+    }
+  }
+
+  const order = (a: SyncAction) => a.reason === 'replaced' ? 0 : a.op === 'mkdir' ? 1 : a.op === 'delete' ? 3 : 2;
+  plan.actions.sort((a, b) => order(a) - order(b) || depth(a.path) - depth(b.path) || compare(a.path, b.path));
+  return plan;
+}
+
+async function execute(action: SyncAction, direction: 'upload' | 'download', localPath: string, folder: Folder, sources: Map<string, item>, options: RequestOptions): Promise<void> {
+  const local = `${localPath}/${action.path}`;
+  const dir = dirname(action.path);
+  const name = action.path.slice(action.path.lastIndexOf('/') + 1);
+  switch (action.op) {
+    case 'mkdir':
+      if (direction === 'upload') {
+        await folder.mkdirp(action.path, options);
+      } else {
+        await Deno.mkdir(local, { recursive: true });
+      }
+      return;
+    case 'upload': {
+      const from = sources.get(action.path)!;
+      const target = dir === '.' ? folder : await folder.mkdirp(dir, options);
+      const file = await Deno.open(local, { read: true });
+      try {
+        await target.writeFromStream(name, file.readable, { ...options, size: from.size });
+      } catch (err) {
+        try {
+          file.close();
+        } catch {
+          // Closed with its stream
+        }
+        throw err;
+      }
+      return;
+    }
+    case 'download': {
+      const from = sources.get(action.path)!;
+      const stream = await readRemoteStream(folder, action.path, options);
+      await Deno.mkdir(dirname(local), { recursive: true });
+      const file = await Deno.create(local);
+      await stream.pipeTo(file.writable);
+      // Keep the time of the bag, so the file is up to date on the next run
+      await Deno.utime(local, from.mtime, from.mtime);
+      return;
+    }
+    case 'delete':
+      if (direction === 'upload') {
+        await folder.rm(action.path, { ...options, recursive: true });
+      } else {
+        await Deno.remove(local, { recursive: true });
+      }
+      return;
+  }
+}
+
+async function localItems(root: string): Promise<item[]> {
+  const items: item[] = [];
+  const visit = async (relative: string) => {
+    for await (const entry of Deno.readDir(relative === '' ? root : `${root}/${relative}`)) {
+      const path = relative === '' ? entry.name : `${relative}/${entry.name}`;
+      const info = await Deno.stat(`${root}/${path}`);
+      if (info.isDirectory) {
+        items.push({ path: path, folder: true, size: 0, mtime: info.mtime ?? new Date(0) });
+        await visit(path);
+      } else if (info.isFile) {
+        items.push({ path: path, folder: false, size: info.size, mtime: info.mtime ?? new Date(0) });
+      }
+    }
+  };
+  await visit('');
+  return items.sort((a, b) => compare(a.path, b.path));
+}
+
+async function remoteItems(folder: Folder, options: RequestOptions): Promise<item[]> {
+  const prefix = folder.path === undefined ? '' : folder.path === '/' ? '/' : `${folder.path}/`;
+  const items: item[] = [];
+  for await (const entry of folder.walk(options)) {
+    items.push({
+      path: entry.path.slice(prefix.length),
+      folder: entry.info.type === 'folder',
+      size: entry.info.size,
+      mtime: new Date(entry.info.time),
+    });
+  }
+  return items.sort((a, b) => compare(a.path, b.path));
+}
+
+async function readRemoteStream(folder: Folder, path: string, options: RequestOptions): Promise<ReadableStream<Uint8Array>> {
+  const dir = dirname(path);
+  const parent = dir === '.' ? folder : await folder.resolve(joinPath(dir), options);
+  if (!parent) {
+    throw new Error(`folder '${dir}' not found`);
+  }
+  return await parent.readAsReadableStream(path.slice(path.lastIndexOf('/') + 1), options);
+}
+
+async function readRemote(folder: Folder, path: string, options: RequestOptions): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(await readRemoteStream(folder, path, options)).arrayBuffer());
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource));
+  return [...digest].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function depth(path: string): number {
+  return path.split('/').length;
+}
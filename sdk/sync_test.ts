@@ -0,0 +1,105 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, afterAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { SyncPlan, syncDirectory } from "./sync.ts";
+import { withBag } from "./testing.ts";
+
+describe("Directory sync", ()=>{
+  const fixture = withBag()
+  let dir:string
+
+  const actions = (plan: SyncPlan) => plan.actions.map(a => `${a.op} ${a.path} ${a.reason}`)
+
+  beforeAll(async ()=> {
+    dir = await Deno.makeTempDir()
+    await Deno.mkdir(`${dir}/assets/img`, { recursive: true })
+    await Deno.writeTextFile(`${dir}/index.html`, '<html></html>')
+    await Deno.writeTextFile(`${dir}/assets/app.js`, 'run()')
+    await Deno.writeTextFile(`${dir}/assets/img/logo.svg`, '<svg/>')
+    await Deno.writeTextFile(`${dir}/notes.tmp`, 'skip')
+  })
+
+  afterAll(async ()=> {
+    await Deno.remove(dir, { recursive: true })
+  })
+
+  it("reports the plan of a dry run" , async () => {
+    const report = await syncDirectory(dir, fixture.bag.rootFolder!, { dryRun: true, exclude: ['*.tmp'] })
+    t.assertEquals(report.executed, false)
+    t.assertEquals(actions(report.plan), [
+      'mkdir assets new',
+      'mkdir assets/img new',
+      'upload index.html new',
+      'upload assets/app.js new',
+      'upload assets/img/logo.svg new',
+    ])
+    t.assertEquals(await fixture.bag.readdir('/'), [])
+  })
+
+  it("uploads new and changed files" , async () => {
+    let planned: SyncPlan | undefined
+    const report = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'], onPlan: (plan) => { planned = plan } })
+    t.assertEquals(planned, report.plan)
+    t.assertEquals([report.succeeded, report.failed.length], [5, 0])
+    t.assertEquals(await fixture.bag.rootFolder!.readAsString('index.html'), '<html></html>')
+    t.assertEquals(await (await fixture.bag.rootFolder!.resolve('/assets/img'))!.readAsString('logo.svg'), '<svg/>')
+
+    const again = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'] })
+    t.assertEquals([again.plan.actions.length, again.plan.unchanged], [0, 3])
+
+    await Deno.writeTextFile(`${dir}/assets/app.js`, 'run(1)')
+    const changed = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'] })
+    t.assertEquals(actions(changed.plan), ['upload assets/app.js size'])
+  })
+
+  it("compares hashes" , async () => {
+    await Deno.writeTextFile(`${dir}/assets/app.js`, 'run(2)')
+    await Deno.utime(`${dir}/assets/app.js`, 0, 0)
+    t.assertEquals((await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'], dryRun: true })).plan.actions, [])
+    const report = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'], hash: true })
+    t.assertEquals(actions(report.plan), ['upload assets/app.js hash'])
+  })
+
+  it("deletes extraneous files when asked" , async () => {
+    await fixture.bag.rootFolder!.writeFromString('old.html', 'old')
+    await fixture.bag.mkdirp('/legacy/css')
+    t.assertEquals((await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'], dryRun: true })).plan.actions, [])
+
+    const report = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: ['*.tmp'], delete: true })
+    t.assertEquals(actions(report.plan), ['delete legacy extraneous', 'delete old.html extraneous'])
+    t.assertEquals((await fixture.bag.readdir('/')).sort(), ['assets', 'index.html'])
+  })
+
+  it("downloads the folder" , async () => {
+    const copy = await Deno.makeTempDir()
+    try {
+      await Deno.writeTextFile(`${copy}/assets`, 'a file where the bag has a folder')
+      const report = await syncDirectory(copy, fixture.bag.rootFolder!, { direction: 'download' })
+      t.assertEquals(actions(report.plan), [
+        'delete assets replaced',
+        'mkdir assets new',
+        'mkdir assets/img new',
+        'download index.html new',
+        'download assets/app.js new',
+        'download assets/img/logo.svg new',
+      ])
+      t.assertEquals(await Deno.readTextFile(`${copy}/assets/app.js`), 'run(2)')
+      t.assertEquals((await syncDirectory(copy, fixture.bag.rootFolder!, { direction: 'download' })).plan.actions, [])
+    } finally {
+      await Deno.remove(copy, { recursive: true })
+    }
+  })
+
+  it("leaves excluded folders and their parents alone" , async () => {
+    await Deno.mkdir(`${dir}/.git`)
+    await Deno.writeTextFile(`${dir}/.git/HEAD`, 'ref')
+    await (await fixture.bag.mkdirp('/old/.git')).writeFromString('HEAD', 'ref')
+    await (await fixture.bag.mkdirp('/old')).writeFromString('page.html', 'old')
+    const exclude = ['*.tmp', '**/.git/**']
+
+    const report = await syncDirectory(dir, fixture.bag.rootFolder!, { exclude: exclude, delete: true })
+    t.assertEquals(actions(report.plan), ['delete old/page.html extraneous'])
+    t.assertEquals(await fixture.bag.exists('/.git'), false)
+    t.assertEquals(await fixture.bag.readdir('/old'), ['.git'])
+  })
+
+})
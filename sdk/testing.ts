@@ -0,0 +1,89 @@
+import { afterAll, beforeAll } from 'https://deno.land/std@0.152.0/testing/bdd.ts';
+import { config } from './deps.ts';
+import { Environment, TwintagConfig } from './environment.ts';
+import { FakeTwintagServer, useFakeServer } from './fake_server.ts';
+import { Project } from './project.ts';
+import { StorageBag } from './storage_bag.ts';
+import { Twintag } from './twintag.ts';
+
+/**
+ * Setup shared by the test suites, not part of the SDK.
+ *
+ * Each helper registers `beforeAll` and `afterAll` hooks in the enclosing `describe`, and
+ * returns an object whose fields are set before the hooks and tests registered after it run.
+ *
+ * Example:
+ * ```js
+ * describe('products', () => {
+ *   const fake = withFakeProject()
+ *   beforeAll(async () => { await fake.project.newObject('Product', 'product', true) })
+ * })
+ * ```
+ */
+
+/**
+ * A project on a fake server, see {@link withFakeProject}.
+ */
+export interface FakeProjectFixture<P extends Project = Project> {
+  server: FakeTwintagServer;
+  project: P;
+}
+
+/**
+ * Route the default environment to a fake server with one project, and route it back after
+ * the tests. Other projects of the suite can be created on `server`. Pass the type of a
+ * typed project as `P`, e.g. `withFakeProject<Project<ProjectObjects>>()`.
+ */
+export function withFakeProject<P extends Project = Project>(options?: { name?: string; config?: TwintagConfig | Environment }): FakeProjectFixture<P> {
+  const fixture = {} as FakeProjectFixture<P>;
+  beforeAll(() => {
+    fixture.server = useFakeServer();
+    fixture.project = new Project(fixture.server.createProject(options?.name).apiKey, options?.config) as P;
+  });
+  afterAll(() => {
+    fixture.server.restore();
+  });
+  return fixture;
+}
+
+/**
+ * A bag of the project of a twintag, see {@link withBag}.
+ */
+export interface BagFixture {
+  /**
+   * The fake server, undefined when the suite runs against the API.
+   */
+  server?: FakeTwintagServer;
+  twintag: Twintag;
+  bag: StorageBag;
+}
+
+/**
+ * Create a bag before the tests and delete it after them.
+ *
+ * The bag is created on a fake server, or on the API when `live` is set and a project is
+ * configured in `.env` by `PROJECT_APIKEY`, `TEMPLATE_VIEWER_QID` and `SUBDOMAIN`.
+ */
+export function withBag(options?: { live?: boolean }): BagFixture {
+  const fixture = {} as BagFixture;
+  beforeAll(async () => {
+    const cfg = options?.live ? await config() : {};
+    if (cfg['PROJECT_APIKEY']) {
+      fixture.twintag = new Twintag(cfg['PROJECT_APIKEY'], cfg['TEMPLATE_VIEWER_QID'], cfg['SUBDOMAIN']);
+      fixture.twintag.setHost('https://twintag.io');
+      fixture.twintag.setAdminHost('https://admin.twintag.io');
+    } else {
+      fixture.server = useFakeServer();
+      const project = fixture.server.createProject();
+      fixture.twintag = new Twintag(project.apiKey, project.templateViewQid, project.subdomain);
+    }
+    fixture.twintag.setLogLevel('none');
+    fixture.bag = new StorageBag(fixture.twintag);
+    await fixture.bag.create();
+  });
+  afterAll(async () => {
+    await fixture.bag?.delete();
+    fixture.server?.restore();
+  });
+  return fixture;
+}
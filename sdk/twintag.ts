@@ -1,6 +1,9 @@
 import { Project } from "./project.ts"
 import { View } from "./view.ts"
-import { setHost, setAdminHost, setLogLevel } from "./sdk.ts";
+import { Environment, TwintagConfig, environment, resolveConfig } from "./environment.ts";
+import { RetryPolicy } from "./retry.ts";
+import { Middleware, Transport } from "./middleware.ts";
+import { Logger } from "./logger.ts";
 
 const validateProjectKey = (_projectApiKey: string) => {
   // TODO
@@ -20,16 +23,26 @@ export class Twintag {
   project:Project
   view:View
   templateViewQid:string
+  config:Environment
+  private projectApiKey:string
+  private sharedConfig:boolean
 
-  constructor(projectApiKey: string, templateViewQid:string, subdomain:string) {
+  /**
+   * @param config optional hosts and defaults shared by the project, view and bags of this twintag.
+   * By default the global environment is used.
+   */
+  constructor(projectApiKey: string, templateViewQid:string, subdomain:string, config?:TwintagConfig|Environment) {
     validateProjectKey(projectApiKey)
     validateTemplateViewerQid(templateViewQid)
     validateSubdomain(subdomain)
     this.templateViewQid = templateViewQid
     this.subdomain = subdomain
     this.protocol = 'https://'
-    this.project = new Project(projectApiKey)
-    this.view = new View(templateViewQid)
+    this.projectApiKey = projectApiKey
+    this.sharedConfig = config === undefined
+    this.config = resolveConfig(config)
+    this.project = new Project(projectApiKey, this.config)
+    this.view = new View(templateViewQid, this.config)
     this.view._setConfig({project: this.project}) 
   }
 
@@ -50,8 +63,34 @@ export class Twintag {
     }
   }
 
-  setHost(host:string) {setHost(host) }
-  setAdminHost(host:string) {setAdminHost(host) }
-  setLogLevel(logLevel:'none'|'single'|'headers'|'body') { return setLogLevel(logLevel) }
+  /*
+    Settings of this.config. Without a config passed, the twintag uses the global environment
+    until a setting is changed; it then gets a config of its own, derived from the global one,
+    and a new project and view using it
+  */
+
+  setHost(host:string) { this.ownConfig().host = host }
+  setAdminHost(host:string) { this.ownConfig().adminHost = host }
+  setLogLevel(logLevel:'none'|'single'|'headers'|'body') {
+    const prev = this.config.logLevel
+    this.ownConfig().logLevel = logLevel
+    return prev
+  }
+  setLogger(logger:Logger) { this.ownConfig().logger = logger }
+  setRetryPolicy(policy:Partial<RetryPolicy>) { this.ownConfig().retryPolicy = policy }
+  setRequestTimeout(timeoutMs:number) { this.ownConfig().timeoutMs = timeoutMs }
+  setTransport(transport:Transport|undefined) { this.ownConfig().transport = transport }
+  useMiddleware(middleware:Middleware) { this.ownConfig().middleware.push(middleware) }
+
+  private ownConfig():Environment {
+    if (this.sharedConfig) {
+      this.sharedConfig = false
+      this.config = environment.derive({})
+      this.project = new Project(this.projectApiKey, this.config)
+      this.view = new View(this.templateViewQid, this.config)
+      this.view._setConfig({project: this.project})
+    }
+    return this.config
+  }
 
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { RequestOptions } from './abort.ts';
+import type { Project } from './project.ts';
+import type { Attribute, StructuredObject } from './structuredObject.ts';
+
+/**
+ * Options of {@link generateTypes}.
+ */
+export interface TypegenOptions extends RequestOptions {
+  /**
+   * apiNames of the objects to generate types for, all objects of the project by default.
+   */
+  objects?: string[];
+  /**
+   * Name of the interface mapping object apiNames to record types, `ProjectObjects` by default.
+   */
+  mapName?: string;
+}
+
+// TypeScript types of the attribute types, see StructuredObject.newAttribute
+const attributeTypes: { [type: number]: string } = {
+  1: 'string',
+  2: 'number',
+  3: 'Date',
+  4: 'string',
+  5: 'unknown',
+  6: 'boolean',
+};
+
+/**
+ * Generate TypeScript interfaces for the records of the objects of a project, and an
+ * interface mapping the apiNames of the list objects to them.
+ *
+ * Pass the map to {@link Project} to get typed list objects:
+ * ```js
+ * await Deno.writeTextFile('schema.ts', await generateTypes(project))
+ * ...
+ * import { ProjectObjects } from './schema.ts'
+ * const project = new Project<ProjectObjects>(apiKey)
+ * const chairs = await project.object('product').match({ name: 'chair' })
+ * ```
+ *
+ * Attributes are optional, except the key attribute. File attributes are typed `unknown`.
+ */
+export async function generateTypes(project: Project, options?: TypegenOptions): Promise<string> {
+  const objects: StructuredObject[] = [];
+  if (options?.objects) {
+    for (const apiName of options.objects) {
+      objects.push(await project.getObject(apiName, options));
+    }
+  } else {
+    objects.push(...await project.getObjects(options));
+    objects.sort((a, b) => a.apiName < b.apiName ? -1 : a.apiName > b.apiName ? 1 : 0);
+  }
+
+  const mapName = options?.mapName ?? 'ProjectObjects';
+  const used = new Set<string>([mapName]);
+  const lines = ['// Generated from the project schema by twintag typegen, do not edit.', ''];
+  const map: [string, string][] = [];
+
+  for (const object of objects) {
+    const name = uniqueName(typeName(object.name) || typeName(object.apiName) || 'Record', used);
+    const attributes = await object.getAttributes(options);
+
+    lines.push(`/**`, ` * ${comment(object.name)} (${object.apiName})`, ` */`);
+    lines.push(`export interface ${name} {`);
+    lines.push(`  $qid?: string;`);
+    for (const attribute of attributes) {
+      const translation = translationOf(attribute, attributes);
+      if (translation) {
+        lines.push(`  /** ${comment(translation)} */`);
+      }
+      const optional = attribute.apiName === object.keyProperty ? '' : '?';
+      lines.push(`  ${propertyName(attribute.apiName)}${optional}: ${attributeTypes[attribute.type] ?? 'unknown'};`);
+    }
+    lines.push('}', '');
+
+    if (object.isList) {
+      map.push([object.apiName, name]);
+    }
+  }
+
+  lines.push(`export interface ${mapName} {`);
+  for (const [apiName, name] of map) {
+    lines.push(`  ${propertyName(apiName)}: ${name};`);
+  }
+  lines.push('}', '');
+
+  return lines.join('\n');
+}
+
+function translationOf(attribute: Attribute, attributes: Attribute[]): string | undefined {
+  if (!attribute.parent || !attribute.language) {
+    return undefined;
+  }
+  const parent = attributes.find(a => a.apiName === attribute.parent || a.$qid === attribute.parent);
+  return `Translation of ${parent?.apiName ?? attribute.parent} (${attribute.language})`;
+}
+
+function typeName(name: string): string {
+  const words = (name ?? '').split(/[^A-Za-z0-9]+/).filter(w => w !== '');
+  const result = words.map(w => w[0].toUpperCase() + w.slice(1)).join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let result = name;
+  for (let i = 2; used.has(result); i++) {
+    result = `${name}${i}`;
+  }
+  used.add(result);
+  return result;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function comment(text: string): string {
+  return (text ?? '').replace(/\*\//g, '* /').replace(/\s+/g, ' ');
+}
@@ -0,0 +1,74 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { generateTypes } from "./typegen.ts";
+import { withFakeProject } from "./testing.ts";
+
+// Shape of the generated types, used to check typed list objects at compile time
+interface Product {
+  $qid?: string
+  sku: string
+  price?: number
+}
+
+interface ProjectObjects {
+  product: Product
+}
+
+describe("generateTypes", ()=>{
+  const fake = withFakeProject()
+
+  beforeAll(async ()=> {
+    const product = await fake.project.newObject('Product', 'product', true, false, 'sku')
+    await product.newAttribute('name')
+    await product.newAttribute('price', 'number')
+    await product.newAttribute('since', 'datetime')
+    await product.newAttribute('on sale', 'boolean')
+    await product.newAttribute('image', 'file')
+    await product.addTranslationAttribute({ fr: 'name fr' }, 'name')
+    const settings = await fake.project.newObject('shop settings', 'settings')
+    await settings.newAttribute('currency')
+  })
+
+  it("emits interfaces and the object map" , async () => {
+    const source = await generateTypes(fake.project)
+    t.assertStringIncludes(source, [
+      'export interface Product {',
+      '  $qid?: string;',
+      '  sku: string;',
+      '  name?: string;',
+      '  price?: number;',
+      '  since?: Date;',
+      '  onSale?: boolean;',
+      '  image?: unknown;',
+      '  /** Translation of name (fr) */',
+      '  nameFr?: string;',
+      '}',
+    ].join('\n'))
+    t.assertStringIncludes(source, 'export interface ShopSettings {')
+    t.assertStringIncludes(source, 'export interface ProjectObjects {\n  product: Product;\n}')
+  })
+
+  it("generates the requested objects only" , async () => {
+    const source = await generateTypes(fake.project, { objects: ['settings'], mapName: 'Objects' })
+    t.assertEquals(source.includes('interface Product'), false)
+    t.assertStringIncludes(source, 'export interface Objects {\n}')
+  })
+
+  it("types list objects of a typed project" , async () => {
+    const typed = new Project<ProjectObjects>(fake.project.apiKey)
+    const products = typed.object('product')
+    await products.insert({ sku: 'a', price: 1 })
+    const [found] = await products.match({ price: { gte: 1 } })
+    t.assertEquals(found.sku, 'a')
+
+    // Never called, the type checker verifies the errors
+    const _unchecked = () => {
+      // @ts-expect-error price is a number
+      products.insert({ sku: 'b', price: 'cheap' })
+      // @ts-expect-error unknown attribute in filter
+      products.match({ color: 'red' })
+    }
+  })
+
+})
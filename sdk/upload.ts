@@ -0,0 +1,176 @@
+import { Client } from './client.ts';
+import { RequestOptions } from './abort.ts';
+
+/**
+ * Progress of an upload, reported after every chunk handed to the network.
+ */
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  /** Bytes per second since the upload started. */
+  rate: number;
+  /** Estimated seconds until the upload completes, undefined until the rate is known. */
+  eta?: number;
+}
+
+/**
+ * Options of the methods uploading files.
+ *
+ * The API takes a file in one request to the upload URL it hands out, so an upload that
+ * fails starts again from the first byte. The file is streamed, not read into memory.
+ * A file uploaded with `onProgress` is sent as a stream, which is not retried.
+ *
+ * Example:
+ * ```js
+ * await bag.upload(file, undefined, undefined, {
+ *   onProgress: (p) => console.log(`${p.bytesSent}/${p.totalBytes}, ${p.eta ?? '?'}s left`),
+ * })
+ * ```
+ */
+export interface UploadOptions extends RequestOptions {
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Options of the methods uploading streams. The stream is sent as it is read, so at most
+ * one chunk is held in memory.
+ */
+export interface StreamUploadOptions extends UploadOptions {
+  /**
+   * Size of the stream in bytes. The API needs the size before the upload starts, and the
+   * upload fails when the stream has another size.
+   */
+  size: number;
+}
+
+/**
+ * Send a file or a stream of the given size to an upload URL in one request.
+ * Strings are encoded as UTF-8.
+ *
+ * @internal
+ */
+export async function sendFile(
+  client: Client,
+  uploadUrl: string,
+  source: Blob | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+  size: number,
+  options?: UploadOptions,
+): Promise<void> {
+  const progress = new ProgressTracker(size, options?.onProgress);
+  // A blob is sent as is, so the client can retry it
+  const asBlob = source instanceof Blob && !options?.onProgress;
+  const body = asBlob ? source : countingStream(source instanceof Blob ? source.stream() : source, progress);
+
+  let stream: ReadableStream<Uint8Array>;
+  let err;
+  try {
+    [stream, err] = await client.do<ReadableStream<Uint8Array>>(uploadUrl, {
+      method: 'PUT',
+      body: body,
+      headers: { 'Content-Length': `${size}` },
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    }, true, true);
+  } catch (error) {
+    if (!asBlob) {
+      checkStreamSize(progress.sent, size);
+    }
+    throw error;
+  }
+  if (stream && stream instanceof ReadableStream) {
+    await stream.cancel(); // to avoid leaks
+  }
+  if (!asBlob) {
+    checkStreamSize(progress.sent, size);
+  }
+  if (err) {
+    err.setMessage('failed to upload file');
+    throw err;
+  }
+}
+
+/**
+ * @internal
+ */
+export function checkStreamSize(sent: number, size: number) {
+  if (sent > size) {
+    throw new Error(`stream is larger than the expected size of ${size} bytes`);
+  }
+  if (sent !== size) {
+    throw new Error(`stream of ${sent} bytes does not match the expected size of ${size} bytes`);
+  }
+}
+
+// Reads the source one chunk at a time as the request body is sent, and stops at the
+// first chunk beyond the expected size
+function countingStream(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>, progress: ProgressTracker): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks = chunksOf(source);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await chunks.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+      const chunk = typeof next.value === 'string' ? encoder.encode(next.value) : next.value;
+      progress.add(chunk.length);
+      if (progress.sent > progress.total) {
+        await chunks.return(undefined);
+        controller.error(new Error(`stream is larger than the expected size of ${progress.total} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  }, { highWaterMark: 0 });
+}
+
+async function* chunksOf(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>): AsyncGenerator<Uint8Array | string> {
+  if (!(source instanceof ReadableStream)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stop the source when the upload stops early
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+class ProgressTracker {
+  sent = 0;
+  private started = Date.now();
+
+  constructor(readonly total: number, private report?: (progress: UploadProgress) => void) {}
+
+  add(bytes: number) {
+    this.sent += bytes;
+    if (!this.report) {
+      return;
+    }
+    const seconds = (Date.now() - this.started) / 1000;
+    const rate = seconds > 0 ? this.sent / seconds : 0;
+    this.report({
+      bytesSent: this.sent,
+      totalBytes: this.total,
+      rate: rate,
+      eta: rate > 0 ? Math.max(0, this.total - this.sent) / rate : undefined,
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { View } from "./view.ts";
+import { AbortedError } from "./error.model.ts";
+import { StreamUploadOptions, UploadProgress } from "./upload.ts";
+import { withFakeProject } from "./testing.ts";
+
+describe("Uploads", ()=>{
+  const fake = withFakeProject()
+  let bag:View
+  let requests = 0
+
+  beforeAll(async ()=> {
+    bag = await fake.project.createBag()
+    bag.use({ beforeRequest: (req) => {
+      if (req.url.includes('/storage/')) {
+        requests++
+      }
+    } })
+  })
+
+  const read = async (name: string) => new TextDecoder().decode(new Uint8Array(await new Response(await bag.download(name)).arrayBuffer()))
+
+  it("sends files in one request" , async () => {
+    requests = 0
+    const info = await bag.upload(new File(['0123456789'], 'digits.txt'))
+    t.assertEquals(info.Name, 'digits.txt')
+    t.assertEquals(info.Size, 10)
+    t.assertEquals(requests, 1)
+    t.assertEquals(await read('digits.txt'), '0123456789')
+  })
+
+  it("reports the progress of files" , async () => {
+    const progress: UploadProgress[] = []
+    await bag.upload(new File(['abcdefghij'], 'letters.txt'), undefined, undefined, { onProgress: (p) => progress.push(p) })
+    t.assertEquals(progress.at(-1)?.bytesSent, 10)
+    t.assertEquals(progress.every(p => p.totalBytes === 10), true)
+    t.assertEquals(await read('letters.txt'), 'abcdefghij')
+  })
+
+  async function* lines(count: number) {
+    for (let i = 0; i < count; i++) {
+      yield `line ${i}\n`
+    }
+  }
+
+  it("sends streams as they are read" , async () => {
+    requests = 0
+    const progress: UploadProgress[] = []
+    const info = await bag.uploadStream('lines.txt', lines(3), undefined, { size: 21, onProgress: (p) => progress.push(p) })
+    t.assertEquals(info.Size, 21)
+    t.assertEquals(requests, 1)
+    t.assertEquals(progress.map(p => p.bytesSent), [7, 14, 21])
+    t.assertEquals(await read('lines.txt'), 'line 0\nline 1\nline 2\n')
+  })
+
+  it("sends readable streams" , async () => {
+    const stream = new Blob(['0123456789']).stream()
+    await bag.uploadStream('stream.txt', stream, undefined, { size: 10 })
+    t.assertEquals(await read('stream.txt'), '0123456789')
+  })
+
+  it("requires the size of streams" , async () => {
+    await t.assertRejects(() => bag.uploadStream('unknown.txt', lines(1), undefined, {} as StreamUploadOptions), Error, 'size of the stream is required')
+  })
+
+  it("rejects streams of another size" , async () => {
+    await t.assertRejects(() => bag.uploadStream('wrong.txt', lines(3), undefined, { size: 30 }), Error, 'does not match')
+
+    let stopped = false
+    async function* endless() {
+      try {
+        while (true) {
+          yield 'data\n'
+        }
+      } finally {
+        stopped = true
+      }
+    }
+    await t.assertRejects(() => bag.uploadStream('wrong.txt', endless(), undefined, { size: 8 }), Error, 'larger than')
+    t.assertEquals(stopped, true)
+    t.assertEquals((await bag.list()).some(f => f.Name === 'wrong.txt'), false)
+  })
+
+  it("stops aborted uploads" , async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await t.assertRejects(() => bag.upload(new File(['aborted'], 'aborted.txt'), undefined, undefined, { signal: controller.signal }), AbortedError)
+  })
+
+})
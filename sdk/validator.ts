@@ -0,0 +1,179 @@
+import { Client } from './client.ts';
+import { RequestOptions } from './abort.ts';
+import { StructuredObject, type Attribute } from './structuredObject.ts';
+import { ValidationError, Violation } from './error.model.ts';
+import { CodecRegistry, attributeTypeHints, defaultCodecs } from './codec.ts';
+
+/**
+ * Attribute schema of an object, as used by the validation.
+ *
+ * @internal
+ */
+export interface ObjectRules {
+  keyProperty?: string;
+  attributes: Attribute[];
+  languages: string[];
+  codecs?: CodecRegistry;
+}
+
+// Attribute type codes, see StructuredObject.newAttribute
+const expectedTypes: { [type: number]: string } = {
+  1: 'string',
+  2: 'number',
+  3: 'datetime',
+  4: 'string',
+  6: 'boolean',
+};
+
+// Loaded schemas by client and object, so the schema is loaded once per project
+const cache = new WeakMap<Client, Map<string, Promise<ObjectRules>>>();
+
+/**
+ * Load the attributes, key property and allowed languages of an object, once per client.
+ *
+ * @internal
+ */
+export function loadRules(client: Client, objectApiName: string, projectId: string, useCaching: boolean, options?: RequestOptions): Promise<ObjectRules> {
+  let objects = cache.get(client);
+  if (!objects) {
+    objects = new Map();
+    cache.set(client, objects);
+  }
+  let rules = objects.get(objectApiName);
+  if (!rules) {
+    rules = fetchRules(client, objectApiName, projectId, useCaching, options);
+    objects.set(objectApiName, rules);
+    // Do not keep a failure, the next validation loads again
+    rules.catch(() => objects!.delete(objectApiName));
+  }
+  return rules;
+}
+
+/**
+ * Forget the loaded schema of an object, e.g. after changing its attributes.
+ *
+ * @internal
+ */
+export function forgetRules(client: Client, objectApiName: string): void {
+  cache.get(client)?.delete(objectApiName);
+}
+
+async function fetchRules(client: Client, objectApiName: string, projectId: string, useCaching: boolean, options?: RequestOptions): Promise<ObjectRules> {
+  const object = new StructuredObject('', useCaching, client);
+  object.apiName = objectApiName;
+  object.$schemaScope = projectId;
+  const attributes = await object.getAttributes(options);
+
+  const [info, err] = await client.get<{ keyProperty?: string }>(`${client.config.adminHost}/api/v1/object?object=${objectApiName}`, options);
+  if (err) {
+    err.setMessage(`failed to get object ${objectApiName}: ${err.message}`);
+    throw err;
+  }
+  const [languages, langErr] = await client.get<{ apiName: string }[]>(`${client.config.adminHost}/api/v1/project/allowedLanguages`, options);
+  if (langErr) {
+    langErr.setMessage(`failed to get allowed languages: ${langErr.message}`);
+    throw langErr;
+  }
+
+  return {
+    keyProperty: info?.keyProperty || undefined,
+    attributes: attributes ?? [],
+    languages: (languages ?? []).map(l => l.apiName),
+    codecs: client.config.codecs,
+  };
+}
+
+/**
+ * Check a record against the attribute schema. On insert the key property is required;
+ * on update only the passed attributes are checked. Null clears a value and is always valid.
+ *
+ * @internal
+ */
+export function checkRecord(record: unknown, rules: ObjectRules, mode: 'insert' | 'update', index?: number): Violation[] {
+  const violations: Violation[] = [];
+  const add = (attribute: string, rule: Violation['rule'], message: string) => {
+    violations.push({ ...index !== undefined ? { index: index } : {}, attribute: attribute, rule: rule, message: message });
+  };
+
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    add('', 'type', 'record is not an object');
+    return violations;
+  }
+
+  for (const [name, value] of Object.entries(record)) {
+    if (name.startsWith('$')) {
+      continue;
+    }
+    const attribute = rules.attributes.find(a => a.apiName === name);
+    if (!attribute) {
+      add(name, 'unknown', `unknown attribute ${name}`);
+      continue;
+    }
+    if (attribute.language && !rules.languages.includes(attribute.language)) {
+      add(name, 'language', `language ${attribute.language} of ${name} is not allowed in the project`);
+    }
+    if (value === null || value === undefined) {
+      continue;
+    }
+    // Values encoded by a registered codec of the attribute type, e.g. a Decimal for a number
+    const codec = rules.codecs?.forValue(value);
+    if (codec && !defaultCodecs.includes(codec) && codec.type === attributeTypeHints[attribute.type]) {
+      continue;
+    }
+    const expected = expectedTypes[attribute.type];
+    switch (expected) {
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          add(name, 'type', `expected a number for ${name}, got ${describe(value)}`);
+        }
+        break;
+      case 'datetime':
+        if (value instanceof Date ? isNaN(value.getTime()) : typeof value !== 'string' || isNaN(Date.parse(value))) {
+          add(name, value instanceof Date || typeof value === 'string' ? 'date' : 'type', `expected a date for ${name}, got ${describe(value)}`);
+        }
+        break;
+      case undefined:
+        // File attributes take a file or the stored file information
+        break;
+      default:
+        // deno-lint-ignore valid-typeof
+        if (typeof value !== expected) {
+          add(name, 'type', `expected a ${expected} for ${name}, got ${describe(value)}`);
+        }
+    }
+  }
+
+  if (mode === 'insert' && rules.keyProperty) {
+    const key = (record as Record<string, unknown>)[rules.keyProperty];
+    if (key === undefined || key === null || key === '') {
+      add(rules.keyProperty, 'key', `missing value for key attribute ${rules.keyProperty}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Throw a {@link ValidationError} listing all violations, if any.
+ *
+ * @internal
+ */
+export function throwViolations(objectApiName: string, violations: Violation[]): void {
+  if (violations.length === 0) {
+    return;
+  }
+  const first = violations[0];
+  const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : '';
+  const where = first.index !== undefined ? `record ${first.index}: ` : '';
+  throw new ValidationError(`invalid data for ${objectApiName}: ${where}${first.message}${more}`, [], undefined, violations);
+}
+
+function describe(value: unknown): string {
+  if (value instanceof Date) {
+    return 'an invalid date';
+  }
+  if (typeof value === 'string') {
+    return `'${value.length > 40 ? value.slice(0, 40) + '…' : value}'`;
+  }
+  return Array.isArray(value) ? 'an array' : typeof value;
+}
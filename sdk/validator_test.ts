@@ -0,0 +1,65 @@
+import * as t from "https://deno.land/std@0.153.0/testing/asserts.ts";
+import { beforeAll, describe, it } from "https://deno.land/std@0.152.0/testing/bdd.ts";
+import { Project } from "./project.ts";
+import { ValidationError } from "./error.model.ts";
+import { withFakeProject } from "./testing.ts";
+
+describe("Validation", ()=>{
+  const fake = withFakeProject()
+
+  beforeAll(async ()=> {
+    await fake.project.setAllowedLanguages(['en', 'fr'], 'en')
+    const product = await fake.project.newObject('Product', 'product', true, false, 'sku')
+    await product.newAttribute('name')
+    await product.newAttribute('price', 'number')
+    await product.newAttribute('since', 'datetime')
+    await product.newAttribute('onSale', 'boolean')
+    await product.addTranslationAttribute({ fr: 'name fr', de: 'name de' }, 'name')
+  })
+
+  it("reports all violations of a record" , async () => {
+    const violations = await fake.project.object('product').validate({
+      name: 'chair', price: '10', since: 'yesterday', onSale: 1, color: 'red', nameDe: 'Stuhl',
+    } as Record<string, unknown>)
+    t.assertEquals(violations.map(v => [v.attribute, v.rule]), [
+      ['price', 'type'],
+      ['since', 'date'],
+      ['onSale', 'type'],
+      ['color', 'unknown'],
+      ['nameDe', 'language'],
+      ['sku', 'key'],
+    ])
+  })
+
+  it("accepts valid records and partial updates" , async () => {
+    const products = fake.project.object('product')
+    t.assertEquals(await products.validate({ sku: 'a', price: 1, since: new Date(), onSale: true, nameFr: 'chaise', name: null }), [])
+    t.assertEquals(await products.validate({ $qid: 'x', price: 2 }, 'update'), [])
+  })
+
+  it("rejects invalid records before sending them" , async () => {
+    const products = fake.project.object('product').useValidation(true)
+    const err = await t.assertRejects(() => products.insertInBulk([{ sku: 'a' }, { sku: 'b', price: 'x' }, { price: NaN }]), ValidationError)
+    const violations = (err as ValidationError).violations
+    t.assertEquals(violations.map(v => [v.index, v.attribute]), [[1, 'price'], [2, 'price'], [2, 'sku']])
+    t.assertEquals((err as ValidationError).message, "invalid data for product: record 1: expected a number for price, got 'x' (and 2 more)")
+    t.assertEquals(await products.getByKey('a'), null)
+
+    await products.insert({ sku: 'a', price: 1 })
+  })
+
+  it("is enabled for all objects of a project" , async () => {
+    const validated = new Project(fake.project.apiKey)
+    validated.useValidation(true)
+    await t.assertRejects(() => validated.object('product').insert({ sku: 'c', color: 'red' }), ValidationError)
+  })
+
+  it("loads the schema once until refreshed" , async () => {
+    const products = fake.project.object('product')
+    await (await fake.project.getObject('product')).newAttribute('color')
+    t.assertEquals((await products.validate({ sku: 'c', color: 'red' })).length, 1)
+    products.refreshSchema()
+    t.assertEquals(await products.validate({ sku: 'c', color: 'red' }), [])
+  })
+
+})
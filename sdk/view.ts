@@ -1,23 +1,31 @@
-import { environment } from './environment.ts';
+import { Environment, TwintagConfig, resolveConfig } from './environment.ts';
 import { Client } from './client.ts';
 import { Project } from './project.ts';
 import { FileInfo } from './files.ts';
 import { VirtualFile } from './virtual.ts';
 import { listObject } from './listObject.ts';
-import { Parser } from './parser.ts';
+import { RetryPolicy } from './retry.ts';
+import { Middleware, Transport } from './middleware.ts';
+import { RequestOptions } from './abort.ts';
+import { TwintagError } from './error.model.ts';
+import { DataOptions, contextOf } from './codec.ts';
+import { ListingCache, ListingCacheOptions } from './cache.ts';
+import { StreamUploadOptions, UploadOptions, sendFile } from './upload.ts';
 
 /**
  * CreateBag creates a free bag without an association to an Enterprise project.
+ *
+ * @param config Optional hosts and defaults for the bag, see {@link TwintagConfig}.
  */
-export async function createBag(qid?: string): Promise<View> {
-  return await createBagInternal(new Client(), undefined, qid);
+export async function createBag(qid?: string, options?: RequestOptions, config?: TwintagConfig): Promise<View> {
+  return await createBagInternal(new Client(undefined, resolveConfig(config)), undefined, qid, options);
 }
 
 /**
  * CreateBagInternal is the internal createBag function.
  *
  * @internal */
-export async function createBagInternal(client: Client, project?: Project, qid?: string): Promise<View> {
+export async function createBagInternal(client: Client, project?: Project, qid?: string, options?: RequestOptions): Promise<View> {
   let viewReq: viewRequest;
 
   if (qid && qid != '') {
@@ -36,14 +44,14 @@ export async function createBagInternal(client: Client, project?: Project, qid?:
     };
   }
 
-  const path = environment.host + '/api/v1/views';
-  const [data, err] = await client.put<viewObject>(path, viewReq);
+  const path = client.config.host + '/api/v1/views';
+  const [data, err] = await client.put<viewObject>(path, viewReq, options);
   if (err) {
     err.setMessage(`failed to create a twintag`)
     throw err
   }
 
-  const view = new View(data.id);
+  const view = new View(data.id, client.config);
 
   // Pass state
   view._setConfig({ project: project, client: client, data: data });
@@ -113,17 +121,23 @@ export class View {
   readonly qid: string;
 
   private _client?: Client;
+  private _config: Environment;
   private project?: Project;
   private _data?: viewObject;
   private _useCaching: boolean = false;
+  private _ownsClient = false;
+  private _listingCache?: ListingCache;
 
   /**
    * Construct a view by its QID.
    *
-   * @param init Internal parameter.
+   * @param config Optional hosts and defaults for this view, see {@link TwintagConfig}.
+   * By default the global environment is used.
    */
-  constructor(qid: string) {
+  constructor(qid: string, config?: TwintagConfig | Environment) {
     this.qid = qid;
+    this._config = resolveConfig(config);
+    this._useCaching = this._config.useCaching;
   }
 
   /**
@@ -133,6 +147,10 @@ export class View {
   _setConfig(init: viewInit): void {
     this.project = init?.project;
     this._client = init?.client;
+    this._ownsClient = false;
+    if (init?.client) {
+      this._config = init.client.config;
+    }
     this._data = init?.data;
   }
 
@@ -145,21 +163,89 @@ export class View {
     this._useCaching = val
   }
 
+  /**
+   * Cache the folder listings of the bag and the file information of the paths resolved by
+   * its {@link Folder | folders}, so repeated lookups do not list the folders again.
+   * Uploads, deletes, moves, copies and new folders through this view invalidate the
+   * affected folders; changes made elsewhere are seen when the entries expire.
+   * Pass false to stop caching.
+   *
+   * Example:
+   * ```js
+   * view.useListingCache({ ttlMs: 10000 })
+   * // ...
+   * console.log(view.listingCache?.stats())
+   * ```
+   *
+   * @category File management
+   */
+  public useListingCache(options: ListingCacheOptions | boolean = true): this {
+    this._listingCache = options === false ? undefined : new ListingCache(options === true ? undefined : options);
+    return this;
+  }
+
+  /**
+   * The listing cache, when enabled, see {@link useListingCache}.
+   *
+   * @category File management
+   */
+  public get listingCache(): ListingCache | undefined {
+    return this._listingCache;
+  }
+
+  /**
+   * Set the retry policy for all requests made through this view.
+   * Fields that are not passed fall back to the project or config policy.
+   * A view obtained from a project gets its own copy of the project client,
+   * so the project itself is not affected.
+   */
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    const client = this.ownClient();
+    client.retryPolicy = { ...client.retryPolicy, ...policy };
+  }
+
+  /**
+   * Replace the transport for all requests made through this view.
+   * Like {@link setRetryPolicy}, this does not affect the project the view was obtained from.
+   */
+  public setTransport(transport: Transport | undefined): void {
+    this.ownClient().transport = transport;
+  }
+
+  /**
+   * Add middleware for all requests made through this view.
+   * It runs after the middleware of the project the view was obtained from.
+   */
+  public use(middleware: Middleware): void {
+    this.ownClient().middleware.push(middleware);
+  }
+
+  /**
+   * Copy the client shared with the project before changing its settings.
+   */
+  private ownClient(): Client {
+    if (!this._client || !this._ownsClient) {
+      this._client = this._client ? this._client.clone() : new Client(undefined, this._config);
+      this._ownsClient = true;
+    }
+    return this._client;
+  }
+
   private viewURL(): string {
-    return environment.host + '/api/v1/views/' + this.qid;
+    return this._config.host + '/api/v1/views/' + this.qid;
   }
 
   private twintagURL(): string{
-    return environment.host + '/api/v1/twintags/' + this._data?.bagQid;
+    return this._config.host + '/api/v1/twintags/' + this._data?.bagQid;
   }
 
-  private async client(): Promise<Client> {
+  private async client(options?: RequestOptions): Promise<Client> {
     if (!this._client) {
-      this._client = new Client();
+      this._client = new Client(undefined, this._config);
     }
 
     if (!this._client.token) {
-      const data = await this.data();
+      const data = await this.data(options);
       this.setToken(data.authToken);
     }
     return this._client;
@@ -168,7 +254,7 @@ export class View {
   /**
    * Data gets the view definition. This includes the view rights.
    */
-  public async data(): Promise<viewObject> {
+  public async data(options?: RequestOptions): Promise<viewObject> {
     const data = this._data;
     if (data) {
       return data;
@@ -176,10 +262,10 @@ export class View {
 
     let client = this._client;
     if (!client) {
-      client = new Client();
+      client = new Client(undefined, this._config);
       this._client = client;
     }
-    const [newData, err] = await client.get<viewObject>(this.viewURL());
+    const [newData, err] = await client.get<viewObject>(this.viewURL(), options);
     if (err) {
       err.setMessage(`failed to get twintag data`)
       throw err
@@ -196,13 +282,13 @@ export class View {
    */
   public setToken(token: string): void {
     if (!this._client) {
-      this._client = new Client();
+      this._client = new Client(undefined, this._config);
     }
     this._client.token = token;
   }
 
   private fileURL(obj: string, qid?: string, op?: string, useCachingHost = false): string {
-    let url = (useCachingHost && this._useCaching ? environment.cachingHost : environment.host) + '/api/v1/views/' + this.qid + '/' + obj;
+    let url = (useCachingHost && this._useCaching ? this._config.cachingHost : this._config.host) + '/api/v1/views/' + this.qid + '/' + obj;
     if (qid) {
       url += '/' + qid;
     }
@@ -213,8 +299,8 @@ export class View {
     return url;
   }
 
-  private async fileURLUpload(obj: string, qid?: string, op?: string): Promise<string> {
-    const data = await this.data();
+  private async fileURLUpload(obj: string, qid?: string, op?: string, options?: RequestOptions): Promise<string> {
+    const data = await this.data(options);
 
     let url = this.fileURL(obj, qid, op);
     if (data.uploadsession) {
@@ -226,6 +312,8 @@ export class View {
   /**
    * Upload allows you to upload a file into a bag.
    *
+   * The file is streamed, see {@link UploadOptions} to follow its progress.
+   *
    * Required rights: upload.
    *
    * @param name Optionally overwrite the file name.
@@ -233,38 +321,73 @@ export class View {
    *
    * @category File management
    */
-  public async upload(f: File, name?: string, parent?: string): Promise<FileInfo> { // TWINTAG: Why do we still need this 3-step process?
+  public async upload(f: File, name?: string, parent?: string, options?: UploadOptions): Promise<FileInfo> { // TWINTAG: Why do we still need this 3-step process?
+    return await this.uploadSource(name ? name : f.name, f, f.size, parent, options);
+  }
+
+  /**
+   * Upload a stream into a bag, without reading the whole stream into memory.
+   * The size of the stream must be known in advance. Strings are written as UTF-8.
+   * See {@link StreamUploadOptions}.
+   *
+   * Required rights: upload.
+   *
+   * @param parent: parent of the file. FileQid of the folder
+   *
+   * @category File management
+   */
+  public async uploadStream(name: string, source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>, parent: string | undefined, options: StreamUploadOptions): Promise<FileInfo> {
+    if (!(options?.size >= 0)) {
+      throw new Error('upload stream; the size of the stream is required');
+    }
+    return await this.uploadSource(name, source, options.size, parent, options);
+  }
+
+  private async uploadSource(name: string, source: Blob | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>, size: number, parent?: string, options?: UploadOptions): Promise<FileInfo> {
+    const client = await this.client(options);
+
     // Start
     const uploadStartReq: uploadRequest = {
       mode: 420,
-      name: name ? name : f.name,
-      size: f.size,
-      parent: parent ? parent : undefined
+      name: name,
+      size: size,
+      parent: parent ? parent : undefined,
     };
+    const startResp = await this.startUpload(client, uploadStartReq, options);
+
+    // Upload
+    try {
+      await sendFile(client, startResp.uploadUrl, source, size, options);
+    } catch (err) {
+      if (err instanceof TwintagError) {
+        err.setMessage(`failed to upload file to twintag: ${err.message}`)
+      }
+      throw err
+    }
 
-    let url = await this.fileURLUpload('files');
+    // End
+    await this.endUpload(client, startResp.metafest.fileQid, options);
+    this._listingCache?.invalidate(parent ? parent : '');
+
+    return uploadedFileInfo(startResp.metafest, size);
+  }
 
-    const client = await this.client();
-    const [startResp, startErr] = await client.put<uploadResponse>(url, uploadStartReq);
+  private async startUpload(client: Client, req: uploadRequest, options?: RequestOptions): Promise<uploadResponse> {
+    const url = await this.fileURLUpload('files', undefined, undefined, options);
+
+    const [startResp, startErr] = await client.put<uploadResponse>(url, req, options);
     if (startErr) {
       startErr.setMessage(`failed to start upload file to twintag`)
       throw startErr
     }
+    return startResp;
+  }
 
-    // Upload
-    const [uploadstream, uploadErr] = await client.do<ReadableStream<Uint8Array>>(startResp.uploadUrl, { method: 'PUT', body: f }, true, true);
-    if (uploadstream && uploadstream instanceof ReadableStream) {
-      await uploadstream.cancel() // to avoid leaks
-    }
-    if (uploadErr) {
-      uploadErr.setMessage(`failed to upload file to twintag`)
-      throw uploadErr
-    }
-
-    // End
-    url = await this.fileURLUpload('files', startResp.metafest.fileQid, 'end');
+  private async endUpload(client: Client, fileQid: string, options?: RequestOptions): Promise<void> {
+    const url = await this.fileURLUpload('files', fileQid, 'end', options);
 
-    const [endStream, endErr] = await client.do<ReadableStream<Uint8Array>>(url, { method: 'PUT', body: '{}' }, true);
+    // Completing an upload twice is not safe, so only retry when the server did not process it
+    const [endStream, endErr] = await client.do<ReadableStream<Uint8Array>>(url, { method: 'PUT', body: '{}', idempotent: false, signal: options?.signal, timeoutMs: options?.timeoutMs }, true);
     if (endStream && endStream instanceof ReadableStream) {
       await endStream.cancel() // to avoid leaks
     }
@@ -272,16 +395,6 @@ export class View {
       endErr.setMessage(`failed to complete the file upload to twintag`)
       throw endErr
     }
-
-    const fileInfo: FileInfo = {
-      FileQid: startResp.metafest.fileQid,
-      Name: startResp.metafest.fileName,
-      Parent: undefined,
-      Size: startResp.metafest.size,
-      MTime: startResp.metafest.modTime,
-      FileMode: startResp.metafest.fileMode.toString(),
-    };
-    return fileInfo;
   }
 
   /**
@@ -291,7 +404,7 @@ export class View {
    *
    * @category File management
    */
-  public async uploadVirtual(f: VirtualFile, name: string): Promise<void> {
+  public async uploadVirtual(f: VirtualFile, name: string, options?: RequestOptions): Promise<void> {
     const uploadReq: uploadRequest = {
       mode: f.mode,
       name: name,
@@ -299,14 +412,15 @@ export class View {
       fileContent: f.GetDefinition(),
     };
 
-    const url = await this.fileURLUpload('virtual');
+    const url = await this.fileURLUpload('virtual', undefined, undefined, options);
 
-    const client = await this.client();
-    const [, err] = await client.put<void>(url, uploadReq, {}, true);
+    const client = await this.client(options);
+    const [, err] = await client.put<void>(url, uploadReq, options, true);
     if (err) {
       err.setMessage(`failed to upload virtual file to twintag`)
       throw err
     }
+    this._listingCache?.invalidate('');
 
     // TODO: Parse FileInfo in response
   }
@@ -318,14 +432,14 @@ export class View {
    *
    * @category File management
    */
-  public async download(name: string): Promise<ReadableStream> {
+  public async download(name: string, options?: RequestOptions): Promise<ReadableStream> {
     // TODO: support name & fileInfo
     const url = this.fileURL('web', name);
 
-    const client = await this.client();
+    const client = await this.client(options);
     const [res, err] = await client.do<ReadableStream>(
       url,
-      { method: 'get', headers: { 'Content-Type': 'application/octet-stream' } },
+      { method: 'get', headers: { 'Content-Type': 'application/octet-stream' }, ...options },
       true,
       true,
     );
@@ -337,6 +451,23 @@ export class View {
     return res;
   }
 
+  /**
+   * Download a file by its download url, e.g. the url returned by {@link Folder.downloadUrl}.
+   * The request goes through the transport and middleware of this view.
+   *
+   * @category File management
+   */
+  public async downloadFromUrl(url: string, options?: RequestOptions): Promise<ReadableStream> {
+    const client = await this.client(options);
+    const [res, err] = await client.do<ReadableStream>(url, { method: 'get', ...options }, true, true);
+    if (err) {
+      err.setMessage(`failed to download file from twintag: ${err.message}`)
+      throw err
+    }
+
+    return res;
+  }
+
   /**
    * Convenience method to download a JSON file from a bag and parse it.
    *
@@ -344,12 +475,12 @@ export class View {
    *
    * @category File management
    */
-  public async downloadJSON<T>(name: string): Promise<T> {
+  public async downloadJSON<T>(name: string, options?: RequestOptions): Promise<T> {
     // TODO: support name & fileInfo
     const url = this.fileURL('web', name);
 
-    const client = await this.client();
-    const [res, err] = await client.get<T>(url, { headers: { 'Content-Type': 'application/json' } }, true);
+    const client = await this.client(options);
+    const [res, err] = await client.get<T>(url, { headers: { 'Content-Type': 'application/json' }, ...options }, true);
     if (err) {
       err.setMessage(`failed to downlaod JSON file from twintag`)
       throw err
@@ -364,8 +495,8 @@ export class View {
    *
    * @category File management
    */
-  public async rename(source: FileInfo, name: string): Promise<FileInfo> {
-    return await this.doMove(source, name, undefined, undefined, false);
+  public async rename(source: FileInfo, name: string, options?: RequestOptions): Promise<FileInfo> {
+    return await this.doMove(source, name, undefined, undefined, false, options);
   }
 
   /**
@@ -375,8 +506,8 @@ export class View {
    *
    * @category File management
    */
-  public async move(source: FileInfo, name?: string, parent?: string, view?: string): Promise<FileInfo> {
-    return await this.doMove(source, name, parent, view, false);
+  public async move(source: FileInfo, name?: string, parent?: string, view?: string, options?: RequestOptions): Promise<FileInfo> {
+    return await this.doMove(source, name, parent, view, false, options);
   }
 
   /**
@@ -386,8 +517,8 @@ export class View {
    *
    * @category File management
    */
-  public async copy(source: FileInfo, name?: string, parent?: string, view?: string): Promise<FileInfo> {
-    return await this.doMove(source, name, parent, view, true);
+  public async copy(source: FileInfo, name?: string, parent?: string, view?: string, options?: RequestOptions): Promise<FileInfo> {
+    return await this.doMove(source, name, parent, view, true, options);
   }
 
   private async doMove(
@@ -396,6 +527,7 @@ export class View {
     parent?: string,
     view?: string,
     copy?: boolean,
+    options?: RequestOptions,
   ): Promise<FileInfo> {
     // TODO: implementation
     if (parent === undefined) parent = '';
@@ -412,12 +544,21 @@ export class View {
       targetName: name,
       isCopy: copy,
     };
-    const client = await this.client();
-    const [resp, err] = await client.put<FileInfo>(url, fileMoveRequest);
+    const client = await this.client(options);
+    const [resp, err] = await client.put<FileInfo>(url, fileMoveRequest, options);
     if (err) {
       err.setMessage(`failed to move file in twintag`)
       throw err
     }
+    if (this._listingCache) {
+      if (source.Parent === undefined || (view !== '' && view !== this.qid)) {
+        this._listingCache.invalidate();
+      } else {
+        this._listingCache.invalidate(source.Parent);
+        this._listingCache.invalidate(source.FileQid);
+        this._listingCache.invalidate(parent !== '' ? parent : view !== '' ? '' : source.Parent);
+      }
+    }
 
     return resp;
   }
@@ -429,12 +570,12 @@ export class View {
    *
    * @category File management
    */
-  public async delete(file: FileInfo): Promise<void> {
+  public async delete(file: FileInfo, options?: RequestOptions): Promise<void> {
     // TODO: support filename; filename[], FileInfo & fileInfo[]
     const url = this.fileURL('files');
 
-    const client = await this.client();
-    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url, [file.FileQid.toString()]);
+    const client = await this.client(options);
+    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url, [file.FileQid.toString()], options);
     if (stream && stream instanceof ReadableStream) {
       await stream.cancel() // to avoid leaks
     }
@@ -442,6 +583,12 @@ export class View {
       err.setMessage(`failed to delete file from twintag`)
       throw err
     }
+    if (file.Parent === undefined) {
+      this._listingCache?.invalidate();
+    } else {
+      this._listingCache?.invalidate(file.Parent);
+      this._listingCache?.invalidate(file.FileQid);
+    }
   }
 
   /**
@@ -449,11 +596,11 @@ export class View {
    *
    * Required rights: owner.
    */
-  public async deleteBag(): Promise<void> {
+  public async deleteBag(options?: RequestOptions): Promise<void> {
     const url = this.viewURL();
 
-    const client = await this.client();
-    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url);
+    const client = await this.client(options);
+    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url, undefined, options);
     if (stream && stream instanceof ReadableStream) {
       await stream.cancel() // to avoid leaks
     }
@@ -473,15 +620,15 @@ export class View {
    * await vi.deleteProjectTwintag()
    * ```
    */
-  public async deleteProjectTwintag(): Promise<void>{
+  public async deleteProjectTwintag(options?: RequestOptions): Promise<void>{
     if (!this._data) {
-      await this.data()
+      await this.data(options)
     }
     const url = this.twintagURL();
 
-    const client = await this.client();
-    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url);
-    if (stream) {
+    const client = await this.client(options);
+    const [stream, err] = await client.delete<ReadableStream<Uint8Array>>(url, undefined, options);
+    if (stream && stream instanceof ReadableStream) {
       await stream.cancel() // to avoid leaks
     }
 
@@ -496,10 +643,10 @@ export class View {
    *
    * Required rights: owner.
    */
-  public async getUserView(rights: string[]): Promise<View> {
-    const url = environment.host + '/api/v1/views';
+  public async getUserView(rights: string[], options?: RequestOptions): Promise<View> {
+    const url = this._config.host + '/api/v1/views';
     if (!this._data) {
-      await this.data()
+      await this.data(options)
     }
     const viewReq: viewRequest = {
       id: undefined,
@@ -511,14 +658,14 @@ export class View {
       },
       bagStorageQid: this._data?.bagQid
     };
-    const client = await this.client();
-    const [data, err] = await client.put<viewObject>(url, viewReq);
+    const client = await this.client(options);
+    const [data, err] = await client.put<viewObject>(url, viewReq, options);
     if (err) {
       err.setMessage(`failed to get view information`)
       throw err
     }
 
-    const userView = new View(data.id);
+    const userView = new View(data.id, this._config);
 
     // Pass state
     userView._setConfig({ project: this.project, data: data });
@@ -533,17 +680,24 @@ export class View {
    *
    * @category File management
    */
-  public async list(folder?: string): Promise<FileInfo[]> {
+  public async list(folder?: string, options?: RequestOptions): Promise<FileInfo[]> {
     // TODO: support path
+    const cached = this._listingCache?.getListing(folder ?? '');
+    if (cached) {
+      return cached;
+    }
     const url = this.fileURL('folders', folder);
 
-    const client = await this.client();
-    const [res, err] = await client.get<FileInfo[]>(url);
+    const client = await this.client(options);
+    const [res, err] = await client.get<FileInfo[]>(url, options);
     if (err) {
       err.setMessage(`failed to get list of files from twintag`)
       throw err
     }
 
+    if (Array.isArray(res)) {
+      this._listingCache?.setListing(folder ?? '', res);
+    }
     return res;
   }
 
@@ -553,7 +707,7 @@ export class View {
    * @param folderParent
    * @returns
    */
-  public async addFolder<T>(folderName: string, folderParent?: string): Promise<T> {
+  public async addFolder<T>(folderName: string, folderParent?: string, options?: RequestOptions): Promise<T> {
     if (folderName.trim().length == 0) {
       throw new Error("Invalid folder name.")
     }
@@ -562,13 +716,14 @@ export class View {
       name: folderName,
       parent: folderParent ? folderParent : null
     }
-    const client = await this.client();
+    const client = await this.client(options);
 
-    const [res, err] = await client.put<T>(url, body)
+    const [res, err] = await client.put<T>(url, body, options)
     if (err) {
       err.setMessage(`failed to create folder: ${err.message}`)
       throw err
     }
+    this._listingCache?.invalidate(folderParent ? folderParent : '');
     return res;
   }
 
@@ -579,11 +734,11 @@ export class View {
    *
    * @hidden
    */
-  public async seal(): Promise<void> {
+  public async seal(options?: RequestOptions): Promise<void> {
     const url = this.fileURL('seal');
 
-    const client = await this.client();
-    const [, err] = await client.put<viewObject>(url, {});
+    const client = await this.client(options);
+    const [, err] = await client.put<viewObject>(url, {}, options);
     if (err) {
       err.setMessage(`failed to seal`)
       throw err
@@ -598,19 +753,19 @@ export class View {
    * @param lang: optional language value. Allowed inputs are "all" or any language defined in project languages. If no value is passed, then project's default language will be used for returning data
    * @category Metadata
    */
-  public async getMetadata<T>(lang?: string): Promise<T> {
+  public async getMetadata<T>(lang?: string, options?: DataOptions): Promise<T> {
 
     let url = this.fileURL('data/metadata', undefined, undefined, true);
     url += lang ? `?language=${(lang == 'all' ? '*' : lang)}` : ''
 
-    const client = await this.client();
-    const [res, err] = await client.get<T>(url);
+    const client = await this.client(options);
+    const [res, err] = await client.get<T>(url, options);
     if (err) {
       err.setMessage(`failed to get metadata of twintag`)
       throw err
     }
 
-    return Parser.parseSpecialTypes(res);
+    return client.config.codecs.decode(res, contextOf(client.config, options));
   }
 
   /**
@@ -622,17 +777,18 @@ export class View {
    *
    * @category Metadata
    */
-  public async setMetadata<T>(data: T): Promise<T> {
+  public async setMetadata<T>(data: T, options?: DataOptions): Promise<T> {
     const url = this.fileURL('data/metadata');
 
-    const client = await this.client();
-    const [res, err] = await client.put<T>(url, data, { headers: { 'Content-Type': 'application/json' } });
+    const client = await this.client(options);
+    const context = contextOf(client.config, options);
+    const [res, err] = await client.put<T>(url, client.config.codecs.encode(data, context), { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage(`failed to set metadata to twintag`)
       throw err
     }
 
-    return res;
+    return client.config.codecs.decode(res, context);
   }
 
   /**
@@ -646,21 +802,21 @@ export class View {
    *
    * @category Structured Data
    */
-  public async getData<T>(objectAPIName: string, attribute?: string): Promise<T> {
+  public async getData<T>(objectAPIName: string, attribute?: string, options?: DataOptions): Promise<T> {
     let url = this.fileURL('data/' + objectAPIName, undefined, undefined, true);
 
     if (attribute && attribute != '') {
       url = url + '?property=' + attribute;
     }
 
-    const client = await this.client();
-    const [res, err] = await client.get<T>(url);
+    const client = await this.client(options);
+    const [res, err] = await client.get<T>(url, options);
     if (err) {
       err.setMessage(`failed to get data to twintag object: ${objectAPIName}`)
       throw err
     }
 
-    return Parser.parseSpecialTypes(res);
+    return client.config.codecs.decode(res, contextOf(client.config, options));
   }
 
   /**
@@ -673,17 +829,18 @@ export class View {
    *
    * @category Structured Data
    */
-  public async setData<T>(objectApiName: string, data: T): Promise<T> {
+  public async setData<T>(objectApiName: string, data: T, options?: DataOptions): Promise<T> {
     const url = this.fileURL('data/' + objectApiName);
 
-    const client = await this.client();
-    const [res, err] = await client.put<T>(url, data, { headers: { 'Content-Type': 'application/json' } });
+    const client = await this.client(options);
+    const context = contextOf(client.config, options);
+    const [res, err] = await client.put<T>(url, client.config.codecs.encode(data, context), { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage(`failed to set data to twintag object: ${objectApiName}`)
       throw err
     }
 
-    return res;
+    return client.config.codecs.decode(res, context);
   }
 
   /**
@@ -695,15 +852,16 @@ export class View {
    *
    * @category Structured Data
    */
-  public async object(objectApiName: string): Promise<listObject> {
-    const client = await this.client();
-    const data = await this.data();
+  // deno-lint-ignore no-explicit-any
+  public async object<T = any>(objectApiName: string, options?: RequestOptions): Promise<listObject<T>> {
+    const client = await this.client(options);
+    const data = await this.data(options);
 
     if (!data.data.project || !data.data.project.projectId || data.data.project.projectId == '') {
       throw new Error(`view not tagged to any project`);
     }
 
-    return new listObject(objectApiName, client, data.id, '', this._useCaching);
+    return new listObject<T>(objectApiName, client, data.id, '', this._useCaching);
   }
 
   /**
@@ -733,8 +891,8 @@ export class View {
    * Currently supported values: en_GB, nl_BE, fr_BE
    * @category Notification
    */
-  public async notify<T>(request: string | NotificationRequest, channel?: string): Promise<T> {
-    const client = await this.client();
+  public async notify<T>(request: string | NotificationRequest, channel?: string, options?: RequestOptions): Promise<T> {
+    const client = await this.client(options);
     let body: NotificationRequest;
     if (typeof request == 'string') {
       body = {
@@ -745,7 +903,7 @@ export class View {
     }
     channel = channel ? channel : 'email';
     const url = this.viewURL() + '/notification?type=' + channel;
-    const [res, err] = await client.post<T>(url, body, { headers: { 'Content-Type': 'application/json' } });
+    const [res, err] = await client.post<T>(url, body, { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage('failed to notify to all subcribers of twintag')
       throw err
@@ -774,8 +932,8 @@ export class View {
  * ```
  * @category Notification
  */
-  public async sendFeedback<T>(request: string | FeedbackRequest): Promise<T> {
-    const client = await this.client();
+  public async sendFeedback<T>(request: string | FeedbackRequest, options?: RequestOptions): Promise<T> {
+    const client = await this.client(options);
     let body: FeedbackRequest;
     if (typeof request == 'string') {
       body = {
@@ -785,7 +943,7 @@ export class View {
       body = request;
     }
     const url = this.viewURL() + '/feedback';
-    const [res, err] = await client.put<T>(url, body, { headers: { 'Content-Type': 'application/json' } });
+    const [res, err] = await client.put<T>(url, body, { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage(`failed to submit feedback`);
       throw err
@@ -815,13 +973,13 @@ export class View {
    * ```
    * @category Notifications
    */
-  public async sendToSubscribers<T>(request: EmailRequest): Promise<T> {
+  public async sendToSubscribers<T>(request: EmailRequest, options?: RequestOptions): Promise<T> {
 
-    const client = await this.client();
-    const data = await this.data();
+    const client = await this.client(options);
+    const data = await this.data(options);
 
     const url = this.viewURL() + `/notification?type=customEmail`;
-    const [res, err] = await client.post<T>(url, request, { headers: { 'Content-Type': 'application/json' } });
+    const [res, err] = await client.post<T>(url, request, { headers: { 'Content-Type': 'application/json' }, ...options });
     if (err) {
       err.setMessage('failed to notify to all subcribers of twintag through custom email')
       throw err
@@ -918,6 +1076,17 @@ interface newFileInfo {
   modTime: Date;
 }
 
+function uploadedFileInfo(metafest: newFileInfo, size: number): FileInfo {
+  return {
+    FileQid: metafest.fileQid,
+    Name: metafest.fileName,
+    Parent: undefined,
+    Size: size,
+    MTime: metafest.modTime,
+    FileMode: metafest.fileMode.toString(),
+  };
+}
+
 /**
  * Upload request
  *
@@ -0,0 +1,2 @@
+export { FakeTwintagServer, useFakeServer, type FakeProject, type FakeMessage } from './sdk/fake_server.ts';
+export { FixtureRecorder, FixtureReplayer, FixtureNotFoundError, type Fixture } from './sdk/fixtures.ts';
@@ -0,0 +1,47 @@
+/**
+ * Generate TypeScript types from the schema of a project, see {@link generateTypes}.
+ *
+ * ```
+ * deno run --allow-net --allow-env --allow-write typegen.ts --api-key <key> --out schema.ts
+ * ```
+ *
+ * Options:
+ * - `--api-key`: API key of the project, or the PROJECT_APIKEY environment variable
+ * - `--out`: file to write, standard output by default
+ * - `--object`: apiName of an object to generate types for, can be repeated. All objects by default.
+ * - `--map-name`: name of the interface mapping apiNames to record types
+ * - `--admin-host`: admin host of the API, see {@link TwintagConfig}
+ */
+import { Project } from './sdk/project.ts';
+import { generateTypes } from './sdk/typegen.ts';
+
+export { generateTypes, type TypegenOptions } from './sdk/typegen.ts';
+
+if (import.meta.main) {
+  const args: { [name: string]: string[] } = {};
+  for (let i = 0; i < Deno.args.length; i++) {
+    const [name, value] = Deno.args[i].split(/=(.*)/s);
+    if (!name.startsWith('--')) {
+      console.error(`unexpected argument ${name}`);
+      Deno.exit(2);
+    }
+    (args[name.slice(2)] ??= []).push(value ?? Deno.args[++i] ?? '');
+  }
+
+  const apiKey = args['api-key']?.[0] ?? Deno.env.get('PROJECT_APIKEY');
+  if (!apiKey) {
+    console.error('missing --api-key or PROJECT_APIKEY');
+    Deno.exit(2);
+  }
+
+  const adminHost = args['admin-host']?.[0];
+  const project = new Project(apiKey, adminHost ? { adminHost: adminHost } : undefined);
+  const source = await generateTypes(project, { objects: args['object'], mapName: args['map-name']?.[0] });
+
+  const out = args['out']?.[0];
+  if (out) {
+    await Deno.writeTextFile(out, source);
+  } else {
+    console.log(source);
+  }
+}